@@ -0,0 +1,13 @@
+import nextJest from "next/jest.js";
+
+// next/jest compiles TypeScript with the same SWC setup as the app
+const createJestConfig = nextJest({ dir: "./" });
+
+const config = {
+  testEnvironment: "node",
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+};
+
+export default createJestConfig(config);
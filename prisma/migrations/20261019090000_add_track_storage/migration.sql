@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "tracks" ADD COLUMN     "content_hash" TEXT,
+ADD COLUMN     "content_type" TEXT,
+ADD COLUMN     "file_size" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "tracks_content_hash_idx" ON "tracks"("content_hash");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "track_features" ADD COLUMN     "analyzer_version" TEXT;
+
+-- CreateTable
+CREATE TABLE "analysis_jobs" (
+    "id" TEXT NOT NULL,
+    "track_id" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "stage" TEXT,
+    "progress" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 3,
+    "error" TEXT,
+    "analyzer_version" TEXT,
+    "run_after" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "analysis_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "analysis_jobs_status_run_after_idx" ON "analysis_jobs"("status", "run_after");
+
+-- CreateIndex
+CREATE INDEX "analysis_jobs_track_id_idx" ON "analysis_jobs"("track_id");
+
+-- AddForeignKey
+ALTER TABLE "analysis_jobs" ADD CONSTRAINT "analysis_jobs_track_id_fkey" FOREIGN KEY ("track_id") REFERENCES "tracks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "track_features" ADD COLUMN     "mfcc_variance" JSONB;
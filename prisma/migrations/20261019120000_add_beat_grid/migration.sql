@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "track_features" ADD COLUMN     "beat_grid" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "track_features" ADD COLUMN     "tempo_confidence" DOUBLE PRECISION,
+ADD COLUMN     "tempo_curve" JSONB;
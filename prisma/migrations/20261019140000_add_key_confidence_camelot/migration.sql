@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "track_features" ADD COLUMN     "alternate_key" TEXT,
+ADD COLUMN     "camelot_key" TEXT,
+ADD COLUMN     "key_confidence" DOUBLE PRECISION;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "track_features" ADD COLUMN     "analysis_params" JSONB,
+ADD COLUMN     "degraded" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "feature_status" JSONB;
+
+-- CreateIndex
+CREATE INDEX "track_features_degraded_idx" ON "track_features"("degraded");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "track_features" ADD COLUMN     "key_changes" JSONB;
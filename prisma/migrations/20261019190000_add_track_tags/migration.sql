@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "tracks" ADD COLUMN     "album" TEXT,
+ADD COLUMN     "cover_art_path" TEXT,
+ADD COLUMN     "genre" TEXT,
+ADD COLUMN     "label" TEXT,
+ADD COLUMN     "tagged_bpm" DOUBLE PRECISION,
+ADD COLUMN     "tagged_key" TEXT,
+ADD COLUMN     "year" INTEGER;
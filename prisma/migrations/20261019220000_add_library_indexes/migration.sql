@@ -0,0 +1,17 @@
+-- CreateIndex
+CREATE INDEX "tracks_created_at_idx" ON "tracks"("created_at");
+
+-- CreateIndex
+CREATE INDEX "tracks_title_idx" ON "tracks"("title");
+
+-- CreateIndex
+CREATE INDEX "tracks_artist_idx" ON "tracks"("artist");
+
+-- CreateIndex
+CREATE INDEX "track_features_tempo_idx" ON "track_features"("tempo");
+
+-- CreateIndex
+CREATE INDEX "track_features_energy_level_idx" ON "track_features"("energy_level");
+
+-- CreateIndex
+CREATE INDEX "track_features_musical_key_idx" ON "track_features"("musical_key");
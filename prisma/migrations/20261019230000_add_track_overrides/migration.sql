@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "tracks" ADD COLUMN     "bpm_override" DOUBLE PRECISION,
+ADD COLUMN     "key_override" TEXT;
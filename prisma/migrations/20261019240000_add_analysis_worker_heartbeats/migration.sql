@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "analysis_worker_heartbeats" (
+    "id" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "analysis_worker_heartbeats_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "tracks" ADD COLUMN     "effective_bpm" DOUBLE PRECISION;
+
+-- The manual BPM, else the analyzed tempo, so the library can sort and
+-- filter on the BPM users actually see
+CREATE FUNCTION "tracks_set_effective_bpm"() RETURNS TRIGGER AS $$
+BEGIN
+  NEW."effective_bpm" := COALESCE(
+    NEW."bpm_override",
+    (SELECT "tempo" FROM "track_features" WHERE "track_id" = NEW."id")
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "tracks_effective_bpm"
+BEFORE INSERT OR UPDATE ON "tracks"
+FOR EACH ROW EXECUTE FUNCTION "tracks_set_effective_bpm"();
+
+-- Touching the track row re-runs the trigger above
+CREATE FUNCTION "track_features_refresh_effective_bpm"() RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE "tracks" SET "effective_bpm" = NULL
+  WHERE "id" = COALESCE(NEW."track_id", OLD."track_id");
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "track_features_effective_bpm"
+AFTER INSERT OR DELETE OR UPDATE OF "tempo", "track_id" ON "track_features"
+FOR EACH ROW EXECUTE FUNCTION "track_features_refresh_effective_bpm"();
+
+-- Backfill existing tracks
+UPDATE "tracks" SET "effective_bpm" = NULL;
+
+-- CreateIndex
+CREATE INDEX "tracks_effective_bpm_idx" ON "tracks"("effective_bpm");
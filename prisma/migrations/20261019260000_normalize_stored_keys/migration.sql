@@ -0,0 +1,41 @@
+-- Keys detected before Krumhansl key detection were stored as written, so
+-- flats and spelled-out modes ('Db minor', 'Ebmaj') never matched the
+-- library's key filter. Rewrite them in the standard sharps form ('C#m', 'D#').
+CREATE FUNCTION pg_temp."normalize_key"(notation TEXT) RETURNS TEXT AS $$
+DECLARE
+  parts TEXT[];
+  tonic INTEGER;
+BEGIN
+  parts := regexp_match(trim(notation), '^([A-Ga-g])\s*(#|♯|b|♭|-?sharp|-?flat)?\s*(.*)$', 'i');
+  IF parts IS NULL THEN
+    RETURN notation;
+  END IF;
+
+  tonic := CASE upper(parts[1])
+    WHEN 'C' THEN 0 WHEN 'D' THEN 2 WHEN 'E' THEN 4 WHEN 'F' THEN 5
+    WHEN 'G' THEN 7 WHEN 'A' THEN 9 ELSE 11
+  END;
+  IF lower(replace(coalesce(parts[2], ''), '-', '')) IN ('#', '♯', 'sharp') THEN
+    tonic := tonic + 1;
+  ELSIF lower(replace(coalesce(parts[2], ''), '-', '')) IN ('b', '♭', 'flat') THEN
+    tonic := tonic - 1;
+  END IF;
+  tonic := (tonic + 12) % 12;
+
+  parts[3] := trim(parts[3]);
+  IF parts[3] = 'm' OR lower(parts[3]) IN ('min', 'minor', 'mi', 'moll', '-') THEN
+    RETURN (ARRAY['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'])[tonic + 1] || 'm';
+  ELSIF parts[3] IN ('', 'M') OR lower(parts[3]) IN ('maj', 'major', 'ma', 'dur') THEN
+    RETURN (ARRAY['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'])[tonic + 1];
+  END IF;
+  RETURN notation;
+END;
+$$ LANGUAGE plpgsql;
+
+UPDATE "track_features"
+SET "musical_key" = pg_temp."normalize_key"("musical_key")
+WHERE "musical_key" IS NOT NULL;
+
+UPDATE "tracks"
+SET "key_override" = pg_temp."normalize_key"("key_override")
+WHERE "key_override" IS NOT NULL;
@@ -0,0 +1,31 @@
+import { loadEnvConfig } from '@next/env';
+
+// Background analysis worker: `npm run worker`. Decoding and DSP are CPU-bound,
+// so they run in this process instead of blocking the Next.js server's event loop.
+// Run one or more alongside the web server; they share the queue.
+
+// Same .env files as the web server
+loadEnvConfig(process.cwd());
+
+async function main() {
+  // Imported after the environment is loaded, since Prisma reads it on import
+  const { AnalysisWorker } = await import('@/lib/jobs/analysis-worker');
+  const worker = new AnalysisWorker({
+    pollIntervalMs: Number(process.env.ANALYSIS_WORKER_POLL_MS) || undefined
+  });
+
+  // A job cut off here is picked up again once it counts as stalled
+  const shutdown = async () => {
+    await worker.stop().catch(error => console.error('Failed to stop analysis worker cleanly:', error));
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  worker.start();
+}
+
+main().catch(error => {
+  console.error('Analysis worker failed to start:', error);
+  process.exit(1);
+});
@@ -1,68 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/database/connection';
-import { TrackComparator } from '@/lib/audio/comparison';
-import { TrackFeatures, StructureSegment } from '@/types';
 import { Prisma } from '@prisma/client';
-
-// Type for Prisma track features with JSON values
-type PrismaTrackFeatures = {
-  id: string;
-  trackId: string;
-  tempo: number | null;
-  musicalKey: string | null;
-  energyLevel: number | null;
-  loudness: number | null;
-  danceability: number | null;
-  valence: number | null;
-  spectralCentroid: number | null;
-  spectralRolloff: number | null;
-  zeroCrossingRate: number | null;
-  mfcc: Prisma.JsonValue;
-  chroma: Prisma.JsonValue;
-  beatPositions: Prisma.JsonValue;
-  structureSegments: Prisma.JsonValue;
-  createdAt: Date;
-};
-
-// Helper functions for safe type conversion
-function safeNumberArray(value: Prisma.JsonValue): number[] | null {
-  return Array.isArray(value) && value.every(item => typeof item === 'number') ? value as number[] : null;
-}
-
-function safeStructureSegments(value: Prisma.JsonValue): StructureSegment[] | null {
-  return Array.isArray(value) ? value as unknown as StructureSegment[] : null;
-}
-
-// Convert Prisma data to our TypeScript interface
-function convertPrismaToTrackFeatures(prismaFeatures: PrismaTrackFeatures): TrackFeatures {
-  return {
-    id: prismaFeatures.id,
-    trackId: prismaFeatures.trackId,
-    tempo: prismaFeatures.tempo,
-    musicalKey: prismaFeatures.musicalKey,
-    energyLevel: prismaFeatures.energyLevel,
-    loudness: prismaFeatures.loudness,
-    danceability: prismaFeatures.danceability,
-    valence: prismaFeatures.valence,
-    spectralCentroid: prismaFeatures.spectralCentroid,
-    spectralRolloff: prismaFeatures.spectralRolloff,
-    zeroCrossingRate: prismaFeatures.zeroCrossingRate,
-    mfcc: safeNumberArray(prismaFeatures.mfcc),
-    chroma: safeNumberArray(prismaFeatures.chroma),
-    beatPositions: safeNumberArray(prismaFeatures.beatPositions),
-    structureSegments: safeStructureSegments(prismaFeatures.structureSegments),
-    createdAt: prismaFeatures.createdAt,
-  };
-}
-
+import { prisma } from '@/lib/database/connection';
+import { convertPrismaToTrackFeatures } from '@/lib/database/track-features';
+import { SetSequencer } from '@/lib/playlist/set-sequencer';
+import { DurationTarget, sequenceForDuration, SetTimer } from '@/lib/playlist/set-timing';
+import { EnergyScale, parseEnergyArc, presetEnergyArc } from '@/lib/playlist/energy-arc';
+import { HarmonicRules, movesForPreference, parseHarmonicRules } from '@/lib/playlist/harmonic-path';
+
+// Timed sets within this many seconds of the target, or this share of it if larger
+const DEFAULT_TOLERANCE_SECONDS = 60;
+const DEFAULT_TOLERANCE_SHARE = 0.03;
+
+// Generate a set of playlistLength tracks starting at seedTrackId (and
+// ending at endTrackId when given), ordered for the smoothest transitions.
+// energyArc (a preset name or {position, energy} points) shapes the set's
+// energy; without one, preferences.energyProgression picks a preset.
+// harmonicRules ({moves, startKey?, endKey?}) restricts the key move every
+// transition may make; without them, preferences.keyRelationshipPreference
+// picks the moves. A set the rules can't complete gets a 422 saying why.
+// targetDuration (seconds) replaces playlistLength with as many tracks as
+// fill that much mixed play time, within durationTolerance seconds.
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { seedTrackId, playlistLength = 10 } = body;
+    const { seedTrackId, endTrackId, playlistLength = 10, preferences } = body;
 
     if (!seedTrackId) {
       return NextResponse.json({ error: 'Seed track ID is required' }, { status: 400 });
     }
+    if (!Number.isInteger(playlistLength) || playlistLength < 2) {
+      return NextResponse.json({ error: 'playlistLength must be an integer of at least 2' }, { status: 400 });
+    }
+    const requestedArc = body.energyArc ?? preferences?.energyProgression;
+    const energyArc = requestedArc !== undefined ? parseEnergyArc(requestedArc) : null;
+    if (energyArc && typeof energyArc === 'object' && 'error' in energyArc) {
+      return NextResponse.json(energyArc, { status: 400 });
+    }
+    let durationTarget: DurationTarget | undefined;
+    if (body.targetDuration !== undefined) {
+      const { targetDuration, durationTolerance = Math.max(DEFAULT_TOLERANCE_SECONDS, targetDuration * DEFAULT_TOLERANCE_SHARE) } = body;
+      if (typeof targetDuration !== 'number' || !Number.isFinite(targetDuration) || targetDuration <= 0) {
+        return NextResponse.json({ error: 'targetDuration must be a positive number of seconds' }, { status: 400 });
+      }
+      if (typeof durationTolerance !== 'number' || !Number.isFinite(durationTolerance) || durationTolerance < 0) {
+        return NextResponse.json({ error: 'durationTolerance must be a non-negative number of seconds' }, { status: 400 });
+      }
+      durationTarget = { seconds: targetDuration, tolerance: durationTolerance };
+    }
+    let harmonicRules: HarmonicRules | undefined;
+    if (body.harmonicRules !== undefined) {
+      const rules = parseHarmonicRules(body.harmonicRules);
+      if ('error' in rules) {
+        return NextResponse.json(rules, { status: 400 });
+      }
+      harmonicRules = rules;
+    } else if (preferences?.keyRelationshipPreference !== undefined) {
+      if (!['harmonic', 'chromatic', 'any'].includes(preferences.keyRelationshipPreference)) {
+        return NextResponse.json({
+          error: 'Invalid preferences',
+          details: 'keyRelationshipPreference must be harmonic, chromatic or any'
+        }, { status: 400 });
+      }
+      const moves = movesForPreference(preferences.keyRelationshipPreference);
+      harmonicRules = moves ? { moves } : undefined;
+    }
 
     // Get the seed track with features
     const seedTrack = await prisma.track.findUnique({
@@ -74,48 +75,79 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Seed track not found or not analyzed' }, { status: 404 });
     }
 
+    // An optional fixed last track, which has to be analyzed too
+    const endTrack = endTrackId
+      ? await prisma.track.findUnique({ where: { id: endTrackId }, include: { features: true } })
+      : null;
+    if (endTrackId && (!endTrack || !endTrack.features)) {
+      return NextResponse.json({ error: 'End track not found or not analyzed' }, { status: 404 });
+    }
+    if (endTrackId === seedTrackId) {
+      return NextResponse.json({ error: 'End track must differ from the seed track' }, { status: 400 });
+    }
+
     // Get all other tracks with features for comparison
     const candidateTracks = await prisma.track.findMany({
       where: {
-        id: { not: seedTrackId },
+        id: { notIn: [seedTrackId, ...(endTrackId ? [endTrackId] : [])] },
         features: { isNot: null }
       },
       include: { features: true }
     });
 
-    if (candidateTracks.length === 0) {
+    if (candidateTracks.length === 0 && !endTrack) {
       return NextResponse.json({ error: 'No compatible tracks found' }, { status: 404 });
     }
 
     // Convert Prisma data to our TypeScript interfaces
-    const seedFeatures = convertPrismaToTrackFeatures(seedTrack.features);
-    const candidateFeatures = candidateTracks.map(t => convertPrismaToTrackFeatures(t.features!));
-
-    // Use the track comparator to find compatible tracks
-    const comparator = new TrackComparator();
-    const compatibleTracks = comparator.findCompatibleTracks(
-      seedFeatures,
-      candidateFeatures,
-      playlistLength - 1 // Exclude seed track from count
-    );
-
-    // Build playlist starting with seed track
-    const playlistTracks = [
-      {
-        track: seedTrack,
-        position: 0,
-        compatibilityScore: null
-      },
-      ...compatibleTracks.map((item, index) => {
-        // Find the full track data by matching features
-        const fullTrack = candidateTracks.find(t => t.features!.id === item.track.id);
-        return {
-          track: fullTrack!,
-          position: index + 1,
-          compatibilityScore: item.score
-        };
-      })
-    ];
+    const seedFeatures = convertPrismaToTrackFeatures(seedTrack.features, seedTrack);
+    const candidateFeatures = candidateTracks.map(t => convertPrismaToTrackFeatures(t.features!, t));
+
+    const endFeatures = endTrack ? convertPrismaToTrackFeatures(endTrack.features!, endTrack) : undefined;
+
+    // Presets are relative to the library; 'maintain' holds the seed's level
+    const arcPoints = typeof energyArc === 'string'
+      ? presetEnergyArc(energyArc, new EnergyScale([seedFeatures, ...candidateFeatures]).relative(seedFeatures) ?? 0.5)
+      : energyArc ?? undefined;
+
+    const fullTracks = new Map([seedTrack, ...candidateTracks, ...(endTrack ? [endTrack] : [])].map(t => [t.id, t]));
+
+    // Timing needs every track's length, so tracks without one sit out timed sets
+    if (durationTarget && (!seedFeatures.duration || (endFeatures && !endFeatures.duration))) {
+      return NextResponse.json({
+        error: 'Track length unknown',
+        details: 'The seed and end tracks need a known duration to plan a set by time'
+      }, { status: 422 });
+    }
+
+    // Order the set so every neighbouring pair mixes well, not just each track with the seed
+    const sequenceOptions = { endTrack: endFeatures, energyArc: arcPoints, harmonic: harmonicRules };
+    const planned = durationTarget
+      ? sequenceForDuration(seedFeatures, candidateFeatures.filter(features => features.duration), sequenceOptions, durationTarget)
+      : new SetSequencer().sequence(seedFeatures, candidateFeatures, { ...sequenceOptions, length: playlistLength });
+
+    if ('error' in planned) {
+      const fromTrack = planned.fromTrackId ? fullTracks.get(planned.fromTrackId) : null;
+      return NextResponse.json({
+        ...planned,
+        fromTrack: fromTrack ? { id: fromTrack.id, title: fromTrack.title, artist: fromTrack.artist } : null
+      }, { status: 422 });
+    }
+
+    const set = 'set' in planned ? planned.set : planned;
+    // Play time with the chosen cue points, when every track's length is known
+    const timing = 'timing' in planned
+      ? planned.timing
+      : set.tracks.every(features => features.duration) ? new SetTimer().time(set.tracks) : null;
+
+    // Each track carries the score of the transition into it; the seed has none
+    const playlistTracks = set.tracks.map((features, index) => ({
+      track: fullTracks.get(features.trackId)!,
+      position: index,
+      compatibilityScore: index > 0 ? set.transitions[index - 1].score : null,
+      energy: set.energy?.slots[index] ?? null,
+      timing: timing?.tracks[index] ?? null
+    }));
 
     // Create playlist record in database
     const playlist = await prisma.playlist.create({
@@ -127,7 +159,7 @@ export async function POST(request: NextRequest) {
           position: item.position,
           score: item.compatibilityScore?.overall || 1.0
         })),
-        transitionInstructions: [] // Placeholder for transition instructions
+        transitionInstructions: (timing?.transitions ?? []) as unknown as Prisma.InputJsonValue // Cue points per transition
       }
     });
 
@@ -135,6 +167,12 @@ export async function POST(request: NextRequest) {
       id: playlist.id,
       name: playlist.name,
       tracks: playlistTracks,
+      transitions: set.transitions,
+      totalScore: set.totalScore,
+      averageScore: set.averageScore,
+      energyArc: arcPoints ?? null,
+      energyDeviation: set.energy?.meanDeviation ?? null,
+      timing,
       seedTrack: seedTrack,
       createdAt: playlist.createdAt
     });
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/connection';
+import { AnalysisQueue } from '@/lib/jobs/analysis-queue';
+
+type Params = Promise<{ id: string }>;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Params }
+) {
+  try {
+    const { id } = await params;
+
+    const track = await prisma.track.findUnique({
+      where: { id },
+      include: { features: true }
+    });
+
+    if (!track) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+
+    const queue = new AnalysisQueue();
+    const [job, workerRunning] = await Promise.all([queue.getLatestForTrack(id), queue.isWorkerRunning()]);
+
+    // Tracks analyzed before the queue existed have features but no job
+    const status = job?.status ?? (track.features ? 'succeeded' : 'not_queued');
+
+    return NextResponse.json({
+      trackId: id,
+      status,
+      stage: job?.stage ?? null,
+      progress: status === 'succeeded' ? 1 : job?.progress ?? 0,
+      attempts: job?.attempts ?? 0,
+      maxAttempts: job?.maxAttempts ?? 0,
+      error: job?.error ?? null,
+      runAfter: job?.runAfter ?? null,
+      analyzerVersion: track.features?.analyzerVersion ?? null,
+      updatedAt: job?.updatedAt ?? track.updatedAt,
+      // Without a worker, queued jobs never start; clients should stop waiting
+      workerRunning,
+      track: status === 'succeeded' ? track : undefined
+    });
+  } catch (error) {
+    console.error('Analysis status error:', error);
+    return NextResponse.json({ error: 'Failed to get analysis status' }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database/connection';
+import { analyzeStoredTrack, saveAnalysisResult } from '@/lib/analysis/track-analysis';
+import { AnalysisQueue } from '@/lib/jobs/analysis-queue';
 
 type Params = Promise<{ id: string }>;
 
@@ -9,48 +11,43 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    const body = await request.json();
-    const { analysisResult } = body;
+    const body = await request.json().catch(() => ({}));
+    const { background = false, genre, tempoRange } = body;
+    let { analysisResult } = body;
 
+    // Hand the work to the background worker; clients poll analysis-status
+    if (!analysisResult && background) {
+      const job = await new AnalysisQueue().enqueue(id);
+      return NextResponse.json({ job }, { status: 202 });
+    }
+
+    // Without a client-side result, decode and analyze the stored audio here
     if (!analysisResult) {
-      return NextResponse.json({ error: 'No analysis result provided' }, { status: 400 });
+      try {
+        analysisResult = await analyzeStoredTrack(
+          id,
+          undefined,
+          genre || tempoRange ? { genre, tempoRange } : undefined
+        );
+      } catch (error) {
+        console.error('Server-side analysis error:', error);
+        return NextResponse.json({
+          error: 'Failed to analyze track',
+          details: error instanceof Error ? error.message : 'Unknown analysis error'
+        }, { status: 422 });
+      }
     }
 
     // Store the analysis results in the database
-    const trackFeatures = await prisma.trackFeatures.upsert({
-      where: { trackId: id },
-      update: {
-        tempo: analysisResult.tempo,
-        musicalKey: analysisResult.key,
-        energyLevel: analysisResult.energy,
-        spectralCentroid: analysisResult.spectral?.[0] || 0,
-        mfcc: analysisResult.spectral || [],
-        beatPositions: analysisResult.beats || [],
-        structureSegments: analysisResult.structure || [],
-      },
-      create: {
-        trackId: id,
-        tempo: analysisResult.tempo,
-        musicalKey: analysisResult.key,
-        energyLevel: analysisResult.energy,
-        spectralCentroid: analysisResult.spectral?.[0] || 0,
-        mfcc: analysisResult.spectral || [],
-        beatPositions: analysisResult.beats || [],
-        structureSegments: analysisResult.structure || [],
-      },
+    const trackFeatures = await saveAnalysisResult(id, analysisResult);
+    const track = await prisma.track.findUnique({
+      where: { id },
+      include: { features: true }
     });
 
-    // Update track duration if provided
-    if (analysisResult.duration) {
-      await prisma.track.update({
-        where: { id },
-        data: { duration: analysisResult.duration },
-      });
-    }
-
-    return NextResponse.json(trackFeatures);
+    return NextResponse.json({ ...trackFeatures, track });
   } catch (error) {
     console.error('Analysis storage error:', error);
     return NextResponse.json({ error: 'Failed to store analysis' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/connection';
+import { getStorage } from '@/lib/storage';
+import { parseRangeHeader } from '@/lib/storage/http-range';
+
+type Params = Promise<{ id: string }>;
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Params }
+) {
+  try {
+    const { id } = await params;
+
+    const track = await prisma.track.findUnique({ where: { id } });
+    if (!track) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+
+    const storage = getStorage();
+    const metadata = await storage.headObject(track.filePath);
+    if (!metadata) {
+      return NextResponse.json({ error: 'Audio file not found in storage' }, { status: 404 });
+    }
+
+    const extension = track.filename.split('.').pop()?.toLowerCase() ?? '';
+    const contentType = track.contentType || CONTENT_TYPES_BY_EXTENSION[extension] || 'application/octet-stream';
+
+    const rangeResult = parseRangeHeader(request.headers.get('range'), metadata.size);
+    if (rangeResult.type === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${metadata.size}` }
+      });
+    }
+
+    const range = rangeResult.type === 'range' ? rangeResult.range : undefined;
+    const object = await storage.getObject(track.filePath, range);
+    if (!object) {
+      return NextResponse.json({ error: 'Audio file not found in storage' }, { status: 404 });
+    }
+
+    const headers: Record<string, string> = {
+      'Accept-Ranges': 'bytes',
+      'Content-Type': contentType,
+      'Content-Length': object.contentLength.toString(),
+      'Last-Modified': object.lastModified.toUTCString(),
+    };
+    if (track.contentHash) {
+      headers['ETag'] = `"${track.contentHash}"`;
+    }
+    if (range) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.end}/${object.size}`;
+    }
+
+    return new NextResponse(object.body, { status: range ? 206 : 200, headers });
+  } catch (error) {
+    console.error('Audio streaming error:', error);
+    return NextResponse.json({ error: 'Failed to stream audio' }, { status: 500 });
+  }
+}
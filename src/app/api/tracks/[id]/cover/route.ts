@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/connection';
+import { getStorage } from '@/lib/storage';
+
+type Params = Promise<{ id: string }>;
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+// Cover art extracted from the track's tags on upload
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Params }
+) {
+  try {
+    const { id } = await params;
+
+    const track = await prisma.track.findUnique({
+      where: { id },
+      select: { coverArtPath: true }
+    });
+    if (!track) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+    if (!track.coverArtPath) {
+      return NextResponse.json({ error: 'Track has no cover art' }, { status: 404 });
+    }
+
+    const object = await getStorage().getObject(track.coverArtPath);
+    if (!object) {
+      return NextResponse.json({ error: 'Cover art not found in storage' }, { status: 404 });
+    }
+
+    const extension = track.coverArtPath.split('.').pop()?.toLowerCase() ?? '';
+    return new NextResponse(object.body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES_BY_EXTENSION[extension] ?? 'application/octet-stream',
+        'Content-Length': object.contentLength.toString(),
+        'Last-Modified': object.lastModified.toUTCString(),
+        // Cover objects are never rewritten in place, a new key is used instead
+        'Cache-Control': 'private, max-age=86400',
+      }
+    });
+  } catch (error) {
+    console.error('Cover art error:', error);
+    return NextResponse.json({ error: 'Failed to load cover art' }, { status: 500 });
+  }
+}
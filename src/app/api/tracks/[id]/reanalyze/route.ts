@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/connection';
+import { AnalysisQueue } from '@/lib/jobs/analysis-queue';
+
+type Params = Promise<{ id: string }>;
+
+// Queue a fresh analysis of the stored audio; clients poll analysis-status.
+// Manual BPM and key overrides live on the track and are kept.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Params }
+) {
+  try {
+    const { id } = await params;
+
+    const track = await prisma.track.findUnique({ where: { id }, select: { id: true } });
+    if (!track) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+
+    const job = await new AnalysisQueue().enqueue(id);
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('Re-analysis error:', error);
+    return NextResponse.json({ error: 'Failed to queue re-analysis' }, { status: 500 });
+  }
+}
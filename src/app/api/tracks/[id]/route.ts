@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/connection';
+import { withLibraryFields } from '@/lib/tracks/library-query';
+import { parseTrackEdit } from '@/lib/tracks/edit';
+import { deleteTrack } from '@/lib/tracks/delete';
+
+type Params = Promise<{ id: string }>;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Params }
+) {
+  try {
+    const { id } = await params;
+
+    const track = await prisma.track.findUnique({
+      where: { id },
+      include: { features: true }
+    });
+    if (!track) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(withLibraryFields(track));
+  } catch (error) {
+    console.error('Error fetching track:', error);
+    return NextResponse.json({ error: 'Failed to fetch track' }, { status: 500 });
+  }
+}
+
+// Edit title, artist, album and genre, or set bpmOverride/keyOverride, which
+// take precedence over the analyzed tempo and key and survive re-analysis.
+// Fields left out are unchanged; null clears one.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Params }
+) {
+  try {
+    const { id } = await params;
+
+    const body = await request.json().catch(() => null);
+    const edit = parseTrackEdit(body);
+    if ('error' in edit) {
+      return NextResponse.json(edit, { status: 400 });
+    }
+
+    const existing = await prisma.track.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+
+    const track = await prisma.track.update({
+      where: { id },
+      data: edit,
+      include: { features: true }
+    });
+
+    return NextResponse.json(withLibraryFields(track));
+  } catch (error) {
+    console.error('Error updating track:', error);
+    return NextResponse.json({ error: 'Failed to update track' }, { status: 500 });
+  }
+}
+
+// Delete the track, its analysis, stored files and listening history.
+// Playlists it seeded are deleted; other playlists just lose it.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Params }
+) {
+  try {
+    const { id } = await params;
+
+    const deletion = await deleteTrack(id);
+    if (!deletion) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ trackId: id, ...deletion });
+  } catch (error) {
+    console.error('Error deleting track:', error);
+    return NextResponse.json({ error: 'Failed to delete track' }, { status: 500 });
+  }
+}
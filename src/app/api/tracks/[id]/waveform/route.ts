@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/connection';
+import { readObjectBuffer } from '@/lib/storage';
+import { selectWaveformLevel, sliceWaveformLevel } from '@/lib/audio/waveform';
+import { WaveformData } from '@/types';
+
+type Params = Promise<{ id: string }>;
+
+// Waveform peaks at one zoom level: ?zoom=0 (default) is the whole-track
+// overview, higher zooms are finer. A zoom the track has no level for (long
+// recordings skip the finest ones) gets the finest level below it.
+// ?start= and ?end= (seconds) return only that window.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Params }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+
+    const zoom = Number(searchParams.get('zoom') ?? 0);
+    if (!Number.isInteger(zoom) || zoom < 0) {
+      return NextResponse.json({ error: 'Invalid zoom', details: 'zoom must be a non-negative integer' }, { status: 400 });
+    }
+    const start = searchParams.has('start') ? Number(searchParams.get('start')) : null;
+    const end = searchParams.has('end') ? Number(searchParams.get('end')) : null;
+    if ((start !== null && !Number.isFinite(start)) || (end !== null && !Number.isFinite(end)) || (start ?? 0) > (end ?? Infinity)) {
+      return NextResponse.json({ error: 'Invalid window', details: 'start and end must be seconds with start <= end' }, { status: 400 });
+    }
+
+    const track = await prisma.track.findUnique({
+      where: { id },
+      select: { features: { select: { waveformPath: true } } }
+    });
+    if (!track) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+    const waveformPath = track.features?.waveformPath;
+    if (!waveformPath) {
+      return NextResponse.json({
+        error: 'Track has no waveform',
+        details: 'Waveforms are generated during analysis; re-analyze the track to create one'
+      }, { status: 404 });
+    }
+
+    // A new analysis writes a new object, so the key identifies the peaks
+    const etag = `"${waveformPath.split('/').pop()}-${zoom}-${start ?? ''}-${end ?? ''}"`;
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    const buffer = await readObjectBuffer(waveformPath);
+    if (!buffer) {
+      return NextResponse.json({ error: 'Waveform not found in storage' }, { status: 404 });
+    }
+    const waveform = JSON.parse(buffer.toString('utf8')) as WaveformData;
+
+    const stored = selectWaveformLevel(waveform, zoom);
+    if (!stored) {
+      return NextResponse.json({ error: 'Track has no waveform' }, { status: 404 });
+    }
+    const level = start !== null || end !== null
+      ? sliceWaveformLevel(stored, start ?? 0, end ?? waveform.duration)
+      : stored;
+
+    return NextResponse.json({
+      trackId: id,
+      duration: waveform.duration,
+      zoom: level.zoom,
+      availableZooms: waveform.levels.map(available => available.zoom),
+      level
+    }, {
+      headers: { ETag: etag, 'Cache-Control': 'private, no-cache' }
+    });
+  } catch (error) {
+    console.error('Waveform error:', error);
+    return NextResponse.json({ error: 'Failed to load waveform' }, { status: 500 });
+  }
+}
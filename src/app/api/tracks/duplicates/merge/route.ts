@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/connection';
+import { mergeTracks } from '@/lib/tracks/duplicates';
+
+// Merge duplicates into one track: { keepTrackId, mergeTrackIds }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { keepTrackId, mergeTrackIds } = body;
+
+    if (typeof keepTrackId !== 'string' || !Array.isArray(mergeTrackIds) || mergeTrackIds.length === 0
+      || !mergeTrackIds.every(id => typeof id === 'string')) {
+      return NextResponse.json({
+        error: 'Invalid merge request',
+        details: 'Provide keepTrackId and a non-empty mergeTrackIds array'
+      }, { status: 400 });
+    }
+
+    if (mergeTrackIds.includes(keepTrackId)) {
+      return NextResponse.json({
+        error: 'Invalid merge request',
+        details: 'The kept track cannot also be merged away'
+      }, { status: 400 });
+    }
+
+    const ids = [keepTrackId, ...mergeTrackIds];
+    const found = await prisma.track.count({ where: { id: { in: ids } } });
+    if (found !== new Set(ids).size) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+
+    const track = await mergeTracks(keepTrackId, mergeTrackIds);
+
+    return NextResponse.json({
+      track,
+      mergedTrackIds: [...new Set(mergeTrackIds)],
+      message: `Merged ${new Set(mergeTrackIds).size} duplicate(s) into ${track?.title ?? track?.filename ?? keepTrackId}`
+    });
+  } catch (error) {
+    console.error('Track merge error:', error);
+    return NextResponse.json({ error: 'Failed to merge tracks' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/database/connection';
+import { findDuplicateGroups, findDuplicatesOf } from '@/lib/tracks/duplicates';
+
+// Duplicate report for the whole library, or with ?trackId= the tracks that
+// duplicate one track. Near-duplicates need both tracks to have been analyzed.
+export async function GET(request: NextRequest) {
+  try {
+    const trackId = request.nextUrl.searchParams.get('trackId');
+
+    if (trackId) {
+      const track = await prisma.track.findUnique({ where: { id: trackId }, select: { id: true } });
+      if (!track) {
+        return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+      }
+      return NextResponse.json({ trackId, matches: await findDuplicatesOf(trackId) });
+    }
+
+    const groups = await findDuplicateGroups();
+    const tracks = await prisma.track.findMany({
+      where: { id: { in: groups.flatMap(group => group.trackIds) } },
+      include: { features: true }
+    });
+
+    return NextResponse.json({
+      groups,
+      tracks,
+      exactGroups: groups.filter(group => group.kind === 'exact').length,
+      nearGroups: groups.filter(group => group.kind === 'near').length
+    });
+  } catch (error) {
+    console.error('Duplicate report error:', error);
+    return NextResponse.json({ error: 'Failed to find duplicates' }, { status: 500 });
+  }
+}
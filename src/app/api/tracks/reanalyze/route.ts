@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ANALYZER_VERSION } from '@/lib/audio/analyzer';
+import { AnalysisQueue } from '@/lib/jobs/analysis-queue';
+
+// Queue every track whose features came from an older analyzer version, and
+// with includeDegraded those where some feature was defaulted or failed
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { includeUnanalyzed = true, includeDegraded = false } = body;
+
+    const queue = new AnalysisQueue();
+    const queued = await queue.requeueOutdated(ANALYZER_VERSION, { includeUnanalyzed, includeDegraded });
+
+    return NextResponse.json({
+      queued,
+      analyzerVersion: ANALYZER_VERSION
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Bulk re-analysis error:', error);
+    return NextResponse.json({ error: 'Failed to queue re-analysis' }, { status: 500 });
+  }
+}
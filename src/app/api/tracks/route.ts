@@ -1,24 +1,23 @@
-import { NextResponse } from 'next/server';
-import { prisma } from '@/lib/database/connection';
+import { NextRequest, NextResponse } from 'next/server';
+import { findTracks, parseTrackQuery } from '@/lib/tracks/library-query';
 
-export async function GET() {
+// One page of the library. Filters: q, bpmMin/bpmMax, key (comma-separated,
+// any notation), compatibleWith, energyMin/energyMax, genre, analyzed.
+// sort/order pick the ordering, limit and cursor page through it, and
+// view=summary leaves out the heavy per-frame features.
+export async function GET(request: NextRequest) {
   try {
-    // Get all tracks with their features
-    const tracks = await prisma.track.findMany({
-      include: {
-        features: true
-      },
-      orderBy: {
-        createdAt: 'desc'
-      }
-    });
+    const query = parseTrackQuery(request.nextUrl.searchParams);
+    if ('error' in query) {
+      return NextResponse.json(query, { status: 400 });
+    }
 
-    return NextResponse.json(tracks);
+    return NextResponse.json(await findTracks(query));
   } catch (error) {
     console.error('Error fetching tracks:', error);
     return NextResponse.json(
-      { error: 'Failed to fetch tracks' }, 
+      { error: 'Failed to fetch tracks' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
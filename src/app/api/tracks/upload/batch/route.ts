@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_BATCH_BYTES, MAX_BATCH_FILES, MAX_UPLOAD_BYTES } from '@/lib/tracks/audio-files';
+import { forEachUploadedFile, MULTIPART_OVERHEAD_BYTES, MultipartError } from '@/lib/tracks/multipart-upload';
+import { describeUploadError, storeUploadedTrack } from '@/lib/tracks/upload';
+
+// Upload several audio files in one request. Each file is streamed into
+// storage on its own as the request arrives, so one bad file doesn't fail the
+// rest; per-file outcomes are returned in the order the files were sent. A
+// request over MAX_BATCH_BYTES is refused, before any of it is read when it
+// declares its Content-Length.
+export async function POST(request: NextRequest) {
+  try {
+    const { results, skippedFiles } = await forEachUploadedFile(request, {
+      field: 'audio',
+      maxFiles: MAX_BATCH_FILES,
+      maxFileBytes: MAX_UPLOAD_BYTES,
+      maxTotalBytes: MAX_BATCH_BYTES + MULTIPART_OVERHEAD_BYTES
+    }, async file => {
+      try {
+        const outcome = await storeUploadedTrack(file);
+        if ('error' in outcome) {
+          return { filename: file.filename, status: 400, ...outcome };
+        }
+        const { track, analysisJob, duplicates } = outcome;
+        return { filename: file.filename, status: 200, trackId: track.id, track, analysisJob, duplicates };
+      } catch (error) {
+        console.error(`Batch upload error for ${file.filename}:`, error);
+        return { filename: file.filename, ...describeUploadError(error) };
+      }
+    });
+
+    if (results.length === 0) {
+      return NextResponse.json({
+        error: 'No audio files provided',
+        details: 'Please select one or more audio files to upload'
+      }, { status: 400 });
+    }
+
+    const uploaded = results.filter(result => result.status === 200).length;
+
+    return NextResponse.json({
+      results,
+      uploaded,
+      failed: results.length - uploaded,
+      // Files past the limit are never read, so they have no results
+      skippedFiles,
+      message: skippedFiles
+        ? `Uploaded ${uploaded} of the first ${results.length} files; a batch holds at most ${MAX_BATCH_FILES}`
+        : `Uploaded ${uploaded} of ${results.length} files`
+    });
+
+  } catch (error) {
+    if (error instanceof MultipartError) {
+      return NextResponse.json({ error: 'Batch upload failed', details: error.message }, { status: error.status });
+    }
+    console.error('Batch upload error:', error);
+    return NextResponse.json({
+      error: 'Batch upload failed',
+      details: 'An unexpected error occurred during upload'
+    }, { status: 500 });
+  }
+}
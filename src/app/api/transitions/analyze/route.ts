@@ -1,59 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/database/connection';
-import { TrackFeatures, StructureSegment } from '@/types';
+import { convertPrismaToTrackFeatures } from '@/lib/database/track-features';
+import { effectiveKey, effectiveTempo } from '@/lib/audio/comparison';
 import { TransitionOptimizer } from '@/lib/audio/transition-optimizer';
-import { Prisma } from '@prisma/client';
-
-// Type for Prisma track features with JSON values
-type PrismaTrackFeatures = {
-  id: string;
-  trackId: string;
-  tempo: number | null;
-  musicalKey: string | null;
-  energyLevel: number | null;
-  loudness: number | null;
-  danceability: number | null;
-  valence: number | null;
-  spectralCentroid: number | null;
-  spectralRolloff: number | null;
-  zeroCrossingRate: number | null;
-  mfcc: Prisma.JsonValue;
-  chroma: Prisma.JsonValue;
-  beatPositions: Prisma.JsonValue;
-  structureSegments: Prisma.JsonValue;
-  createdAt: Date;
-};
-
-// Helper functions for safe type conversion
-function safeNumberArray(value: Prisma.JsonValue): number[] | null {
-  return Array.isArray(value) && value.every(item => typeof item === 'number') ? value as number[] : null;
-}
-
-function safeStructureSegments(value: Prisma.JsonValue): StructureSegment[] | null {
-  return Array.isArray(value) ? value as unknown as StructureSegment[] : null;
-}
-
-// Convert Prisma data to our TypeScript interface
-function convertPrismaToTrackFeatures(prismaFeatures: PrismaTrackFeatures): TrackFeatures {
-  return {
-    id: prismaFeatures.id,
-    trackId: prismaFeatures.trackId,
-    tempo: prismaFeatures.tempo,
-    musicalKey: prismaFeatures.musicalKey,
-    energyLevel: prismaFeatures.energyLevel,
-    loudness: prismaFeatures.loudness,
-    danceability: prismaFeatures.danceability,
-    valence: prismaFeatures.valence,
-    spectralCentroid: prismaFeatures.spectralCentroid,
-    spectralRolloff: prismaFeatures.spectralRolloff,
-    zeroCrossingRate: prismaFeatures.zeroCrossingRate,
-    mfcc: safeNumberArray(prismaFeatures.mfcc),
-    chroma: safeNumberArray(prismaFeatures.chroma),
-    beatPositions: safeNumberArray(prismaFeatures.beatPositions),
-    structureSegments: safeStructureSegments(prismaFeatures.structureSegments),
-    createdAt: prismaFeatures.createdAt,
-  };
-}
 
 export async function POST(request: NextRequest) {
   try {
@@ -94,8 +43,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Convert to our TypeScript interfaces
-    const fromFeatures = convertPrismaToTrackFeatures(fromTrack.features);
-    const toFeatures = convertPrismaToTrackFeatures(toTrack.features);
+    const fromFeatures = convertPrismaToTrackFeatures(fromTrack.features, fromTrack);
+    const toFeatures = convertPrismaToTrackFeatures(toTrack.features, toTrack);
 
     // Analyze transition
     const optimizer = new TransitionOptimizer();
@@ -107,15 +56,15 @@ export async function POST(request: NextRequest) {
         id: fromTrack.id,
         title: fromTrack.title,
         artist: fromTrack.artist,
-        tempo: fromFeatures.tempo,
-        key: fromFeatures.musicalKey
+        tempo: effectiveTempo(fromFeatures),
+        key: effectiveKey(fromFeatures)
       },
       toTrack: {
         id: toTrack.id,
         title: toTrack.title,
         artist: toTrack.artist,
-        tempo: toFeatures.tempo,
-        key: toFeatures.musicalKey
+        tempo: effectiveTempo(toFeatures),
+        key: effectiveKey(toFeatures)
       },
       analysis,
       instructions,
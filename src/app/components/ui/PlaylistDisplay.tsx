@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { Track, CompatibilityScore } from '@/types';
+import type { EnergySlot } from '@/lib/playlist/set-sequencer';
 import { TransitionAnalysisModal } from './TransitionAnalysisModal';
 import { UserFeedbackButtons } from './UserFeedbackButtons';
 
@@ -9,6 +10,7 @@ interface PlaylistItem {
   track: Track;
   position: number;
   compatibilityScore?: CompatibilityScore;
+  energy?: EnergySlot | null; // Fit to the energy arc, when the set followed one
 }
 
 interface PlaylistDisplayProps {
@@ -112,15 +114,22 @@ export function PlaylistDisplay({ tracks, isLoading, onTrackSelect, userId, sess
                     {/* Track features */}
                     {item.track.features && (
                       <div className="flex items-center space-x-4 mt-1 text-xs text-gray-500">
-                        {item.track.features.tempo && (
+                        {item.track.bpmOverride ? (
+                          <span>{Math.round(item.track.bpmOverride)} BPM</span>
+                        ) : item.track.features.tempo && (
                           <span>{Math.round(item.track.features.tempo)} BPM</span>
                         )}
-                        {item.track.features.musicalKey && (
-                          <span>Key: {item.track.features.musicalKey}</span>
+                        {(item.track.keyOverride ?? item.track.features.musicalKey) && (
+                          <span>Key: {item.track.keyOverride ?? item.track.features.musicalKey}</span>
                         )}
                         {item.track.features.energyLevel && (
                           <span>Energy: {Math.round(item.track.features.energyLevel * 100)}%</span>
                         )}
+                        {item.energy?.actual != null && (
+                          <span title="Place in the library's energy range against the arc's target">
+                            Arc: {Math.round(item.energy.actual * 100)}% / {Math.round(item.energy.target * 100)}%
+                          </span>
+                        )}
                       </div>
                     )}
                   </div>
@@ -132,7 +141,7 @@ export function PlaylistDisplay({ tracks, isLoading, onTrackSelect, userId, sess
                     <div className="text-sm font-medium text-gray-900">
                       {Math.round(item.compatibilityScore.overall * 100)}%
                     </div>
-                    <div className="text-xs text-gray-500">match</div>
+                    <div className="text-xs text-gray-500">mix-in</div>
                     
                     {/* Compatibility breakdown */}
                     <div className="mt-1 space-y-1">
@@ -204,10 +213,10 @@ export function PlaylistDisplay({ tracks, isLoading, onTrackSelect, userId, sess
                     🎛️ Analyze Transition
                   </button>
 
-                  {/* Quick transition info */}
-                  {item.compatibilityScore && (
+                  {/* Quick transition info; the next track carries the score of mixing into it */}
+                  {tracks[index + 1].compatibilityScore && (
                     <div className="text-xs text-gray-600">
-                      {Math.round(item.compatibilityScore.overall * 100)}% compatibility
+                      {Math.round(tracks[index + 1].compatibilityScore!.overall * 100)}% compatibility
                     </div>
                   )}
                 </div>
@@ -1,183 +1,90 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Track } from '@/types';
-import { AudioAnalyzer } from '@/lib/audio/analyzer';
+import { ImportItem, ImportQueue, ImportStatus } from '@/lib/tracks/import-queue';
+import { analyzeImportedTrack, collectDroppedFiles, uploadBatch } from '@/lib/tracks/browser-import';
+import { BrowserAnalyzer } from '@/lib/audio/browser-analyzer';
+import { isAudioFile } from '@/lib/tracks/audio-files';
+
+const CONCURRENCY_CHOICES = [1, 2, 3, 4];
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  uploaded: 'Uploaded',
+  analyzing: 'Analyzing',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<ImportStatus, string> = {
+  queued: 'text-gray-500',
+  uploading: 'text-blue-600',
+  uploaded: 'text-blue-600',
+  analyzing: 'text-purple-600',
+  done: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-gray-500',
+};
 
 interface TrackUploaderProps {
   onTrackUploaded: (track: Track) => void;
+  concurrency?: number; // Tracks analyzed at the same time, adjustable in the UI
 }
 
-interface UploadProgress {
-  stage: 'uploading' | 'analyzing' | 'saving' | 'complete';
-  progress: number;
-  message: string;
-}
-
-interface UploadError {
-  type: 'file' | 'upload' | 'analysis' | 'server';
-  message: string;
-  details?: string;
-}
-
-export function TrackUploader({ onTrackUploaded }: TrackUploaderProps) {
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
-  const [error, setError] = useState<UploadError | null>(null);
+export function TrackUploader({ onTrackUploaded, concurrency = 2 }: TrackUploaderProps) {
+  const [items, setItems] = useState<ImportItem[]>([]);
   const [dragActive, setDragActive] = useState(false);
+  const [parallel, setParallel] = useState(concurrency);
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const clearState = () => {
-    setError(null);
-    setUploadProgress(null);
-    setIsProcessing(false);
-  };
-
-  const updateProgress = (stage: UploadProgress['stage'], progress: number, message: string) => {
-    setUploadProgress({ stage, progress, message });
-  };
-
-  const setUploadError = (type: UploadError['type'], message: string, details?: string) => {
-    setError({ type, message, details });
-    setIsProcessing(false);
-    setUploadProgress(null);
-  };
-
-  const validateFile = (file: File): boolean => {
-    // Check file type
-    const allowedTypes = ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/m4a', 'audio/x-wav'];
-    if (!allowedTypes.includes(file.type) && !file.name.match(/\.(mp3|wav|m4a)$/i)) {
-      setUploadError('file', 'Invalid file type', 'Please upload MP3, WAV, or M4A files only');
-      return false;
-    }
-
-    // Check file size (50MB limit)
-    const maxSize = 50 * 1024 * 1024; // 50MB
-    if (file.size > maxSize) {
-      setUploadError('file', 'File too large', `File size must be under 50MB. Your file is ${(file.size / 1024 / 1024).toFixed(1)}MB`);
-      return false;
-    }
-
-    // Check if file is empty
-    if (file.size === 0) {
-      setUploadError('file', 'Empty file', 'The selected file appears to be empty');
-      return false;
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const queueRef = useRef<ImportQueue | null>(null);
+  const analyzerRef = useRef<BrowserAnalyzer | null>(null);
+  const onTrackUploadedRef = useRef(onTrackUploaded);
+  onTrackUploadedRef.current = onTrackUploaded;
+
+  const getQueue = () => {
+    if (!queueRef.current) {
+      // Every file the queue imports is decoded with the same AudioContext
+      const analyzer = analyzerRef.current = new BrowserAnalyzer();
+      queueRef.current = new ImportQueue({
+        uploadBatch,
+        analyze: (trackId, file, context) => analyzeImportedTrack(trackId, file, context, analyzer),
+        onImported: track => onTrackUploadedRef.current(track),
+        onChange: setItems,
+      }, { concurrency: parallel });
     }
-
-    return true;
+    return queueRef.current;
   };
 
-  const processFile = async (file: File) => {
-    clearState();
-    setIsProcessing(true);
-
-    try {
-      // Validate file
-      if (!validateFile(file)) return;
-
-      // Stage 1: Upload file
-      updateProgress('uploading', 10, 'Uploading audio file...');
-      
-      const formData = new FormData();
-      formData.append('audio', file);
-
-      const uploadResponse = await fetch('/api/tracks/upload', {
-        method: 'POST',
-        body: formData,
-      });
-
-      if (!uploadResponse.ok) {
-        const errorData = await uploadResponse.json().catch(() => ({}));
-        throw new Error(errorData.error || `Upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
-      }
-
-      updateProgress('uploading', 40, 'File uploaded successfully...');
-
-      const uploadResult = await uploadResponse.json();
-      const trackId = uploadResult.trackId;
-
-      if (!trackId) {
-        throw new Error('No track ID returned from upload');
-      }
-
-      // Stage 2: Analyze audio
-      updateProgress('analyzing', 50, 'Analyzing audio features...');
-
-      try {
-        updateProgress('analyzing', 60, 'Initializing audio analyzer...');
-        
-        // Resume audio context for user interaction
-        const analyzer = new AudioAnalyzer();
-        await analyzer.resumeAudioContext();
-        
-        updateProgress('analyzing', 70, 'Extracting tempo and key...');
-        
-        let audioAnalysisResult;
-        try {
-          audioAnalysisResult = await analyzer.analyzeFile(file);
-        } catch (analysisError) {
-          console.warn('Full analysis failed, using basic analysis:', analysisError);
-          updateProgress('analyzing', 75, 'Using basic audio analysis...');
-          
-          // Fallback to basic analysis if full analysis fails
-          audioAnalysisResult = {
-            tempo: 120, // Default BPM
-            key: 'C major',
-            energy: 0.5,
-            spectral: new Array(13).fill(0), // Default MFCC coefficients
-            beats: [],
-            structure: []
-          };
-        }
-
-        updateProgress('analyzing', 85, 'Finalizing analysis...');
-
-        // Stage 3: Save analysis results
-        updateProgress('saving', 90, 'Saving analysis results...');
-
-        const analysisResponse = await fetch(`/api/tracks/${trackId}/analyze`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ 
-            analysisResult: {
-              ...audioAnalysisResult,
-              duration: file.size > 0 ? 180 : 0 // Placeholder duration
-            }
-          }),
-        });
-
-        if (!analysisResponse.ok) {
-          const errorData = await analysisResponse.json().catch(() => ({}));
-          throw new Error(errorData.error || 'Failed to save analysis results');
-        }
-
-        const saveResult = await analysisResponse.json();
-
-        // Stage 4: Complete
-        updateProgress('complete', 100, 'Track processed successfully!');
-
-        // Brief success display
-        setTimeout(() => {
-          clearState();
-          onTrackUploaded(saveResult.track);
-        }, 1000);
-
-      } catch (analysisError) {
-        console.error('Audio analysis error:', analysisError);
-        setUploadError('analysis', 'Audio analysis failed', 
-          analysisError instanceof Error ? analysisError.message : 'Unknown analysis error');
-      }
-
-    } catch (uploadError) {
-      console.error('Upload error:', uploadError);
-      setUploadError('upload', 'Upload failed', 
-        uploadError instanceof Error ? uploadError.message : 'Unknown upload error');
-    }
+  useEffect(() => {
+    // Folder picking isn't a standard input attribute, so React won't set it
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+    // Stop analyzing when the uploader goes away; uploaded tracks are still
+    // picked up by their server-side jobs
+    return () => {
+      queueRef.current?.cancelAll();
+      void analyzerRef.current?.close();
+      queueRef.current = null;
+      analyzerRef.current = null;
+    };
+  }, []);
+
+  const addFiles = (files: File[]) => {
+    if (files.length > 0) getQueue().add(files);
   };
 
   const handleFileSelect = (files: FileList | null) => {
     if (!files || files.length === 0) return;
-    processFile(files[0]);
+    // Folder picks include everything in the folder, not just audio
+    addFiles(Array.from(files).filter(isAudioFile));
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    setParallel(value);
+    queueRef.current?.setConcurrency(value);
   };
 
   const handleDragEnter = (e: React.DragEvent) => {
@@ -197,45 +104,33 @@ export function TrackUploader({ onTrackUploaded }: TrackUploaderProps) {
     setDragActive(false);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    handleFileSelect(e.dataTransfer.files);
+    try {
+      addFiles(await collectDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error('Failed to read dropped files:', error);
+    }
   };
 
-  const getProgressColor = () => {
-    if (!uploadProgress) return 'bg-blue-500';
-    switch (uploadProgress.stage) {
+  const getProgressColor = (item: ImportItem) => {
+    switch (item.status) {
       case 'uploading': return 'bg-blue-500';
       case 'analyzing': return 'bg-purple-500';
-      case 'saving': return 'bg-green-500';
-      case 'complete': return 'bg-green-600';
-      default: return 'bg-blue-500';
+      case 'done': return 'bg-green-600';
+      default: return 'bg-gray-300';
     }
   };
 
-  const getStageIcon = () => {
-    if (!uploadProgress) return null;
-    switch (uploadProgress.stage) {
-      case 'uploading': return '📤';
-      case 'analyzing': return '🎵';
-      case 'saving': return '💾';
-      case 'complete': return '✅';
-      default: return '⚡';
-    }
-  };
-
-  const getErrorIcon = () => {
-    if (!error) return null;
-    switch (error.type) {
-      case 'file': return '📄';
-      case 'upload': return '📤';
-      case 'analysis': return '🎵';
-      case 'server': return '🔧';
-      default: return '⚠️';
-    }
-  };
+  const total = items.length;
+  const done = items.filter(item => item.status === 'done').length;
+  const failed = items.filter(item => item.status === 'failed').length;
+  const cancelled = items.filter(item => item.status === 'cancelled').length;
+  const pending = total - done - failed - cancelled;
+  const duplicates = items.filter(item => item.duplicates && item.duplicates.length > 0).length;
+  const retryableFailures = items.filter(item => item.status === 'failed' && item.retryable).length;
 
   return (
     <div className="space-y-4">
@@ -243,131 +138,162 @@ export function TrackUploader({ onTrackUploaded }: TrackUploaderProps) {
       <div
         className={`
           p-6 border-2 border-dashed rounded-lg transition-all duration-200 cursor-pointer
-          ${dragActive 
-            ? 'border-blue-400 bg-blue-50' 
-            : isProcessing 
-              ? 'border-gray-300 bg-gray-50 cursor-not-allowed' 
-              : error
-                ? 'border-red-300 bg-red-50 hover:border-red-400'
-                : 'border-gray-300 hover:border-gray-400 hover:bg-gray-50'
+          ${dragActive
+            ? 'border-blue-400 bg-blue-50'
+            : 'border-gray-300 hover:border-gray-400 hover:bg-gray-50'
           }
         `}
         onDragEnter={handleDragEnter}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
-        onClick={() => !isProcessing && fileInputRef.current?.click()}
+        onClick={() => fileInputRef.current?.click()}
       >
-        <div className="text-center">
-          {/* Processing State */}
-          {isProcessing && uploadProgress && (
-            <div className="space-y-4">
-              <div className="text-4xl">{getStageIcon()}</div>
-              <div>
-                <p className="text-sm font-medium text-gray-700 mb-2">
-                  {uploadProgress.message}
-                </p>
-                <div className="w-full bg-gray-200 rounded-full h-2">
-                  <div 
-                    className={`h-2 rounded-full transition-all duration-300 ${getProgressColor()}`}
-                    style={{ width: `${uploadProgress.progress}%` }}
-                  ></div>
-                </div>
-                <p className="text-xs text-gray-500 mt-1">
-                  {uploadProgress.progress}% complete
-                </p>
-              </div>
-            </div>
-          )}
-
-          {/* Error State */}
-          {error && (
-            <div className="space-y-3">
-              <div className="text-4xl">{getErrorIcon()}</div>
-              <div className="text-red-700">
-                <p className="font-medium">{error.message}</p>
-                {error.details && (
-                  <p className="text-sm text-red-600 mt-1">{error.details}</p>
-                )}
-              </div>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  clearState();
-                }}
-                className="text-xs text-red-600 hover:text-red-800 underline"
-              >
-                Try again
-              </button>
-            </div>
-          )}
-
-          {/* Default State */}
-          {!isProcessing && !error && (
-            <div className="space-y-3">
-              <div className="text-4xl">🎧</div>
-              <div>
-                <p className="text-sm font-medium text-gray-700">
-                  {dragActive ? 'Drop your audio file here' : 'Click to upload or drag & drop'}
-                </p>
-                <p className="text-xs text-gray-500 mt-2">
-                  MP3, WAV, M4A up to 50MB
-                </p>
-              </div>
-            </div>
-          )}
+        <div className="text-center space-y-3">
+          <div className="text-4xl">🎧</div>
+          <div>
+            <p className="text-sm font-medium text-gray-700">
+              {dragActive ? 'Drop audio files or folders here' : 'Click to upload or drag & drop files and folders'}
+            </p>
+            <p className="text-xs text-gray-500 mt-2">
+              MP3, WAV, M4A up to 500MB each
+            </p>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                folderInputRef.current?.click();
+              }}
+              className="mt-2 text-xs text-blue-600 hover:text-blue-800 underline"
+            >
+              Import a folder
+            </button>
+          </div>
         </div>
 
         <input
           ref={fileInputRef}
           type="file"
           accept="audio/*"
-          onChange={(e) => handleFileSelect(e.target.files)}
+          multiple
+          onChange={(e) => {
+            handleFileSelect(e.target.files);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={(e) => {
+            handleFileSelect(e.target.files);
+            e.target.value = '';
+          }}
           className="hidden"
-          disabled={isProcessing}
         />
       </div>
 
-      {/* Processing Details */}
-      {isProcessing && uploadProgress && (
-        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
-          <div className="flex items-center space-x-2">
-            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-            <span className="text-sm text-blue-800 font-medium">
-              Processing Audio
+      {/* Queue */}
+      {total > 0 && (
+        <div className="border rounded-lg">
+          <div className="flex items-center justify-between p-3 border-b bg-gray-50 rounded-t-lg">
+            <span className="text-sm font-medium text-gray-800">
+              {pending > 0 ? `Importing ${total - pending} of ${total}` : 'Import finished'}
             </span>
+            <label className="text-xs text-gray-600 flex items-center space-x-1">
+              <span>Parallel</span>
+              <select
+                value={parallel}
+                onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+                className="border rounded px-1 py-0.5"
+              >
+                {CONCURRENCY_CHOICES.map(choice => (
+                  <option key={choice} value={choice}>{choice}</option>
+                ))}
+              </select>
+            </label>
           </div>
-          <div className="mt-2 text-xs text-blue-700">
-            <div className="flex justify-between items-center">
-              <span>Stage: {uploadProgress.stage}</span>
-              <span>{uploadProgress.progress}%</span>
-            </div>
-          </div>
-        </div>
-      )}
 
-      {/* Error Details */}
-      {error && (
-        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
-          <div className="flex items-start space-x-2">
-            <span className="text-red-500 mt-0.5">⚠️</span>
-            <div className="flex-1">
-              <p className="text-sm font-medium text-red-800">{error.message}</p>
-              {error.details && (
-                <p className="text-xs text-red-700 mt-1">{error.details}</p>
-              )}
-              <div className="mt-2">
+          <ul className="max-h-72 overflow-y-auto divide-y">
+            {items.map(item => (
+              <li key={item.id} className="p-2 text-xs">
+                <div className="flex items-center justify-between space-x-2">
+                  <span className="truncate text-gray-800" title={item.file.name}>{item.file.name}</span>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <span className={STATUS_COLORS[item.status]}>{STATUS_LABELS[item.status]}</span>
+                    {['queued', 'uploading', 'uploaded', 'analyzing'].includes(item.status) && (
+                      <button
+                        onClick={() => queueRef.current?.cancel(item.id)}
+                        className="text-gray-600 hover:text-gray-800 underline"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {(item.status === 'failed' || item.status === 'cancelled') && item.retryable && (
+                      <button
+                        onClick={() => queueRef.current?.retry(item.id)}
+                        className="text-blue-600 hover:text-blue-800 underline"
+                      >
+                        Retry
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {(item.status === 'uploading' || item.status === 'analyzing') && (
+                  <div className="mt-1">
+                    <div className="w-full bg-gray-200 rounded-full h-1">
+                      <div
+                        className={`h-1 rounded-full transition-all duration-300 ${getProgressColor(item)}`}
+                        style={{ width: `${Math.round(item.progress * 100)}%` }}
+                      ></div>
+                    </div>
+                    {item.message && <p className="text-gray-500 mt-0.5">{item.message}</p>}
+                  </div>
+                )}
+                {item.status === 'failed' && item.error && (
+                  <p className="text-red-600 mt-0.5">{item.error}</p>
+                )}
+                {item.duplicates && item.duplicates.length > 0 && (
+                  <p
+                    className="text-amber-700 mt-0.5 truncate"
+                    title={item.duplicates.map(match => `${match.title || match.filename} (${Math.round(match.similarity * 100)}%)`).join(', ')}
+                  >
+                    {item.duplicates[0].kind === 'exact' ? 'Duplicate of ' : 'Possible duplicate of '}
+                    {item.duplicates[0].title || item.duplicates[0].filename}
+                    {item.duplicates.length > 1 && ` and ${item.duplicates.length - 1} more`}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* Summary */}
+          {pending === 0 && (
+            <div className="p-3 border-t bg-gray-50 rounded-b-lg flex items-center justify-between">
+              <span className="text-xs text-gray-700">
+                {done} imported{failed > 0 && `, ${failed} failed`}{cancelled > 0 && `, ${cancelled} cancelled`}
+                {duplicates > 0 && `, ${duplicates} possible duplicate${duplicates === 1 ? '' : 's'}`}
+              </span>
+              <div className="space-x-2">
+                {retryableFailures > 0 && (
+                  <button
+                    onClick={() => queueRef.current?.retryFailed()}
+                    className="text-xs bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded"
+                  >
+                    Retry failed ({retryableFailures})
+                  </button>
+                )}
                 <button
-                  onClick={clearState}
-                  className="text-xs bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded"
+                  onClick={() => queueRef.current?.clearFinished()}
+                  className="text-xs bg-gray-100 hover:bg-gray-200 text-gray-800 px-2 py-1 rounded"
                 >
-                  Clear Error
+                  Clear
                 </button>
               </div>
             </div>
-          </div>
+          )}
         </div>
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
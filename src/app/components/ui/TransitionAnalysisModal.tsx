@@ -2,6 +2,10 @@
 
 import { useState } from 'react';
 import { Track } from '@/types';
+import { WaveformView } from './WaveformView';
+
+// Seconds shown either side of a transition, from zoomed in to zoomed out
+const WAVEFORM_PADDING_CHOICES = [4, 16, 64];
 
 interface TransitionAnalysisData {
   fromTrack: {
@@ -30,6 +34,7 @@ interface TransitionAnalysisData {
     energyMatchScore: number;
     beatAlignmentScore: number;
     keyCompatibilityScore: number;
+    keyRelationship: string;
     recommendedLength: number;
     transitionType: string;
     confidence: number;
@@ -48,6 +53,8 @@ export function TransitionAnalysisModal({ isOpen, onClose, fromTrack, toTrack }:
   const [analysisData, setAnalysisData] = useState<TransitionAnalysisData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedPoint, setSelectedPoint] = useState(0);
+  const [paddingIndex, setPaddingIndex] = useState(1);
 
   const analyzeTransition = async () => {
     if (!fromTrack || !toTrack) return;
@@ -71,6 +78,7 @@ export function TransitionAnalysisModal({ isOpen, onClose, fromTrack, toTrack }:
 
       const data = await response.json();
       setAnalysisData(data);
+      setSelectedPoint(0);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Analysis failed');
     } finally {
@@ -103,6 +111,14 @@ export function TransitionAnalysisModal({ isOpen, onClose, fromTrack, toTrack }:
 
   if (!isOpen) return null;
 
+  const activePoint = analysisData?.analysis.optimalPoints[selectedPoint];
+  // Manual overrides win over the analyzed values
+  const fromTempo = fromTrack?.bpmOverride ?? fromTrack?.features?.tempo;
+  const fromKey = fromTrack?.keyOverride ?? fromTrack?.features?.musicalKey;
+  const toTempo = toTrack?.bpmOverride ?? toTrack?.features?.tempo;
+  const toKey = toTrack?.keyOverride ?? toTrack?.features?.musicalKey;
+  const padding = WAVEFORM_PADDING_CHOICES[paddingIndex];
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
@@ -125,13 +141,19 @@ export function TransitionAnalysisModal({ isOpen, onClose, fromTrack, toTrack }:
               <p className="font-medium">{fromTrack?.title || fromTrack?.filename}</p>
               {fromTrack?.artist && <p className="text-sm text-gray-600">{fromTrack.artist}</p>}
               <div className="flex space-x-4 mt-2 text-sm">
-                {fromTrack?.features?.tempo && (
-                  <span>{Math.round(fromTrack.features.tempo)} BPM</span>
-                )}
-                {fromTrack?.features?.musicalKey && (
-                  <span>Key: {fromTrack.features.musicalKey}</span>
-                )}
+                {fromTempo && <span>{Math.round(fromTempo)} BPM</span>}
+                {fromKey && <span>Key: {fromKey}</span>}
               </div>
+              {fromTrack?.features?.waveformPath && (
+                <WaveformView
+                  trackId={fromTrack.id}
+                  duration={fromTrack.duration}
+                  height={32}
+                  segments={fromTrack.features.structureSegments}
+                  cues={activePoint ? [{ time: activePoint.fromTrackTime, color: '#2563eb' }] : []}
+                  className="mt-3"
+                />
+              )}
             </div>
             
             <div className="bg-green-50 rounded-lg p-4">
@@ -139,13 +161,19 @@ export function TransitionAnalysisModal({ isOpen, onClose, fromTrack, toTrack }:
               <p className="font-medium">{toTrack?.title || toTrack?.filename}</p>
               {toTrack?.artist && <p className="text-sm text-gray-600">{toTrack.artist}</p>}
               <div className="flex space-x-4 mt-2 text-sm">
-                {toTrack?.features?.tempo && (
-                  <span>{Math.round(toTrack.features.tempo)} BPM</span>
-                )}
-                {toTrack?.features?.musicalKey && (
-                  <span>Key: {toTrack.features.musicalKey}</span>
-                )}
+                {toTempo && <span>{Math.round(toTempo)} BPM</span>}
+                {toKey && <span>Key: {toKey}</span>}
               </div>
+              {toTrack?.features?.waveformPath && (
+                <WaveformView
+                  trackId={toTrack.id}
+                  duration={toTrack.duration}
+                  height={32}
+                  segments={toTrack.features.structureSegments}
+                  cues={activePoint ? [{ time: activePoint.toTrackTime, color: '#16a34a' }] : []}
+                  className="mt-3"
+                />
+              )}
             </div>
           </div>
 
@@ -194,6 +222,7 @@ export function TransitionAnalysisModal({ isOpen, onClose, fromTrack, toTrack }:
                       <span className="text-sm font-medium">Key</span>
                     </div>
                     <p className="text-xs">{Math.round(analysisData.analysis.keyCompatibilityScore * 100)}%</p>
+                    <p className="text-xs text-gray-500">{analysisData.analysis.keyRelationship}</p>
                   </div>
                   <div className="text-center">
                     <div className={`rounded-full p-2 mb-2 ${getScoreColor(analysisData.analysis.energyMatchScore)}`}>
@@ -210,12 +239,76 @@ export function TransitionAnalysisModal({ isOpen, onClose, fromTrack, toTrack }:
                 </div>
               </div>
 
+              {/* Transition Waveforms */}
+              {activePoint && fromTrack && toTrack && (
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-semibold">
+                      Transition at {formatTime(activePoint.fromTrackTime)} → {formatTime(activePoint.toTrackTime)}
+                    </h3>
+                    <div className="space-x-1 text-sm">
+                      <button
+                        onClick={() => setPaddingIndex(index => Math.max(0, index - 1))}
+                        disabled={paddingIndex === 0}
+                        className="px-2 py-0.5 border rounded disabled:opacity-40"
+                      >
+                        +
+                      </button>
+                      <button
+                        onClick={() => setPaddingIndex(index => Math.min(WAVEFORM_PADDING_CHOICES.length - 1, index + 1))}
+                        disabled={paddingIndex === WAVEFORM_PADDING_CHOICES.length - 1}
+                        className="px-2 py-0.5 border rounded disabled:opacity-40"
+                      >
+                        −
+                      </button>
+                    </div>
+                  </div>
+                  {/* Both windows cover the overlap plus the same padding, so bars line up */}
+                  <div className="space-y-2">
+                    <WaveformView
+                      trackId={fromTrack.id}
+                      duration={fromTrack.duration}
+                      start={activePoint.fromTrackTime - padding}
+                      end={activePoint.fromTrackTime + activePoint.length + padding}
+                      height={72}
+                      beatGrid={fromTrack.features?.beatGrid}
+                      segments={fromTrack.features?.structureSegments}
+                      cues={[
+                        { time: activePoint.fromTrackTime, label: 'Mix out', color: '#2563eb' },
+                        { time: activePoint.fromTrackTime + activePoint.length, label: 'Gone', color: '#93c5fd' },
+                      ]}
+                      className="bg-blue-50 rounded"
+                    />
+                    <WaveformView
+                      trackId={toTrack.id}
+                      duration={toTrack.duration}
+                      start={activePoint.toTrackTime - padding}
+                      end={activePoint.toTrackTime + activePoint.length + padding}
+                      height={72}
+                      beatGrid={toTrack.features?.beatGrid}
+                      segments={toTrack.features?.structureSegments}
+                      cues={[
+                        { time: activePoint.toTrackTime, label: 'Mix in', color: '#16a34a' },
+                        { time: activePoint.toTrackTime + activePoint.length, label: 'Full', color: '#86efac' },
+                      ]}
+                      className="bg-green-50 rounded"
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* Optimal Transition Points */}
               <div>
                 <h3 className="font-semibold mb-3">Optimal Transition Points</h3>
                 <div className="space-y-2 max-h-48 overflow-y-auto">
                   {analysisData.analysis.optimalPoints.map((point, index) => (
-                    <div key={index} className="bg-white border rounded-lg p-3 flex items-center justify-between">
+                    <div
+                      key={index}
+                      onClick={() => setSelectedPoint(index)}
+                      className={`border rounded-lg p-3 flex items-center justify-between cursor-pointer ${
+                        index === selectedPoint ? 'bg-blue-50 border-blue-300' : 'bg-white hover:bg-gray-50'
+                      }`}
+                    >
                       <div className="flex items-center space-x-3">
                         <span className="text-lg">{getTransitionTypeIcon(point.type)}</span>
                         <div>
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { BeatGrid, StructureSegment } from '@/types';
+import { decodeWaveformLevel, WaveformPeaks, zoomForResolution } from '@/lib/audio/waveform';
+
+export interface WaveformCue {
+  time: number; // Seconds
+  label?: string;
+  color?: string;
+}
+
+interface WaveformViewProps {
+  trackId: string;
+  duration?: number | null; // Seconds, for placing overlays before the peaks arrive
+  start?: number; // Window to show, in seconds; the whole track by default
+  end?: number;
+  zoom?: number; // Overrides the zoom picked from the window and canvas width
+  height?: number;
+  colorByBand?: boolean;
+  beatGrid?: BeatGrid | null;
+  segments?: StructureSegment[] | null;
+  cues?: WaveformCue[];
+  className?: string;
+}
+
+const SEGMENT_COLORS: Record<StructureSegment['type'], string> = {
+  intro: 'rgba(59, 130, 246, 0.10)',
+  buildup: 'rgba(234, 179, 8, 0.12)',
+  drop: 'rgba(239, 68, 68, 0.12)',
+  breakdown: 'rgba(16, 185, 129, 0.10)',
+  verse: 'rgba(107, 114, 128, 0.08)',
+  chorus: 'rgba(168, 85, 247, 0.12)',
+  bridge: 'rgba(20, 184, 166, 0.10)',
+  outro: 'rgba(59, 130, 246, 0.10)',
+};
+
+// Beat lines closer together than this (in CSS pixels) are left out
+const MIN_BEAT_SPACING = 4;
+
+export function WaveformView({
+  trackId,
+  duration,
+  start,
+  end,
+  zoom,
+  height = 64,
+  colorByBand = true,
+  beatGrid,
+  segments,
+  cues = [],
+  className = '',
+}: WaveformViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [trackDuration, setTrackDuration] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const windowed = start !== undefined || end !== undefined;
+  const viewStart = start ?? 0;
+  const viewEnd = end ?? trackDuration ?? duration ?? 0;
+  // Whole-track views use the overview; windows pick the level with about a
+  // bucket per pixel, once the canvas has a width
+  const requestedZoom = zoom ?? (windowed && width > 0 ? zoomForResolution((viewEnd - viewStart) / width) : 0);
+  // Wait for the layout to pick a window's zoom rather than fetch twice
+  const ready = !windowed || zoom !== undefined || width > 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.round(entries[0].contentRect.width)));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!ready) return;
+
+    const controller = new AbortController();
+    const query = new URLSearchParams({ zoom: String(requestedZoom) });
+    if (start !== undefined) query.set('start', String(Math.max(0, start)));
+    if (end !== undefined) query.set('end', String(end));
+
+    fetch(`/api/tracks/${trackId}/waveform?${query}`, { signal: controller.signal })
+      .then(async response => {
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Failed to load waveform');
+        }
+        const data = await response.json();
+        setTrackDuration(data.duration);
+        setPeaks(decodeWaveformLevel(data.level));
+        setError(null);
+      })
+      .catch(fetchError => {
+        if (controller.signal.aborted) return;
+        setPeaks(null);
+        setError(fetchError instanceof Error ? fetchError.message : 'Failed to load waveform');
+      });
+
+    return () => controller.abort();
+  }, [trackId, requestedZoom, start, end, ready]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || width === 0) return;
+
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    context.setTransform(scale, 0, 0, scale, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    const span = viewEnd - viewStart;
+    if (span <= 0) return;
+    const toX = (time: number) => ((time - viewStart) / span) * width;
+
+    // Sections behind everything else
+    for (const segment of segments ?? []) {
+      const left = Math.max(0, toX(segment.start));
+      const right = Math.min(width, toX(segment.end));
+      if (right <= left) continue;
+      context.fillStyle = SEGMENT_COLORS[segment.type];
+      context.fillRect(left, 0, right - left, height);
+      if (right - left > 40) {
+        context.fillStyle = 'rgba(55, 65, 81, 0.7)';
+        context.font = '10px sans-serif';
+        context.fillText(segment.type, left + 3, 11);
+      }
+    }
+
+    if (peaks) drawPeaks(context, peaks, { viewStart, span, width, height, colorByBand });
+
+    if (beatGrid && beatGrid.beats.length > 1) {
+      const beatSpacing = (width / span) * ((beatGrid.beats[beatGrid.beats.length - 1] - beatGrid.beats[0]) / (beatGrid.beats.length - 1));
+      const downbeats = new Set(beatGrid.downbeats);
+      for (const beat of beatGrid.beats) {
+        const isDownbeat = downbeats.has(beat);
+        if (!isDownbeat && beatSpacing < MIN_BEAT_SPACING) continue;
+        if (isDownbeat && beatSpacing * beatGrid.beatsPerBar < MIN_BEAT_SPACING) break;
+        const x = toX(beat);
+        if (x < 0 || x > width) continue;
+        context.fillStyle = isDownbeat ? 'rgba(17, 24, 39, 0.35)' : 'rgba(17, 24, 39, 0.12)';
+        context.fillRect(Math.round(x), 0, 1, height);
+      }
+    }
+
+    for (const cue of cues) {
+      const x = toX(cue.time);
+      if (x < 0 || x > width) continue;
+      context.fillStyle = cue.color ?? '#f59e0b';
+      context.fillRect(Math.round(x) - 1, 0, 2, height);
+      context.beginPath();
+      context.moveTo(x - 5, 0);
+      context.lineTo(x + 5, 0);
+      context.lineTo(x, 6);
+      context.fill();
+      if (cue.label) {
+        context.font = 'bold 10px sans-serif';
+        context.fillText(cue.label, Math.min(x + 4, width - context.measureText(cue.label).width - 2), height - 3);
+      }
+    }
+  }, [peaks, width, height, viewStart, viewEnd, colorByBand, beatGrid, segments, cues]);
+
+  return (
+    <div className={`relative ${className}`}>
+      <canvas ref={canvasRef} className="block w-full" style={{ height }} />
+      {error && !peaks && (
+        <p className="absolute inset-0 flex items-center justify-center text-xs text-gray-400">{error}</p>
+      )}
+    </div>
+  );
+}
+
+// One column per pixel: the extremes of the buckets under it, colored by
+// which band dominates (red for bass, green for mids, blue for highs)
+function drawPeaks(
+  context: CanvasRenderingContext2D,
+  peaks: WaveformPeaks,
+  { viewStart, span, width, height, colorByBand }: { viewStart: number; span: number; width: number; height: number; colorByBand: boolean }
+) {
+  const middle = height / 2;
+  for (let x = 0; x < width; x++) {
+    const from = viewStart + (x / width) * span;
+    const to = viewStart + ((x + 1) / width) * span;
+    if (to <= peaks.start) continue;
+    const first = Math.max(0, Math.floor((from - peaks.start) / peaks.bucketDuration));
+    const last = Math.min(peaks.length, Math.max(first + 1, Math.ceil((to - peaks.start) / peaks.bucketDuration)));
+    if (first >= peaks.length || last <= 0) continue;
+
+    let min = 0;
+    let max = 0;
+    let low = 0;
+    let mid = 0;
+    let high = 0;
+    for (let i = first; i < last; i++) {
+      min = Math.min(min, peaks.min[i]);
+      max = Math.max(max, peaks.max[i]);
+      low = Math.max(low, peaks.bands.low[i]);
+      mid = Math.max(mid, peaks.bands.mid[i]);
+      high = Math.max(high, peaks.bands.high[i]);
+    }
+
+    if (colorByBand) {
+      const strongest = Math.max(low, mid, high, 1e-6);
+      context.fillStyle = `rgb(${Math.round(40 + 200 * low / strongest)}, ${Math.round(40 + 160 * mid / strongest)}, ${Math.round(60 + 195 * high / strongest)})`;
+    } else {
+      context.fillStyle = '#6b7280';
+    }
+    const top = middle - max * middle;
+    context.fillRect(x, top, 1, Math.max(1, (max - min) * middle));
+  }
+}
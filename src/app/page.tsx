@@ -1,15 +1,79 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Image from 'next/image';
 import { Track, CompatibilityScore } from '@/types';
+import type { EnergySlot } from '@/lib/playlist/set-sequencer';
 import { TrackUploader } from './components/ui/TrackUploader';
 import { PlaylistDisplay } from './components/ui/PlaylistDisplay';
 import { LearningInsights } from './components/ui/UserFeedbackButtons';
+import { WaveformView } from './components/ui/WaveformView';
+import { parseKey, toCamelot } from '@/lib/audio/harmonic-keys';
+
+const TRACK_PAGE_SIZE = 50;
+
+const LIBRARY_SORTS = [
+  { value: 'createdAt', label: 'Newest' },
+  { value: 'title', label: 'Title' },
+  { value: 'artist', label: 'Artist' },
+  { value: 'bpm', label: 'BPM' },
+  { value: 'energy', label: 'Energy' },
+];
+
+// Energy shapes offered for generated sets; '' leaves energy to the mixing scores
+const ENERGY_ARCS = [
+  { value: '', label: 'Any energy' },
+  { value: 'warm-up', label: 'Warm-up' },
+  { value: 'peak-time', label: 'Peak time' },
+  { value: 'sunrise', label: 'Sunrise' },
+  { value: 'build', label: 'Build' },
+  { value: 'maintain', label: 'Maintain' },
+  { value: 'vary', label: 'Vary' },
+];
+
+// Key moves generated sets may make, as UserPreferences.keyRelationshipPreference
+const KEY_RULES = [
+  { value: 'any', label: 'Any key move' },
+  { value: 'harmonic', label: 'Harmonic (same, ±1, relative)' },
+  { value: 'chromatic', label: 'Harmonic + energy boosts' },
+];
+
+interface LibraryFilters {
+  search: string;
+  sort: string;
+  compatibleKey: string | null;
+}
+
+interface TrackPage {
+  tracks: Track[];
+  nextCursor: string | null;
+  total: number;
+}
+
+async function fetchTrackPage(filters: LibraryFilters, cursor?: string | null, signal?: AbortSignal): Promise<TrackPage> {
+  const params = new URLSearchParams({ view: 'summary', sort: filters.sort, limit: String(TRACK_PAGE_SIZE) });
+  if (filters.search.trim()) params.set('q', filters.search.trim());
+  if (filters.compatibleKey) params.set('compatibleWith', filters.compatibleKey);
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await fetch(`/api/tracks?${params}`, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to load tracks: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// Camelot code for a key typed in by hand, which has no analyzed camelotKey
+function camelotFor(notation: string): string | null {
+  const key = parseKey(notation);
+  return key ? toCamelot(key) : null;
+}
 
 interface PlaylistItem {
   track: Track;
   position: number;
   compatibilityScore?: CompatibilityScore;
+  energy?: EnergySlot | null; // Fit to the energy arc, when the set followed one
 }
 
 export default function HomePage() {
@@ -20,36 +84,78 @@ export default function HomePage() {
   const [isLoadingTracks, setIsLoadingTracks] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [tracksError, setTracksError] = useState<string | null>(null);
+  const [librarySearch, setLibrarySearch] = useState('');
+  const [librarySort, setLibrarySort] = useState('createdAt');
+  const [compatibleOnly, setCompatibleOnly] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalTracks, setTotalTracks] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [setScore, setSetScore] = useState<number | null>(null);
+  const [energyArc, setEnergyArc] = useState('');
+  const [energyDeviation, setEnergyDeviation] = useState<number | null>(null);
+  const [keyRule, setKeyRule] = useState('any');
+  const [setMinutes, setSetMinutes] = useState('');
+  const [playTime, setPlayTime] = useState<number | null>(null);
   
   // User context for learning system
   const [userId] = useState('demo-user'); // In a real app, this would come from authentication
   const [sessionId] = useState(`session-${Date.now()}`);
 
+  // Only keys the seed mixes into well, when the filter is on and the seed has a key
+  const seedKey = selectedSeedTrack?.keyOverride ?? selectedSeedTrack?.features?.musicalKey ?? null;
+  const compatibleKey = compatibleOnly ? seedKey : null;
+  const hasLibraryFilters = librarySearch.trim() !== '' || compatibleKey !== null;
+
   useEffect(() => {
-    loadTracks();
-  }, []);
+    const controller = new AbortController();
+    const filters = { search: librarySearch, sort: librarySort, compatibleKey };
 
-  const loadTracks = async () => {
-    setIsLoadingTracks(true);
-    setTracksError(null);
-    
-    try {
-      const response = await fetch('/api/tracks');
-      if (!response.ok) {
-        throw new Error(`Failed to load tracks: ${response.status} ${response.statusText}`);
+    // Wait for a pause in typing rather than query on every keystroke
+    const timer = setTimeout(async () => {
+      setIsLoadingTracks(true);
+      setTracksError(null);
+
+      try {
+        const page = await fetchTrackPage(filters, null, controller.signal);
+        setTracks(page.tracks);
+        setNextCursor(page.nextCursor);
+        setTotalTracks(page.total);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error loading tracks:', error);
+        setTracksError(error instanceof Error ? error.message : 'Failed to load tracks');
+      } finally {
+        if (!controller.signal.aborted) setIsLoadingTracks(false);
       }
-      const data = await response.json();
-      setTracks(data);
+    }, librarySearch ? 300 : 0);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [librarySearch, librarySort, compatibleKey, reloadCount]);
+
+  const loadMoreTracks = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await fetchTrackPage({ search: librarySearch, sort: librarySort, compatibleKey }, nextCursor);
+      setTracks(prev => [...prev, ...page.tracks]);
+      setNextCursor(page.nextCursor);
+      setTotalTracks(page.total);
     } catch (error) {
-      console.error('Error loading tracks:', error);
+      console.error('Error loading more tracks:', error);
       setTracksError(error instanceof Error ? error.message : 'Failed to load tracks');
     } finally {
-      setIsLoadingTracks(false);
+      setIsLoadingMore(false);
     }
   };
 
   const handleTrackUploaded = (newTrack: Track) => {
     setTracks(prev => [newTrack, ...prev]);
+    setTotalTracks(prev => prev + 1);
     setTracksError(null); // Clear any previous errors
   };
 
@@ -74,23 +180,33 @@ export default function HomePage() {
         body: JSON.stringify({
           seedTrackId: selectedSeedTrack.id,
           playlistLength: 8,
+          // A set length in minutes decides the track count instead
+          targetDuration: Number(setMinutes) > 0 ? Number(setMinutes) * 60 : undefined,
+          energyArc: energyArc || undefined,
+          preferences: { keyRelationshipPreference: keyRule },
           userId, // Include user context for personalization
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `Failed to generate playlist: ${response.status} ${response.statusText}`);
+        // Unmet harmonic rules come back with the transition that failed in details
+        const message = errorData.error || `Failed to generate playlist: ${response.status} ${response.statusText}`;
+        throw new Error(errorData.details ? `${message}: ${errorData.details}` : message);
       }
 
       const data = await response.json();
       
-      // Convert to PlaylistItem format
-      const playlistItems: PlaylistItem[] = data.tracks.map((track: Track & { compatibilityScore?: CompatibilityScore }, index: number) => ({
-        track,
-        position: index,
-        compatibilityScore: track.compatibilityScore
+      // Each item carries the score of the transition into it; the seed has none
+      const playlistItems: PlaylistItem[] = data.tracks.map((item: PlaylistItem & { compatibilityScore: CompatibilityScore | null }) => ({
+        track: item.track,
+        position: item.position,
+        compatibilityScore: item.compatibilityScore ?? undefined,
+        energy: item.energy
       }));
+      setSetScore(data.averageScore ?? null);
+      setEnergyDeviation(data.energyDeviation ?? null);
+      setPlayTime(data.timing?.totalDuration ?? null);
 
       setPlaylist(playlistItems);
     } catch (error) {
@@ -107,7 +223,7 @@ export default function HomePage() {
   };
 
   const retryLoadTracks = () => {
-    loadTracks();
+    setReloadCount(count => count + 1);
   };
 
   return (
@@ -140,7 +256,7 @@ export default function HomePage() {
             <div className="bg-white rounded-lg shadow-sm border p-6">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-semibold text-gray-900">
-                  Track Library ({tracks.length})
+                  Track Library ({totalTracks})
                 </h2>
                 {tracksError && (
                   <button
@@ -153,6 +269,43 @@ export default function HomePage() {
                 )}
               </div>
               
+              {/* Search & Filters */}
+              <div className="space-y-2 mb-4">
+                <input
+                  type="search"
+                  value={librarySearch}
+                  onChange={(e) => setLibrarySearch(e.target.value)}
+                  placeholder="Search title or artist"
+                  className="w-full border rounded px-3 py-1.5 text-sm"
+                />
+                <div className="flex items-center justify-between text-xs text-gray-600">
+                  <label className="flex items-center space-x-1">
+                    <span>Sort</span>
+                    <select
+                      value={librarySort}
+                      onChange={(e) => setLibrarySort(e.target.value)}
+                      className="border rounded px-1 py-0.5"
+                    >
+                      {LIBRARY_SORTS.map(sort => (
+                        <option key={sort.value} value={sort.value}>{sort.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label
+                    className={`flex items-center space-x-1 ${seedKey ? '' : 'opacity-50'}`}
+                    title="Only tracks in keys that mix harmonically from the seed track"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={compatibleOnly}
+                      onChange={(e) => setCompatibleOnly(e.target.checked)}
+                      disabled={!seedKey}
+                    />
+                    <span>Key-compatible with seed</span>
+                  </label>
+                </div>
+              </div>
+
               {/* Loading State */}
               {isLoadingTracks ? (
                 <div className="space-y-3">
@@ -187,8 +340,10 @@ export default function HomePage() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19V6l12-3v13M9 19c0 1.105-.895 2-2 2s-2-.895-2-2 .895-2 2-2 2 .895 2 2zm12-3c0 1.105-.895 2-2 2s-2-.895-2-2 .895-2 2-2 2 .895 2 2z" />
                     </svg>
                   </div>
-                  <p className="text-gray-500 text-sm">No tracks uploaded yet</p>
-                  <p className="text-gray-400 text-xs mt-1">Upload audio files to get started</p>
+                  <p className="text-gray-500 text-sm">{hasLibraryFilters ? 'No matching tracks' : 'No tracks uploaded yet'}</p>
+                  <p className="text-gray-400 text-xs mt-1">
+                    {hasLibraryFilters ? 'Try a different search or filter' : 'Upload audio files to get started'}
+                  </p>
                 </div>
               ) : (
                 /* Track List */
@@ -206,6 +361,16 @@ export default function HomePage() {
                       onClick={() => handleSeedTrackSelect(track)}
                     >
                       <div className="flex items-center justify-between">
+                        {track.coverArtPath && (
+                          <Image
+                            src={`/api/tracks/${track.id}/cover`}
+                            alt=""
+                            width={40}
+                            height={40}
+                            unoptimized
+                            className="mr-3 rounded object-cover shrink-0"
+                          />
+                        )}
                         <div className="min-w-0 flex-1">
                           <h3 className="font-medium text-gray-900 truncate">
                             {track.title || track.filename}
@@ -213,21 +378,52 @@ export default function HomePage() {
                           {track.artist && (
                             <p className="text-sm text-gray-500 truncate">{track.artist}</p>
                           )}
+                          {(track.album || track.genre || track.year) && (
+                            <p className="text-xs text-gray-400 truncate">
+                              {[track.album, track.genre, track.year].filter(Boolean).join(' · ')}
+                            </p>
+                          )}
                           
                           {/* Track features */}
                           {track.features && (
                             <div className="flex items-center space-x-3 mt-1 text-xs text-gray-500">
-                              {track.features.tempo && (
+                              {/* Manual overrides win over the analyzed values */}
+                              {track.bpmOverride ? (
+                                <span title="Set by hand">{Math.round(track.bpmOverride)} BPM*</span>
+                              ) : track.features.tempo && (
                                 <span>{Math.round(track.features.tempo)} BPM</span>
                               )}
-                              {track.features.musicalKey && (
-                                <span>Key: {track.features.musicalKey}</span>
+                              {track.keyOverride ? (
+                                <span title="Set by hand">
+                                  Key: {track.keyOverride}
+                                  {camelotFor(track.keyOverride) && ` (${camelotFor(track.keyOverride)})`}*
+                                </span>
+                              ) : track.features.musicalKey && (
+                                <span>
+                                  Key: {track.features.musicalKey}
+                                  {track.features.camelotKey && ` (${track.features.camelotKey})`}
+                                </span>
+                              )}
+                              {track.features.keyChanges && track.features.keyChanges.length > 1 && (
+                                <span title={track.features.keyChanges.map(change => `${Math.floor(change.time / 60)}:${String(Math.floor(change.time % 60)).padStart(2, '0')} ${change.key}`).join(', ')}>
+                                  {track.features.keyChanges.length - 1} key changes
+                                </span>
                               )}
                               {track.features.energyLevel && (
                                 <span>Energy: {Math.round(track.features.energyLevel * 100)}%</span>
                               )}
                             </div>
                           )}
+
+                          {track.features?.waveformPath && (
+                            <WaveformView
+                              trackId={track.id}
+                              duration={track.duration}
+                              height={28}
+                              segments={track.features.structureSegments}
+                              className="mt-2"
+                            />
+                          )}
                         </div>
                         
                         {selectedSeedTrack?.id === track.id && (
@@ -240,6 +436,15 @@ export default function HomePage() {
                       </div>
                     </div>
                   ))}
+                  {nextCursor && (
+                    <button
+                      onClick={loadMoreTracks}
+                      disabled={isLoadingMore}
+                      className="w-full py-2 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                    >
+                      {isLoadingMore ? 'Loading...' : `Load more (${tracks.length} of ${totalTracks})`}
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -294,9 +499,50 @@ export default function HomePage() {
                   )}
                 </button>
 
+                <label className="flex items-center space-x-1 text-sm text-gray-600">
+                  <span>Energy arc</span>
+                  <select
+                    value={energyArc}
+                    onChange={(e) => setEnergyArc(e.target.value)}
+                    className="border rounded px-2 py-1"
+                  >
+                    {ENERGY_ARCS.map(arc => (
+                      <option key={arc.value} value={arc.value}>{arc.label}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="flex items-center space-x-1 text-sm text-gray-600">
+                  <span>Keys</span>
+                  <select
+                    value={keyRule}
+                    onChange={(e) => setKeyRule(e.target.value)}
+                    className="border rounded px-2 py-1"
+                  >
+                    {KEY_RULES.map(rule => (
+                      <option key={rule.value} value={rule.value}>{rule.label}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="flex items-center space-x-1 text-sm text-gray-600">
+                  <span>Set length</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={setMinutes}
+                    onChange={(e) => setSetMinutes(e.target.value)}
+                    placeholder="min"
+                    className="border rounded px-2 py-1 w-16"
+                  />
+                </label>
+
                 {playlist.length > 0 && (
                   <div className="text-sm text-gray-600">
                     {playlist.length} tracks • AI-optimized transitions
+                    {setScore !== null && ` • ${Math.round(setScore * 100)}% average mix`}
+                    {energyDeviation !== null && ` • ${Math.round(energyDeviation * 100)}% off the energy arc`}
+                    {playTime !== null && ` • ${Math.floor(Math.round(playTime) / 60)}:${String(Math.round(playTime) % 60).padStart(2, '0')} mixed`}
                   </div>
                 )}
               </div>
@@ -0,0 +1,127 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/database/connection';
+import { AudioAnalyzer, AudioAnalyzerOptions } from '@/lib/audio/analyzer';
+import { decodeAudioStream } from '@/lib/audio/decoder';
+import { AnalysisQueue } from '@/lib/jobs/analysis-queue';
+import { createWaveformObjectKey, getStorage } from '@/lib/storage';
+import { AudioAnalysisResult, WaveformData } from '@/types';
+
+export type AnalysisProgressCallback = (stage: string, progress: number) => void | Promise<void>;
+
+// Analyze a track from its stored audio, without involving the browser. The
+// audio is decoded and analyzed as it streams out of storage, so long mixes
+// are handled in bounded memory. ANALYSIS_TEMPO_GENRE sets the default BPM
+// range for libraries of one style.
+export async function analyzeStoredTrack(
+  trackId: string,
+  onProgress?: AnalysisProgressCallback,
+  options: AudioAnalyzerOptions = { genre: process.env.ANALYSIS_TEMPO_GENRE }
+): Promise<AudioAnalysisResult> {
+  await onProgress?.('loading', 0.05);
+  const track = await prisma.track.findUnique({ where: { id: trackId } });
+  if (!track) {
+    throw new Error(`Track ${trackId} not found`);
+  }
+
+  const object = await getStorage().getObject(track.filePath);
+  if (!object) {
+    throw new Error(`Audio for track ${trackId} is missing from storage`);
+  }
+
+  await onProgress?.('decoding', 0.1);
+  const stream = await decodeAudioStream(object.body, { filename: track.filename, contentType: track.contentType });
+
+  // Analyzer progress fills the range up to saving
+  const analyzer = new AudioAnalyzer(options);
+  return analyzer.analyzeStream(stream, {
+    onProgress: (stage, progress) => onProgress?.(stage, 0.1 + progress * 0.8),
+  });
+}
+
+// Results without per-feature status come from older clients and are taken at face value
+function isDegraded(analysisResult: AudioAnalysisResult): boolean {
+  return Object.values(analysisResult.featureStatus ?? {}).some(feature => feature?.status !== 'measured');
+}
+
+export async function saveAnalysisResult(trackId: string, analysisResult: AudioAnalysisResult) {
+  const features = {
+    tempo: analysisResult.tempo,
+    tempoConfidence: analysisResult.tempoConfidence ?? null,
+    tempoCurve: (analysisResult.tempoCurve || []) as unknown as Prisma.InputJsonValue,
+    musicalKey: analysisResult.key,
+    camelotKey: analysisResult.camelotKey ?? null,
+    keyConfidence: analysisResult.keyConfidence ?? null,
+    alternateKey: analysisResult.alternateKey ?? null,
+    keyChanges: (analysisResult.keyChanges || []) as unknown as Prisma.InputJsonValue,
+    energyLevel: analysisResult.energy,
+    loudness: analysisResult.loudness ?? null,
+    truePeak: analysisResult.truePeak ?? null,
+    danceability: analysisResult.danceability ?? null,
+    valence: analysisResult.valence ?? null,
+    spectralCentroid: analysisResult.spectralCentroid,
+    spectralRolloff: analysisResult.spectralRolloff,
+    zeroCrossingRate: analysisResult.zeroCrossingRate,
+    mfcc: analysisResult.mfcc || [],
+    mfccVariance: analysisResult.mfccVariance || [],
+    chroma: analysisResult.chroma || [],
+    beatPositions: analysisResult.beats || [],
+    beatGrid: analysisResult.beatGrid
+      ? analysisResult.beatGrid as unknown as Prisma.InputJsonValue
+      : Prisma.DbNull,
+    energyCurve: analysisResult.energyCurve
+      ? analysisResult.energyCurve as unknown as Prisma.InputJsonValue
+      : Prisma.DbNull,
+    structureSegments: (analysisResult.structure || []) as unknown as Prisma.InputJsonValue,
+    fingerprint: analysisResult.fingerprint ?? null,
+    analyzerVersion: analysisResult.analyzerVersion ?? null,
+    featureStatus: analysisResult.featureStatus
+      ? analysisResult.featureStatus as unknown as Prisma.InputJsonValue
+      : Prisma.DbNull,
+    analysisParams: analysisResult.analysisParams
+      ? analysisResult.analysisParams as unknown as Prisma.InputJsonValue
+      : Prisma.DbNull,
+    degraded: isDegraded(analysisResult),
+  };
+
+  // Peaks are too bulky for the features row, which every track listing
+  // loads, so they live in storage. Results without them keep the old peaks.
+  const previous = await prisma.trackFeatures.findUnique({ where: { trackId }, select: { waveformPath: true } });
+  const waveformPath = analysisResult.waveform ? await storeWaveform(analysisResult.waveform) : undefined;
+
+  let trackFeatures;
+  try {
+    trackFeatures = await prisma.trackFeatures.upsert({
+      where: { trackId },
+      update: { ...features, waveformPath },
+      create: { trackId, ...features, waveformPath },
+    });
+  } catch (error) {
+    if (waveformPath) await getStorage().deleteObject(waveformPath).catch(() => undefined);
+    throw error;
+  }
+
+  if (waveformPath && previous?.waveformPath) {
+    await getStorage().deleteObject(previous.waveformPath).catch(error => {
+      console.warn(`Failed to delete replaced waveform ${previous.waveformPath}:`, error);
+    });
+  }
+
+  // Any queued job for this track is now redundant
+  await new AnalysisQueue().completePendingForTrack(trackId, analysisResult.analyzerVersion ?? null);
+
+  // Update track duration if provided
+  if (analysisResult.duration) {
+    await prisma.track.update({
+      where: { id: trackId },
+      data: { duration: analysisResult.duration },
+    });
+  }
+
+  return trackFeatures;
+}
+
+async function storeWaveform(waveform: WaveformData): Promise<string> {
+  const body = new TextEncoder().encode(JSON.stringify(waveform));
+  const stored = await getStorage().putObject(createWaveformObjectKey(), body, { contentType: 'application/json' });
+  return stored.key;
+}
@@ -0,0 +1,15 @@
+import { AudioAnalysisResult, PcmAudio } from '@/types';
+import { AnalysisStage, AudioAnalyzerOptions } from './analyzer';
+
+// Messages between BrowserAnalyzer on the page and the analysis Web Worker.
+// Every message carries the id of the run it belongs to.
+
+export type AnalysisRequest =
+  | { type: 'analyze'; id: string; audio: PcmAudio; options: AudioAnalyzerOptions } // Channel buffers are transferred
+  | { type: 'cancel'; id: string };
+
+export type AnalysisResponse =
+  | { type: 'progress'; id: string; stage: AnalysisStage; progress: number }
+  | { type: 'result'; id: string; result: AudioAnalysisResult }
+  | { type: 'error'; id: string; message: string }
+  | { type: 'cancelled'; id: string };
@@ -0,0 +1,44 @@
+import { AnalysisRequest, AnalysisResponse } from './analysis-messages';
+import { AudioAnalyzer } from './analyzer';
+
+// Web Worker entry for browser-side analysis, started by BrowserAnalyzer. The
+// DSP runs here so the page stays responsive while a track is analyzed.
+
+const runs = new Map<string, AbortController>();
+
+function post(message: AnalysisResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    runs.get(request.id)?.abort();
+    return;
+  }
+
+  const { id } = request;
+  const controller = new AbortController();
+  runs.set(id, controller);
+
+  try {
+    const result = await new AudioAnalyzer(request.options).analyzePcm(request.audio, {
+      signal: controller.signal,
+      onProgress: async (stage, progress) => {
+        post({ type: 'progress', id, stage, progress });
+        // Yield to the event loop so a pending cancel message is delivered
+        await new Promise(resolve => setTimeout(resolve, 0));
+      },
+    });
+    post({ type: 'result', id, result });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      post({ type: 'cancelled', id });
+    } else {
+      post({ type: 'error', id, message: error instanceof Error ? error.message : 'Unknown analysis error' });
+    }
+  } finally {
+    runs.delete(id);
+  }
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from '@jest/globals';
+import { AudioAnalyzer } from './analyzer';
+
+// The whole analyzer, from PCM to stored features (onsets, tempo, beat grid,
+// key and key changes, structure, loudness, fingerprint and waveform), has to
+// get through a 5-minute 44.1 kHz track in seconds. It takes about 5 s in
+// Node; Jest's sandbox slows the same code down about fivefold, hence the budget.
+const SAMPLE_RATE = 44100;
+const DURATION_SECONDS = 5 * 60;
+const BPM = 128;
+const ANALYSIS_BUDGET_MS = 60000;
+
+// Stereo PCM: A minor chord, kick every beat, off-beat hats and a breakdown
+// without drums in the middle minute, so every stage has something to find
+function syntheticTrack(): Float32Array[] {
+  const left = new Float32Array(SAMPLE_RATE * DURATION_SECONDS);
+  const beatSamples = Math.round(SAMPLE_RATE * 60 / BPM);
+  const { sin, exp, PI } = Math; // Locals, to keep the sandbox's lookups out of the loop
+  let state = 1;
+  for (let i = 0; i < left.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const sinceBeat = (i % beatSamples) / SAMPLE_RATE;
+    const sinceHat = ((i + beatSamples / 2) % beatSamples) / SAMPLE_RATE;
+    const drums = t < 120 || t >= 180 ? 1 : 0;
+    state = (state * 16807) % 2147483647;
+    const noise = state / 2147483647 * 2 - 1;
+    left[i] =
+      0.15 * (sin(2 * PI * 220 * t) + sin(2 * PI * 261.63 * t) + sin(2 * PI * 329.63 * t)) +
+      drums * 0.6 * exp(-sinceBeat * 30) * sin(2 * PI * 55 * sinceBeat) +
+      drums * 0.1 * exp(-sinceHat * 60) * noise;
+  }
+  return [left, left.slice()];
+}
+
+describe('full analysis of a 5-minute 44.1 kHz track', () => {
+  it(`finishes within ${ANALYSIS_BUDGET_MS} ms with every feature measured`, async () => {
+    const channels = syntheticTrack();
+    const stages = new Set<string>();
+
+    const start = performance.now();
+    const result = await new AudioAnalyzer().analyzePcm(
+      { sampleRate: SAMPLE_RATE, duration: DURATION_SECONDS, channels },
+      { onProgress: stage => { stages.add(stage); } }
+    );
+    const elapsed = performance.now() - start;
+
+    expect([...stages]).toEqual(['extracting', 'tempo', 'key', 'beats', 'structure']);
+    for (const [feature, status] of Object.entries(result.featureStatus)) {
+      expect([feature, status?.status]).toEqual([feature, 'measured']);
+    }
+    expect(Math.abs(result.tempo - BPM)).toBeLessThan(1);
+    expect(result.key).toBe('Am');
+    expect(result.beats.length).toBeGreaterThan(500);
+    expect(result.structure.length).toBeGreaterThan(1);
+    expect(result.loudness).not.toBeNull();
+    expect(result.fingerprint).not.toBeNull();
+    expect(elapsed).toBeLessThan(ANALYSIS_BUDGET_MS);
+  }, 2 * ANALYSIS_BUDGET_MS);
+});
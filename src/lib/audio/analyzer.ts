@@ -1,4 +1,53 @@
-import { AudioAnalysisResult, StructureSegment } from '@/types';
+import {
+  AnalysisParams,
+  AudioAnalysisResult,
+  BeatGrid,
+  EnergyCurve,
+  FeatureStatus,
+  FeatureStatusMap,
+  KeyChange,
+  PcmAudio,
+  PcmStream,
+  StructureSegment,
+  TempoCurvePoint,
+  WaveformData,
+} from '@/types';
+import { BeatTracker } from './beat-tracker';
+import { summarizeFrames } from './mfcc';
+import { EnergyMeter } from './energy-curve';
+import { encodeFingerprint, FINGERPRINT_SECONDS, FingerprintExtractor } from './fingerprint';
+import { KeyDetector, KeyEstimate } from './key-detector';
+import { LoudnessMeasurement, LoudnessMeter } from './loudness';
+import { OnsetEnvelope, OnsetEnvelopeExtractor } from './onset';
+import { estimateDanceability, estimateValence } from './perceptual-features';
+import { chromaProfile, meanOverActiveFrames, SpectralFrameExtractor, SpectralFrames } from './spectral';
+import { StructureSegmenter } from './structure';
+import { resolveTempoRange, TempoEstimate, TempoEstimator, TempoRange } from './tempo-estimator';
+import { WAVEFORM_INTERVAL, WaveformExtractor } from './waveform';
+
+type KeyFields = Pick<AudioAnalysisResult, 'key' | 'camelotKey' | 'keyConfidence' | 'alternateKey'>;
+
+type TimbreFeatures = Pick<
+  AudioAnalysisResult,
+  'mfcc' | 'mfccVariance' | 'spectralCentroid' | 'spectralRolloff' | 'zeroCrossingRate' | 'chroma'
+>;
+
+export type AnalysisStage = 'extracting' | 'tempo' | 'key' | 'beats' | 'structure';
+
+// Progress runs from 0 to 1 across the stages, in the order listed above
+export type AnalysisProgressCallback = (stage: AnalysisStage, progress: number) => void | Promise<void>;
+
+export interface AnalysisRunOptions {
+  onProgress?: AnalysisProgressCallback;
+  // Checked after every progress report; an aborted run rejects with the
+  // signal's reason instead of returning a result
+  signal?: AbortSignal;
+}
+
+export interface AudioAnalyzerOptions {
+  genre?: string | null; // Selects a typical BPM range for tempo estimation
+  tempoRange?: TempoRange; // Explicit range, overrides genre
+}
 
 declare global {
   interface Window {
@@ -6,10 +55,31 @@ declare global {
   }
 }
 
+// Bump whenever a change to the extraction algorithms would alter stored
+// features, so outdated rows can be found and re-analyzed
+export const ANALYZER_VERSION = '1.13.0';
+
+// Frame settings for the shared spectral pass and the onset envelope,
+// recorded with every result in analysisParams
+const SPECTRAL_OPTIONS = { frameSize: 4096, hopSize: 2048, window: 'hann' as const };
+const ONSET_OPTIONS = { frameSize: 2048, hopSize: 512 };
+const ENERGY_CURVE_INTERVAL = 1; // Seconds
+const KEY_CHANGE_WINDOW = { windowSeconds: 30, hopSeconds: 15 };
+
+// In-memory audio is fed through the extractors in chunks of this length
+const CHUNK_SECONDS = 10;
+// Energy resolution for structure analysis, a few points per beat
+const STRUCTURE_ENERGY_INTERVAL = 0.1;
+// Share of the progress range spent extracting frame features
+const EXTRACTION_PROGRESS = 0.8;
+
 export class AudioAnalyzer {
   private audioContext: AudioContext | null = null;
+  private readonly tempoRange: TempoRange;
+
+  constructor(options: AudioAnalyzerOptions = {}) {
+    this.tempoRange = options.tempoRange ?? resolveTempoRange(options.genre);
 
-  constructor() {
     if (typeof window !== 'undefined') {
       const AudioContextClass = window.AudioContext || window.webkitAudioContext;
       if (AudioContextClass) {
@@ -18,7 +88,13 @@ export class AudioAnalyzer {
     }
   }
 
-  async analyzeFile(file: File): Promise<AudioAnalysisResult> {
+  async analyzeFile(file: File, options: AnalysisRunOptions = {}): Promise<AudioAnalysisResult> {
+    return this.analyzePcm(await this.decodeFile(file), options);
+  }
+
+  // Decoding needs an AudioContext, so it stays on the main thread even when
+  // the analysis itself runs in a worker
+  async decodeFile(file: File): Promise<PcmAudio> {
     if (!this.audioContext) {
       throw new Error('AudioContext not available');
     }
@@ -44,284 +120,365 @@ export class AudioAnalyzer {
       throw new Error(`Failed to decode audio data: ${error instanceof Error ? error.message : 'Invalid audio format'}`);
     }
 
-    // Check audio buffer duration - skip analysis for very long files
-    if (audioBuffer.duration > 600) { // 10 minutes
-      console.warn(`Very long audio file detected: ${audioBuffer.duration}s - using simplified analysis`);
-      return this.getSimplifiedAnalysis(audioBuffer);
+    return AudioAnalyzer.fromAudioBuffer(audioBuffer);
+  }
+
+  // Runs the full feature extraction on decoded PCM. Works without an
+  // AudioContext, which lets the server analyze stored files itself.
+  async analyzePcm(audio: PcmAudio, options: AnalysisRunOptions = {}): Promise<AudioAnalysisResult> {
+    return this.analyzeStream(AudioAnalyzer.toStream(audio), options);
+  }
+
+  // Analysis of audio delivered in chunks. Each chunk goes through the
+  // frame-level extractors and is then dropped, so memory grows with the
+  // compact per-frame features rather than the samples, and hour-long mixes
+  // get the same full analysis as single tracks.
+  async analyzeStream(stream: PcmStream, options: AnalysisRunOptions = {}): Promise<AudioAnalysisResult> {
+    const report = AudioAnalyzer.reporter(options);
+    const extractors = new FeatureExtractors(stream.sampleRate, stream.channelCount);
+
+    let reported = 0;
+    for await (const chunk of stream.chunks) {
+      extractors.push(chunk);
+
+      // Chunk-wise extraction is most of the work; the whole-track stages
+      // after it share the rest of the progress range
+      const progress = stream.duration ? Math.min(1, extractors.duration / stream.duration) * EXTRACTION_PROGRESS : 0;
+      if (progress - reported >= 0.02) {
+        reported = progress;
+        await report('extracting', Math.round(progress * 100) / 100);
+      }
     }
-    
+
     try {
-      // Extract real features with error handling for each step
-      const [tempo, key, energy, spectral] = await Promise.allSettled([
-        this.extractTempo(audioBuffer),
-        this.extractKey(audioBuffer), 
-        this.extractEnergy(audioBuffer),
-        this.extractSpectralFeatures(audioBuffer)
-      ]);
-
-      const [beats, structure] = await Promise.allSettled([
-        this.extractBeats(audioBuffer, tempo.status === 'fulfilled' ? tempo.value : 120),
-        this.extractStructure(audioBuffer)
-      ]);
-      
-      return {
-        tempo: tempo.status === 'fulfilled' ? tempo.value : 120,
-        key: key.status === 'fulfilled' ? key.value : 'C major',
-        energy: energy.status === 'fulfilled' ? energy.value : 0.5,
-        spectral: spectral.status === 'fulfilled' ? spectral.value : new Array(13).fill(0),
-        beats: beats.status === 'fulfilled' ? beats.value : [],
-        structure: structure.status === 'fulfilled' ? structure.value : [],
-      };
+      return await this.analyzeFeatures(extractors, report);
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('Analysis failed, using simplified analysis:', error);
-      return this.getSimplifiedAnalysis(audioBuffer);
+      const reason = `analysis failed: ${error instanceof Error ? error.message : 'unknown error'}`;
+      return this.getSimplifiedAnalysis(extractors, reason);
     }
   }
 
-  private getSimplifiedAnalysis(audioBuffer: AudioBuffer): AudioAnalysisResult {
-    // Fast simplified analysis for problematic files
-    const channelData = audioBuffer.getChannelData(0);
-    const length = Math.min(channelData.length, 44100 * 30); // Max 30 seconds for analysis
-    
-    // Simple energy calculation
-    let energy = 0;
-    for (let i = 0; i < length; i += 1000) { // Sample every 1000 points
-      energy += Math.abs(channelData[i]);
-    }
-    energy = energy / (length / 1000);
-    
+  // Whole-track stages on the accumulated frame features
+  private async analyzeFeatures(
+    extractors: FeatureExtractors,
+    report: AnalysisProgressCallback
+  ): Promise<AudioAnalysisResult> {
+    const { duration } = extractors;
+
+    // One STFT pass feeds every frequency-domain feature
+    const spectrum = extractors.spectral.finish();
+    const onsets = extractors.onsets.finish();
+
+    // Extract real features with error handling for each step
+    await report('tempo', 0.8);
+    const [tempo, energy, timbre, loudness, fingerprint, waveform] = await Promise.allSettled([
+      this.extractTempo(onsets),
+      this.extractEnergy(extractors.energy),
+      this.extractTimbreFeatures(spectrum),
+      this.extractLoudness(extractors.loudness),
+      this.extractFingerprint(extractors.fingerprint),
+      this.extractWaveform(extractors.waveform)
+    ]);
+
+    await report('key', 0.84);
+    const [key, keyChanges] = await Promise.allSettled([
+      this.extractKey(spectrum),
+      this.extractKeyChanges(spectrum)
+    ]);
+
+    await report('beats', 0.88);
+    const bpm = tempo.status === 'fulfilled' ? tempo.value.bpm : 120;
+    const [beatGrid, tempoCurve] = await Promise.allSettled([
+      this.extractBeats(onsets, bpm),
+      this.extractTempoCurve(onsets, bpm)
+    ]);
+
+    await report('structure', 0.94);
+    const [structure] = await Promise.allSettled([
+      this.extractStructure(duration, extractors.structureEnergy.curve(), spectrum, beatGrid.status === 'fulfilled' ? beatGrid.value : null, bpm)
+    ]);
+
+    const tempoConfidence = tempo.status === 'fulfilled' ? tempo.value.confidence : 0;
+    const grid = beatGrid.status === 'fulfilled' ? beatGrid.value : null;
+    const keyFields = key.status === 'fulfilled' ? AudioAnalyzer.keyFields(key.value) : AudioAnalyzer.unknownKeyFields();
+    const timbreFields = timbre.status === 'fulfilled' ? timbre.value : AudioAnalyzer.emptyTimbreFeatures();
+
+    const featureStatus: FeatureStatusMap = {
+      tempo: AudioAnalyzer.featureStatus(tempo, value => (value.confidence === 0 ? 'no periodic onsets found' : null)),
+      tempoCurve: AudioAnalyzer.featureStatus(tempoCurve, value => {
+        if (value.length === 0) return 'audio shorter than the tempo window';
+        return value.every(point => point.confidence === 0) ? 'no periodic onsets found' : null;
+      }),
+      key: AudioAnalyzer.featureStatus(key, value => (value.confidence === 0 ? 'no tonal content found' : null)),
+      keyChanges: AudioAnalyzer.featureStatus(keyChanges, value => {
+        if (value.length === 0) return 'audio shorter than one analysis frame';
+        return value.every(change => change.confidence === 0) ? 'no tonal content found' : null;
+      }),
+      energy: AudioAnalyzer.featureStatus(energy),
+      loudness: AudioAnalyzer.featureStatus(loudness, value => (Number.isFinite(value.integratedLoudness) ? null : 'audio is silent')),
+      timbre: AudioAnalyzer.featureStatus(timbre, value => (value.spectralCentroid === 0 ? 'audio is silent' : null)),
+      beats: AudioAnalyzer.featureStatus(beatGrid, value => (value.beats.length === 0 ? 'no beats found' : null)),
+      energyCurve: { status: 'measured' },
+      structure: AudioAnalyzer.featureStatus(structure),
+      fingerprint: AudioAnalyzer.featureStatus(fingerprint, value => {
+        if (value.length === 0) return 'audio shorter than one fingerprint frame';
+        return value.every(code => code === 0) ? 'audio is silent' : null;
+      }),
+      waveform: AudioAnalyzer.featureStatus(waveform, value => (value.levels[0]?.length ? null : 'no audio')),
+    };
+    featureStatus.danceability = AudioAnalyzer.derivedStatus(featureStatus, ['beats', 'tempo']);
+    featureStatus.valence = AudioAnalyzer.derivedStatus(featureStatus, ['key', 'tempo', 'timbre']);
+
     return {
-      tempo: 120, // Default BPM
-      key: 'C major', // Default key
-      energy: Math.min(energy * 2, 1), // Normalized energy
-      spectral: new Array(13).fill(0), // Default MFCC coefficients
-      beats: [],
-      structure: []
+      analyzerVersion: ANALYZER_VERSION,
+      featureStatus,
+      analysisParams: this.analysisParams(extractors, 'full'),
+      duration,
+      tempo: bpm,
+      tempoConfidence,
+      tempoCurve: tempoCurve.status === 'fulfilled' ? tempoCurve.value : [],
+      ...keyFields,
+      keyChanges: keyChanges.status === 'fulfilled' ? keyChanges.value : [],
+      energy: energy.status === 'fulfilled' ? energy.value : 0.5,
+      ...(loudness.status === 'fulfilled' ? AudioAnalyzer.loudnessFields(loudness.value) : { loudness: null, truePeak: null }),
+      danceability: estimateDanceability({ tempo: bpm, tempoConfidence, beatGrid: grid }),
+      valence: estimateValence({
+        key: keyFields.key,
+        keyConfidence: keyFields.keyConfidence,
+        tempo: bpm,
+        spectralCentroid: timbreFields.spectralCentroid,
+      }),
+      ...timbreFields,
+      beats: grid?.beats ?? [],
+      beatGrid: grid,
+      energyCurve: extractors.energy.curve(),
+      structure: structure.status === 'fulfilled' ? structure.value : [],
+      fingerprint: fingerprint.status === 'fulfilled' && featureStatus.fingerprint?.status === 'measured'
+        ? encodeFingerprint(fingerprint.value)
+        : null,
+      waveform: waveform.status === 'fulfilled' ? waveform.value : null,
     };
   }
 
-  private async extractTempo(audioBuffer: AudioBuffer): Promise<number> {
-    const channelData = audioBuffer.getChannelData(0);
-    const sampleRate = audioBuffer.sampleRate;
-    
-    // Real BPM detection using autocorrelation
-    const windowSize = Math.floor(sampleRate * 0.1); // 100ms windows
-    const hopSize = Math.floor(windowSize / 4);
-    const onsets: number[] = [];
-    
-    // Simple onset detection using energy difference
-    for (let i = hopSize; i < channelData.length - windowSize; i += hopSize) {
-      const currentEnergy = this.calculateWindowEnergy(channelData, i, windowSize);
-      const previousEnergy = this.calculateWindowEnergy(channelData, i - hopSize, windowSize);
-      
-      if (currentEnergy > previousEnergy * 1.5) {
-        onsets.push(i / sampleRate);
-      }
+  static fromAudioBuffer(audioBuffer: AudioBuffer): PcmAudio {
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+      channels.push(audioBuffer.getChannelData(c));
     }
-    
-    if (onsets.length < 4) return 120; // Default if not enough onsets
-    
-    // Calculate intervals between onsets
-    const intervals: number[] = [];
-    for (let i = 1; i < onsets.length; i++) {
-      intervals.push(onsets[i] - onsets[i - 1]);
-    }
-    
-    // Find most common interval (mode)
-    const intervalCounts = new Map<number, number>();
-    intervals.forEach(interval => {
-      const rounded = Math.round(interval * 100) / 100; // Round to 0.01s
-      intervalCounts.set(rounded, (intervalCounts.get(rounded) || 0) + 1);
-    });
-    
-    let mostCommonInterval = 0.5; // Default 120 BPM
-    let maxCount = 0;
-    
-    intervalCounts.forEach((count, interval) => {
-      if (count > maxCount) {
-        maxCount = count;
-        mostCommonInterval = interval;
-      }
-    });
-    
-    // Convert interval to BPM
-    return Math.round(60 / mostCommonInterval);
+    return { sampleRate: audioBuffer.sampleRate, duration: audioBuffer.duration, channels };
   }
 
-  private calculateWindowEnergy(data: Float32Array, start: number, length: number): number {
-    let sum = 0;
-    for (let i = start; i < Math.min(start + length, data.length); i++) {
-      sum += data[i] * data[i];
-    }
-    return sum / length;
-  }
-
-  private async extractKey(audioBuffer: AudioBuffer): Promise<string> {
-    const channelData = audioBuffer.getChannelData(0);
-    const sampleRate = audioBuffer.sampleRate;
-    
-    // Real key detection using chroma analysis
-    const frameSize = 4096;
-    const hopSize = frameSize / 4;
-    const chromaProfile = new Array(12).fill(0);
-    
-    for (let i = 0; i < channelData.length - frameSize; i += hopSize) {
-      const frame = channelData.slice(i, i + frameSize);
-      const fft = this.simpleFFT(frame);
-      const chroma = this.calculateChroma(fft, sampleRate);
-      
-      for (let j = 0; j < 12; j++) {
-        chromaProfile[j] += chroma[j];
+  // Progress reporting that doubles as the cancellation point
+  private static reporter({ onProgress, signal }: AnalysisRunOptions): AnalysisProgressCallback {
+    return async (stage, progress) => {
+      signal?.throwIfAborted();
+      await onProgress?.(stage, progress);
+      signal?.throwIfAborted();
+    };
+  }
+
+  // In-memory audio as a stream of views, so it takes the same path as
+  // decoded streams and still reports progress
+  static toStream(audio: PcmAudio): PcmStream {
+    const length = audio.channels[0]?.length ?? 0;
+    const chunkLength = Math.max(1, Math.round(CHUNK_SECONDS * audio.sampleRate));
+    async function* chunks() {
+      for (let start = 0; start < length; start += chunkLength) {
+        yield audio.channels.map(channel => channel.subarray(start, start + chunkLength));
       }
     }
-    
-    // Find dominant chroma
-    const maxChroma = Math.max(...chromaProfile);
-    const dominantChroma = chromaProfile.indexOf(maxChroma);
-    
-    const notes = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-    
-    // Simple major/minor detection based on third interval
-    const majorThird = chromaProfile[(dominantChroma + 4) % 12];
-    const minorThird = chromaProfile[(dominantChroma + 3) % 12];
-    
-    const isMinor = minorThird > majorThird;
-    return notes[dominantChroma] + (isMinor ? 'm' : '');
-  }
-
-  private simpleFFT(frame: Float32Array): Float32Array {
-    // Simplified FFT for magnitude spectrum
-    const N = frame.length;
-    const magnitudes = new Float32Array(N / 2);
-    
-    for (let k = 0; k < N / 2; k++) {
-      let real = 0;
-      let imag = 0;
-      
-      for (let n = 0; n < N; n++) {
-        const angle = -2 * Math.PI * k * n / N;
-        real += frame[n] * Math.cos(angle);
-        imag += frame[n] * Math.sin(angle);
+    return { sampleRate: audio.sampleRate, channelCount: audio.channels.length, duration: audio.duration, chunks: chunks() };
+  }
+
+  static mixToMono(channels: Float32Array[]): Float32Array {
+    if (channels.length === 1) return channels[0];
+
+    const length = channels[0]?.length ?? 0;
+    const mono = new Float32Array(length);
+    const scale = 1 / channels.length;
+    for (const channel of channels) {
+      for (let i = 0; i < length; i++) {
+        mono[i] += channel[i] * scale;
       }
-      
-      magnitudes[k] = Math.sqrt(real * real + imag * imag);
     }
-    
-    return magnitudes;
-  }
-
-  private calculateChroma(fft: Float32Array, sampleRate: number): number[] {
-    const chroma = new Array(12).fill(0);
-    const binFreq = sampleRate / (2 * fft.length);
-    
-    for (let i = 1; i < fft.length; i++) {
-      const freq = i * binFreq;
-      if (freq < 80 || freq > 2000) continue; // Focus on musical range
-      
-      const note = this.frequencyToNote(freq);
-      chroma[note] += fft[i];
-    }
-    
-    // Normalize
-    const sum = chroma.reduce((a, b) => a + b, 0);
-    return sum > 0 ? chroma.map(x => x / sum) : chroma;
+    return mono;
   }
 
-  private frequencyToNote(freq: number): number {
-    const A4 = 440;
-    const semitones = Math.round(12 * Math.log2(freq / A4));
-    return ((semitones % 12) + 12) % 12; // Ensure positive
+  private getSimplifiedAnalysis(extractors: FeatureExtractors, reason: string): AudioAnalysisResult {
+    // Everything except the energy measurements is a placeholder
+    const defaulted: FeatureStatus = { status: 'defaulted', reason };
+    const featureStatus: FeatureStatusMap = {
+      tempo: defaulted,
+      tempoCurve: defaulted,
+      key: defaulted,
+      keyChanges: defaulted,
+      energy: { status: 'measured' },
+      loudness: defaulted,
+      danceability: defaulted,
+      valence: defaulted,
+      timbre: defaulted,
+      beats: defaulted,
+      energyCurve: { status: 'measured' },
+      structure: defaulted,
+      fingerprint: defaulted,
+      waveform: { status: 'measured' },
+    };
+
+    return {
+      analyzerVersion: ANALYZER_VERSION,
+      featureStatus,
+      analysisParams: this.analysisParams(extractors, 'simplified'),
+      duration: extractors.duration,
+      tempo: 120, // Default BPM
+      tempoConfidence: 0,
+      tempoCurve: [],
+      ...AudioAnalyzer.unknownKeyFields(),
+      keyChanges: [],
+      energy: extractors.energy.rms(),
+      loudness: null,
+      truePeak: null,
+      danceability: 0,
+      valence: 0.5,
+      ...AudioAnalyzer.emptyTimbreFeatures(),
+      beats: [],
+      beatGrid: null,
+      energyCurve: extractors.energy.curve(),
+      structure: [],
+      fingerprint: null,
+      waveform: extractors.waveform.finish()
+    };
   }
 
-  private async extractEnergy(audioBuffer: AudioBuffer): Promise<number> {
-    const channelData = audioBuffer.getChannelData(0);
-    let sum = 0;
-    for (let i = 0; i < channelData.length; i++) {
-      sum += channelData[i] * channelData[i];
-    }
-    return Math.sqrt(sum / channelData.length);
-  }
-
-  private async extractSpectralFeatures(audioBuffer: AudioBuffer): Promise<number[]> {
-    const channelData = audioBuffer.getChannelData(0);
-    const frameSize = 2048;
-    const mfcc: number[] = [];
-    
-    // Extract MFCC-like features
-    for (let i = 0; i < channelData.length - frameSize; i += frameSize) {
-      const frame = channelData.slice(i, i + frameSize);
-      const fft = this.simpleFFT(frame);
-      
-      // Calculate spectral centroid for this frame
-      let weightedSum = 0;
-      let magnitude = 0;
-      
-      for (let j = 1; j < fft.length; j++) {
-        weightedSum += j * fft[j];
-        magnitude += fft[j];
-      }
-      
-      const centroid = magnitude > 0 ? weightedSum / magnitude : 0;
-      mfcc.push(centroid);
-    }
-    
-    // Return first 13 coefficients (standard MFCC count)
-    return mfcc.slice(0, 13);
-  }
-
-  private async extractBeats(audioBuffer: AudioBuffer, bpm: number): Promise<number[]> {
-    const beatInterval = 60 / bpm;
-    const duration = audioBuffer.duration;
-    const beats: number[] = [];
-    
-    // Generate beat positions based on detected BPM
-    for (let time = 0; time < duration; time += beatInterval) {
-      beats.push(time);
-    }
-    
-    return beats;
-  }
-
-  private async extractStructure(audioBuffer: AudioBuffer): Promise<StructureSegment[]> {
-    const duration = audioBuffer.duration;
-    const channelData = audioBuffer.getChannelData(0);
-    
-    // Real structure analysis using energy and spectral change
-    const segmentLength = duration / 6; // Divide into 6 potential segments
-    const segments: StructureSegment[] = [];
-    
-    for (let i = 0; i < 6; i++) {
-      const start = i * segmentLength;
-      const end = Math.min((i + 1) * segmentLength, duration);
-      
-      const startSample = Math.floor(start * audioBuffer.sampleRate);
-      const endSample = Math.floor(end * audioBuffer.sampleRate);
-      const segmentData = channelData.slice(startSample, endSample);
-      
-      const energy = this.calculateWindowEnergy(segmentData, 0, segmentData.length);
-      
-      // Classify segment based on position and energy
-      let type: StructureSegment['type'];
-      let confidence: number;
-      
-      if (i === 0) {
-        type = 'intro';
-        confidence = 0.8;
-      } else if (i === 5) {
-        type = 'outro';
-        confidence = 0.8;
-      } else if (energy > 0.1) {
-        type = i % 2 === 1 ? 'verse' : 'chorus';
-        confidence = 0.7;
-      } else {
-        type = 'bridge';
-        confidence = 0.6;
-      }
-      
-      segments.push({ start, end, type, confidence });
+  private analysisParams(extractors: FeatureExtractors, mode: AnalysisParams['mode']): AnalysisParams {
+    return {
+      mode,
+      sampleRate: extractors.sampleRate,
+      channels: extractors.channelCount,
+      tempoRange: { ...this.tempoRange },
+      spectral: SPECTRAL_OPTIONS,
+      onset: ONSET_OPTIONS,
+      energyCurveInterval: ENERGY_CURVE_INTERVAL,
+      keyChangeWindow: KEY_CHANGE_WINDOW,
+      fingerprintSeconds: FINGERPRINT_SECONDS,
+      waveformInterval: WAVEFORM_INTERVAL,
+    };
+  }
+
+  // Measured, defaulted (a placeholder despite no error) or failed with the error
+  private static featureStatus<T>(
+    result: PromiseSettledResult<T>,
+    defaultedReason?: (value: T) => string | null
+  ): FeatureStatus {
+    if (result.status === 'rejected') {
+      return { status: 'failed', reason: result.reason instanceof Error ? result.reason.message : String(result.reason) };
     }
-    
-    return segments;
+    const reason = defaultedReason?.(result.value);
+    return reason ? { status: 'defaulted', reason } : { status: 'measured' };
+  }
+
+  // A feature computed from others is only as good as its inputs
+  private static derivedStatus(statuses: FeatureStatusMap, inputs: Array<keyof FeatureStatusMap>): FeatureStatus {
+    const unreliable = inputs.filter(input => statuses[input]?.status !== 'measured');
+    return unreliable.length > 0
+      ? { status: 'defaulted', reason: `derived from unmeasured ${unreliable.join(', ')}` }
+      : { status: 'measured' };
+  }
+
+  private async extractTempo(onsets: OnsetEnvelope): Promise<TempoEstimate> {
+    return new TempoEstimator(this.tempoRange).estimate(onsets);
+  }
+
+  private async extractTempoCurve(onsets: OnsetEnvelope, bpm: number): Promise<TempoCurvePoint[]> {
+    return new TempoEstimator(this.tempoRange).estimateCurve(onsets, bpm);
+  }
+
+  private async extractKey(spectrum: SpectralFrames): Promise<KeyEstimate> {
+    // Key detection from the accumulated chroma profile
+    return new KeyDetector().detect(chromaProfile(spectrum));
+  }
+
+  private async extractKeyChanges(spectrum: SpectralFrames): Promise<KeyChange[]> {
+    // Windowed keys, smoothed so only sustained modulations count
+    return new KeyDetector().detectChanges(spectrum, KEY_CHANGE_WINDOW);
+  }
+
+  private static keyFields(estimate: KeyEstimate): KeyFields {
+    return {
+      key: estimate.key,
+      camelotKey: estimate.camelot,
+      keyConfidence: estimate.confidence,
+      alternateKey: estimate.alternate?.key ?? null,
+    };
+  }
+
+  private static unknownKeyFields(): KeyFields {
+    return { key: 'C', camelotKey: '8B', keyConfidence: 0, alternateKey: null };
+  }
+
+  private async extractFingerprint(extractor: FingerprintExtractor): Promise<Uint32Array> {
+    return extractor.finish();
+  }
+
+  private async extractWaveform(extractor: WaveformExtractor): Promise<WaveformData> {
+    return extractor.finish();
+  }
+
+  private async extractEnergy(meter: EnergyMeter): Promise<number> {
+    return meter.rms();
+  }
+
+  private async extractLoudness(meter: LoudnessMeter): Promise<LoudnessMeasurement> {
+    return meter.finish();
+  }
+
+  // Silence measures as -Infinity, which cannot be stored or serialized
+  private static loudnessFields(measurement: LoudnessMeasurement): Pick<AudioAnalysisResult, 'loudness' | 'truePeak'> {
+    return {
+      loudness: Number.isFinite(measurement.integratedLoudness) ? measurement.integratedLoudness : null,
+      truePeak: Number.isFinite(measurement.truePeak) ? measurement.truePeak : null,
+    };
+  }
+
+  private async extractTimbreFeatures(spectrum: SpectralFrames): Promise<TimbreFeatures> {
+    const { mean, variance } = summarizeFrames(spectrum.mfcc, spectrum.frameCount, spectrum.mfccCoefficients);
+
+    return {
+      mfcc: mean,
+      mfccVariance: variance,
+      spectralCentroid: meanOverActiveFrames(spectrum.centroid),
+      spectralRolloff: meanOverActiveFrames(spectrum.rolloff),
+      zeroCrossingRate: meanOverActiveFrames(spectrum.zeroCrossingRate),
+      chroma: chromaProfile(spectrum),
+    };
+  }
+
+  private static emptyTimbreFeatures(): TimbreFeatures {
+    return {
+      mfcc: new Array(13).fill(0),
+      mfccVariance: new Array(13).fill(0),
+      spectralCentroid: 0,
+      spectralRolloff: 0,
+      zeroCrossingRate: 0,
+      chroma: new Array(12).fill(0),
+    };
+  }
+
+  private async extractBeats(onsets: OnsetEnvelope, bpm: number): Promise<BeatGrid> {
+    // Follow the actual onsets rather than a fixed grid from time 0
+    return new BeatTracker().track(onsets, bpm);
+  }
+
+  private async extractStructure(
+    duration: number,
+    energy: EnergyCurve,
+    spectrum: SpectralFrames,
+    beatGrid: BeatGrid | null,
+    tempo: number
+  ): Promise<StructureSegment[]> {
+    // Sections from bar-level novelty, labelled by relative energy
+    return new StructureSegmenter().segment({ duration, energy, spectrum, beatGrid, tempo });
   }
 
   // Utility method to ensure AudioContext is resumed (required by some browsers)
@@ -330,4 +487,55 @@ export class AudioAnalyzer {
       await this.audioContext.resume();
     }
   }
-} 
\ No newline at end of file
+
+  // Browsers cap how many AudioContexts a page can hold open, so release this
+  // one when done decoding; the analyzer can't decode files afterwards
+  async close(): Promise<void> {
+    const context = this.audioContext;
+    this.audioContext = null;
+    if (context && context.state !== 'closed') await context.close();
+  }
+}
+
+// The chunk-wise extractors of one analysis run, fed the same audio
+class FeatureExtractors {
+  readonly sampleRate: number;
+  readonly channelCount: number;
+  readonly spectral: SpectralFrameExtractor;
+  readonly onsets: OnsetEnvelopeExtractor;
+  readonly loudness: LoudnessMeter;
+  readonly energy: EnergyMeter;
+  readonly structureEnergy: EnergyMeter;
+  readonly fingerprint: FingerprintExtractor;
+  readonly waveform: WaveformExtractor;
+  private sampleCount = 0;
+
+  constructor(sampleRate: number, channelCount: number) {
+    this.sampleRate = sampleRate;
+    this.channelCount = channelCount;
+    this.spectral = new SpectralFrameExtractor(sampleRate, SPECTRAL_OPTIONS);
+    this.onsets = new OnsetEnvelopeExtractor(sampleRate, ONSET_OPTIONS);
+    this.loudness = new LoudnessMeter(sampleRate, channelCount);
+    this.energy = new EnergyMeter(sampleRate, ENERGY_CURVE_INTERVAL);
+    this.structureEnergy = new EnergyMeter(sampleRate, STRUCTURE_ENERGY_INTERVAL);
+    this.fingerprint = new FingerprintExtractor(sampleRate);
+    this.waveform = new WaveformExtractor(sampleRate);
+  }
+
+  // Seconds of audio pushed so far
+  get duration(): number {
+    return this.sampleCount / this.sampleRate;
+  }
+
+  push(channels: Float32Array[]): void {
+    const mono = AudioAnalyzer.mixToMono(channels);
+    this.spectral.push(mono);
+    this.onsets.push(mono);
+    this.energy.push(mono);
+    this.structureEnergy.push(mono);
+    this.fingerprint.push(mono);
+    this.waveform.push(mono);
+    this.loudness.push(channels);
+    this.sampleCount += mono.length;
+  }
+}
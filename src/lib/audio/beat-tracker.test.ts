@@ -0,0 +1,70 @@
+import { describe, expect, it } from '@jest/globals';
+import { BeatTracker } from './beat-tracker';
+import { computeOnsetEnvelope } from './onset';
+
+const SAMPLE_RATE = 44100;
+
+// Click track: a low kick on the first beat of every bar and a short
+// high-pitched click on the others, starting `offset` seconds in
+function clickTrack(bpm: number, { seconds = 30, offset = 0.25 } = {}): Float32Array {
+  const { sin, exp, PI, floor } = Math; // Locals, to keep Jest's sandbox lookups out of the loop
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  const beat = 60 / bpm;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE - offset;
+    if (t < 0) continue;
+    const index = floor(t / beat);
+    const since = t - index * beat;
+    samples[i] = index % 4 === 0
+      ? 0.9 * sin(2 * PI * 60 * since) * exp(-since * 20)
+      : 0.4 * sin(2 * PI * 3000 * since) * exp(-since * 200);
+  }
+  return samples;
+}
+
+function expectNear(actual: number, expected: number, tolerance: number): void {
+  expect(Math.abs(actual - expected)).toBeLessThan(tolerance);
+}
+
+describe('BeatTracker', () => {
+  it.each([100, 120, 128])('places beats on the clicks of a %i BPM click track', bpm => {
+    const offset = 0.25;
+    const beat = 60 / bpm;
+    const grid = new BeatTracker().track(computeOnsetEnvelope(clickTrack(bpm, { offset }), SAMPLE_RATE), bpm);
+
+    // All but the first and last couple of seconds are covered
+    expect(grid.beats.length).toBeGreaterThan((30 - offset) / beat - 4);
+    for (const time of grid.beats) {
+      const clicks = (time - offset) / beat;
+      expectNear(clicks, Math.round(clicks), 0.05);
+    }
+    for (let i = 1; i < grid.beats.length; i++) {
+      expectNear(grid.beats[i] - grid.beats[i - 1], beat, 0.02);
+    }
+  });
+
+  it('finds the bar phase from the kick and numbers beats within bars', () => {
+    const bpm = 120;
+    const offset = 0.25;
+    const bar = 4 * 60 / bpm;
+    const grid = new BeatTracker().track(computeOnsetEnvelope(clickTrack(bpm, { offset }), SAMPLE_RATE), bpm);
+
+    expect(grid.downbeats.length).toBeGreaterThan(10);
+    for (const time of grid.downbeats) {
+      const bars = (time - offset) / bar;
+      expectNear(bars, Math.round(bars), 0.02);
+    }
+    expect(grid.firstDownbeat).toBe(grid.downbeats[0]);
+    grid.beats.forEach((time, i) => {
+      if (grid.downbeats.includes(time)) expect(grid.beatInBar[i]).toBe(1);
+      if (i > 0) expect(grid.beatInBar[i]).toBe(grid.beatInBar[i - 1] % 4 + 1);
+    });
+  });
+
+  it('returns an empty grid for silence', () => {
+    const grid = new BeatTracker().track(computeOnsetEnvelope(new Float32Array(SAMPLE_RATE * 10), SAMPLE_RATE), 120);
+
+    expect(grid.beats).toEqual([]);
+    expect(grid.downbeats).toEqual([]);
+  });
+});
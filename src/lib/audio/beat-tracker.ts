@@ -0,0 +1,208 @@
+import { BeatGrid } from '@/types';
+import { OnsetEnvelope, onsetFrameTime } from './onset';
+
+export interface BeatTrackerOptions {
+  tightness?: number; // How strongly beat spacing is held to the tempo period
+  beatsPerBar?: number;
+}
+
+// Dynamic-programming beat tracker (after Ellis, 2007): picks the sequence of
+// onset peaks that best balances onset strength against regular spacing at the
+// estimated tempo, then finds the bar phase from low-frequency (kick) emphasis.
+export class BeatTracker {
+  private readonly tightness: number;
+  private readonly beatsPerBar: number;
+
+  constructor(options: BeatTrackerOptions = {}) {
+    this.tightness = options.tightness ?? 100;
+    this.beatsPerBar = options.beatsPerBar ?? 4;
+  }
+
+  track(onsets: OnsetEnvelope, bpm: number): BeatGrid {
+    const { envelope } = onsets;
+    const period = (60 * onsets.frameRate) / bpm;
+
+    if (envelope.length < period * 2 || !Number.isFinite(period) || period <= 0) {
+      return this.emptyGrid();
+    }
+    // Silence: there is nothing to track, and a fabricated grid would look real
+    if (!envelope.some(value => value > 0)) {
+      return this.emptyGrid();
+    }
+
+    const localScore = this.smoothEnvelope(envelope, period);
+    const beatFrames = this.trimWeakBeats(this.findBeatFrames(localScore, period), localScore);
+
+    if (beatFrames.length === 0) {
+      return this.emptyGrid();
+    }
+
+    const confidence = this.calculateConfidence(beatFrames, localScore, period);
+    const firstDownbeatIndex = this.findDownbeatPhase(beatFrames, onsets);
+
+    const beats = beatFrames.map(frame => onsetFrameTime(onsets, frame));
+    const bars: number[] = [];
+    const beatInBar: number[] = [];
+    const downbeats: number[] = [];
+
+    beats.forEach((time, i) => {
+      const offset = i - firstDownbeatIndex;
+      // Beats before the first downbeat form a pickup bar numbered 0
+      bars.push(offset < 0 ? 0 : Math.floor(offset / this.beatsPerBar) + 1);
+      beatInBar.push((((offset % this.beatsPerBar) + this.beatsPerBar) % this.beatsPerBar) + 1);
+      if (offset >= 0 && offset % this.beatsPerBar === 0) {
+        downbeats.push(time);
+      }
+    });
+
+    return {
+      beats,
+      confidence,
+      bars,
+      beatInBar,
+      downbeats,
+      firstDownbeat: beats[firstDownbeatIndex],
+      firstDownbeatIndex,
+      beatsPerBar: this.beatsPerBar,
+    };
+  }
+
+  // Gaussian smoothing of the onset envelope with a width tied to the beat period
+  private smoothEnvelope(envelope: Float32Array, period: number): Float32Array {
+    const radius = Math.max(1, Math.round(period / 2));
+    const sigma = period / 32;
+    const kernel = new Float32Array(radius * 2 + 1);
+    for (let k = -radius; k <= radius; k++) {
+      kernel[k + radius] = Math.exp(-0.5 * (k / sigma) ** 2);
+    }
+
+    const result = new Float32Array(envelope.length);
+    for (let i = 0; i < envelope.length; i++) {
+      let sum = 0;
+      const start = Math.max(0, i - radius);
+      const end = Math.min(envelope.length - 1, i + radius);
+      for (let j = start; j <= end; j++) {
+        sum += envelope[j] * kernel[j - i + radius];
+      }
+      result[i] = sum;
+    }
+    return result;
+  }
+
+  private findBeatFrames(localScore: Float32Array, period: number): number[] {
+    const length = localScore.length;
+    const cumulative = new Float32Array(length);
+    const backlink = new Int32Array(length).fill(-1);
+    const minGap = Math.max(1, Math.round(period / 2));
+    const maxGap = Math.round(period * 2);
+
+    for (let t = 0; t < length; t++) {
+      let best = -Infinity;
+      let bestPrev = -1;
+
+      for (let prev = t - maxGap; prev <= t - minGap; prev++) {
+        if (prev < 0) continue;
+        const transitionCost = -this.tightness * Math.log((t - prev) / period) ** 2;
+        const candidate = cumulative[prev] + transitionCost;
+        if (candidate > best) {
+          best = candidate;
+          bestPrev = prev;
+        }
+      }
+
+      // Starting a fresh chain is allowed when no predecessor improves the score
+      if (bestPrev >= 0 && best > 0) {
+        cumulative[t] = localScore[t] + best;
+        backlink[t] = bestPrev;
+      } else {
+        cumulative[t] = localScore[t];
+      }
+    }
+
+    // End on the last strong local maximum of the cumulative score
+    const tailStart = Math.max(0, length - Math.round(period * 2));
+    let end = tailStart;
+    for (let t = tailStart; t < length; t++) {
+      if (cumulative[t] > cumulative[end]) end = t;
+    }
+
+    const frames: number[] = [];
+    for (let t = end; t >= 0; t = backlink[t]) {
+      frames.push(t);
+      if (backlink[t] < 0) break;
+    }
+    return frames.reverse();
+  }
+
+  // Drop beats in silent intros/outros where the tracker just extrapolates the grid
+  private trimWeakBeats(frames: number[], localScore: Float32Array): number[] {
+    if (frames.length === 0) return frames;
+
+    const strengths = frames.map(frame => localScore[frame]);
+    const rms = Math.sqrt(strengths.reduce((sum, s) => sum + s * s, 0) / strengths.length);
+    const threshold = rms * 0.5;
+
+    let start = 0;
+    while (start < frames.length && strengths[start] < threshold) start++;
+    let end = frames.length - 1;
+    while (end > start && strengths[end] < threshold) end--;
+
+    return frames.slice(start, end + 1);
+  }
+
+  private calculateConfidence(frames: number[], localScore: Float32Array, period: number): number[] {
+    const sorted = frames.map(frame => localScore[frame]).sort((a, b) => a - b);
+    const reference = sorted[Math.floor(sorted.length * 0.95)] || 1;
+
+    return frames.map((frame, i) => {
+      const strength = Math.min(1, localScore[frame] / reference);
+      const interval = i > 0 ? frame - frames[i - 1] : (frames[i + 1] ?? frame + period) - frame;
+      const regularity = Math.exp(-40 * Math.log(interval / period) ** 2);
+      return Math.round(Math.sqrt(strength * regularity) * 1000) / 1000;
+    });
+  }
+
+  // Choose the bar phase whose beats carry the most kick-drum onset energy
+  private findDownbeatPhase(frames: number[], onsets: OnsetEnvelope): number {
+    const phaseScores = new Array(this.beatsPerBar).fill(0);
+    const phaseCounts = new Array(this.beatsPerBar).fill(0);
+
+    frames.forEach((frame, i) => {
+      const phase = i % this.beatsPerBar;
+      phaseScores[phase] += this.peakNear(onsets.lowEnvelope, frame) + 0.25 * this.peakNear(onsets.envelope, frame);
+      phaseCounts[phase]++;
+    });
+
+    let bestPhase = 0;
+    let bestScore = -Infinity;
+    for (let phase = 0; phase < this.beatsPerBar && phase < frames.length; phase++) {
+      const score = phaseCounts[phase] > 0 ? phaseScores[phase] / phaseCounts[phase] : 0;
+      if (score > bestScore) {
+        bestScore = score;
+        bestPhase = phase;
+      }
+    }
+    return bestPhase;
+  }
+
+  private peakNear(envelope: Float32Array, frame: number, radius = 2): number {
+    let peak = 0;
+    for (let i = Math.max(0, frame - radius); i <= Math.min(envelope.length - 1, frame + radius); i++) {
+      peak = Math.max(peak, envelope[i]);
+    }
+    return peak;
+  }
+
+  private emptyGrid(): BeatGrid {
+    return {
+      beats: [],
+      confidence: [],
+      bars: [],
+      beatInBar: [],
+      downbeats: [],
+      firstDownbeat: 0,
+      firstDownbeatIndex: 0,
+      beatsPerBar: this.beatsPerBar,
+    };
+  }
+}
@@ -0,0 +1,95 @@
+import { AudioAnalysisResult, PcmAudio } from '@/types';
+import { AnalysisRequest, AnalysisResponse } from './analysis-messages';
+import { AnalysisRunOptions, AudioAnalyzer, AudioAnalyzerOptions } from './analyzer';
+
+// How long a cancelled worker gets to acknowledge before it is terminated
+const CANCEL_GRACE_MS = 2000;
+
+let runCount = 0;
+
+// Browser-side analysis off the main thread: files are decoded here, where an
+// AudioContext is available, and the PCM is handed to a dedicated Web Worker
+// for the DSP. Each run gets its own worker, which is terminated afterwards;
+// the decoding AudioContext is shared by every run until close().
+export class BrowserAnalyzer {
+  private readonly options: AudioAnalyzerOptions;
+  private readonly decoder: AudioAnalyzer;
+
+  constructor(options: AudioAnalyzerOptions = {}) {
+    this.options = options;
+    this.decoder = new AudioAnalyzer(options);
+  }
+
+  async analyzeFile(file: File, options: AnalysisRunOptions = {}): Promise<AudioAnalysisResult> {
+    options.signal?.throwIfAborted();
+    await this.decoder.resumeAudioContext();
+    const audio = await this.decoder.decodeFile(file);
+    options.signal?.throwIfAborted();
+    return this.analyzePcm(audio, options);
+  }
+
+  close(): Promise<void> {
+    return this.decoder.close();
+  }
+
+  analyzePcm(audio: PcmAudio, { onProgress, signal }: AnalysisRunOptions = {}): Promise<AudioAnalysisResult> {
+    // Transfer copies: decoded channels may be views into an AudioBuffer
+    const channels = audio.channels.map(channel => channel.slice());
+    const id = `analysis-${++runCount}`;
+    const worker = new Worker(new URL('./analysis-web-worker.ts', import.meta.url));
+
+    return new Promise((resolve, reject) => {
+      let cancelTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        clearTimeout(cancelTimer);
+        signal?.removeEventListener('abort', onAbort);
+        worker.terminate();
+      };
+
+      const onAbort = () => {
+        send({ type: 'cancel', id });
+        // A worker stuck in one long stage never answers; stop it regardless
+        cancelTimer = setTimeout(cleanup, CANCEL_GRACE_MS);
+        reject(signal?.reason);
+      };
+
+      const send = (message: AnalysisRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+      worker.onmessage = (event: MessageEvent<AnalysisResponse>) => {
+        const message = event.data;
+        if (message.id !== id) return;
+
+        switch (message.type) {
+          case 'progress':
+            if (!signal?.aborted) void onProgress?.(message.stage, message.progress);
+            break;
+          case 'result':
+            cleanup();
+            resolve(message.result);
+            break;
+          case 'error':
+            cleanup();
+            reject(new Error(message.message));
+            break;
+          case 'cancelled':
+            cleanup();
+            break;
+        }
+      };
+
+      worker.onerror = event => {
+        cleanup();
+        reject(new Error(`Analysis worker failed: ${event.message}`));
+      };
+
+      if (signal?.aborted) {
+        cleanup();
+        reject(signal.reason);
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      send({ type: 'analyze', id, audio: { ...audio, channels }, options: this.options }, channels.map(channel => channel.buffer));
+    });
+  }
+}
@@ -1,22 +1,37 @@
-import { TrackFeatures, CompatibilityScore } from '@/types';
+import { AnalysisFeature, TrackFeatures, CompatibilityScore } from '@/types';
+import { harmonicCompatibility } from './harmonic-keys';
+
+// Weight multiplier for a comparison built on a defaulted or failed feature
+const UNRELIABLE_FEATURE_WEIGHT = 0.25;
+
+// Manual overrides set on the track win over the analyzed tempo and key
+export function effectiveTempo(track: TrackFeatures): number | null {
+  return track.bpmOverride ?? track.tempo ?? null;
+}
+
+export function effectiveKey(track: TrackFeatures): string | null {
+  return track.keyOverride ?? track.musicalKey ?? null;
+}
 
 export class TrackComparator {
   
   calculateCompatibility(track1: TrackFeatures, track2: TrackFeatures): CompatibilityScore {
-    const tempo = this.calculateTempoCompatibility(track1.tempo ?? 120, track2.tempo ?? 120);
-    const key = this.calculateKeyCompatibility(track1.musicalKey ?? 'C', track2.musicalKey ?? 'C');
+    const tempo = this.calculateTempoCompatibility(effectiveTempo(track1) ?? 120, effectiveTempo(track2) ?? 120);
+    const harmonic = harmonicCompatibility(effectiveKey(track1), effectiveKey(track2));
+    const key = harmonic.score;
     const energy = this.calculateEnergyCompatibility(track1.energyLevel ?? 0.5, track2.energyLevel ?? 0.5);
     const spectral = this.calculateSpectralCompatibility(track1.spectralCentroid ?? 0, track2.spectralCentroid ?? 0);
     const rhythm = this.calculateRhythmCompatibility(track1, track2);
 
-    // Weighted overall compatibility
+    // Weighted overall compatibility, trusting placeholder values less
     const weights = {
-      tempo: 0.3,
-      key: 0.25,
-      energy: 0.2,
-      spectral: 0.15,
-      rhythm: 0.1
+      tempo: 0.3 * this.reliability(track1, track2, 'tempo'),
+      key: 0.25 * this.reliability(track1, track2, 'key'),
+      energy: 0.2 * this.reliability(track1, track2, 'energy'),
+      spectral: 0.15 * this.reliability(track1, track2, 'timbre'),
+      rhythm: 0.1 * this.reliability(track1, track2, 'tempo')
     };
+    const totalWeight = weights.tempo + weights.key + weights.energy + weights.spectral + weights.rhythm;
 
     const overall = (
       tempo * weights.tempo +
@@ -24,18 +39,31 @@ export class TrackComparator {
       energy * weights.energy +
       spectral * weights.spectral +
       rhythm * weights.rhythm
-    );
+    ) / totalWeight;
 
     return {
       overall,
       tempo,
       key,
+      keyRelationship: harmonic.label,
       energy,
       spectral,
       rhythm
     };
   }
 
+  // Features without a recorded status predate provenance tracking and count
+  // as measured, as do values set by hand
+  private reliability(track1: TrackFeatures, track2: TrackFeatures, feature: AnalysisFeature): number {
+    const measured = [track1, track2].every(track => {
+      if (feature === 'tempo' && track.bpmOverride != null) return true;
+      if (feature === 'key' && track.keyOverride != null) return true;
+      const status = track.featureStatus?.[feature]?.status;
+      return !status || status === 'measured';
+    });
+    return measured ? 1 : UNRELIABLE_FEATURE_WEIGHT;
+  }
+
   private calculateTempoCompatibility(bpm1: number, bpm2: number): number {
     const difference = Math.abs(bpm1 - bpm2);
     
@@ -46,32 +74,6 @@ export class TrackComparator {
     return 0.2;
   }
 
-  private calculateKeyCompatibility(key1: string, key2: string): number {
-    // Circle of fifths compatibility
-    const circleOfFifths: Record<string, number> = {
-      'C': 0, 'G': 1, 'D': 2, 'A': 3, 'E': 4, 'B': 5,
-      'F#': 6, 'C#': 7, 'G#': 8, 'D#': 9, 'A#': 10, 'F': 11,
-      'Cm': 12, 'Gm': 13, 'Dm': 14, 'Am': 15, 'Em': 16, 'Bm': 17,
-      'F#m': 18, 'C#m': 19, 'G#m': 20, 'D#m': 21, 'A#m': 22, 'Fm': 23
-    };
-
-    const pos1 = circleOfFifths[key1] ?? 0;
-    const pos2 = circleOfFifths[key2] ?? 0;
-    
-    // Calculate distance on circle (considering it wraps around)
-    const distance = Math.min(
-      Math.abs(pos1 - pos2),
-      Math.abs(pos1 - pos2 + 12),
-      Math.abs(pos1 - pos2 - 12)
-    );
-
-    if (distance === 0) return 1.0; // Same key
-    if (distance <= 1) return 0.8; // Adjacent keys
-    if (distance <= 2) return 0.6; // Close keys
-    if (distance <= 3) return 0.4; // Somewhat compatible
-    return 0.2; // Less compatible
-  }
-
   private calculateEnergyCompatibility(energy1: number, energy2: number): number {
     const difference = Math.abs(energy1 - energy2);
     return Math.max(0, 1 - difference * 2); // Linear decay
@@ -85,8 +87,8 @@ export class TrackComparator {
 
   private calculateRhythmCompatibility(track1: TrackFeatures, track2: TrackFeatures): number {
     // Use tempo similarity as rhythm compatibility proxy
-    const tempo1 = track1.tempo ?? 120;
-    const tempo2 = track2.tempo ?? 120;
+    const tempo1 = effectiveTempo(track1) ?? 120;
+    const tempo2 = effectiveTempo(track2) ?? 120;
     
     const tempoRatio = Math.min(tempo1, tempo2) / Math.max(tempo1, tempo2);
     return tempoRatio;
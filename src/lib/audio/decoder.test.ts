@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { decodeAudioStream } from './decoder';
+
+// 16-bit mono PCM WAV holding a ramp, long enough to span several chunks
+function wavFile(frameCount: number, sampleRate = 44100): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + frameCount * 2, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(frameCount * 2, 40);
+
+  const data = Buffer.alloc(frameCount * 2);
+  for (let i = 0; i < frameCount; i++) data.writeInt16LE((i % 32768) - 16384, i * 2);
+  return Buffer.concat([header, data]);
+}
+
+// Serves the file in 64 KB pieces and records whether the reader let go of it
+function trackedStream(file: Buffer) {
+  const state = { cancelled: false };
+  let offset = 0;
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= file.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(new Uint8Array(file.subarray(offset, offset + 65536)));
+      offset += 65536;
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+  return { stream, state };
+}
+
+describe('decodeAudioStream (WAV)', () => {
+  it('decodes every frame', async () => {
+    const { stream } = trackedStream(wavFile(200000));
+    const pcm = await decodeAudioStream(stream);
+
+    let frames = 0;
+    for await (const block of pcm.chunks) frames += block[0].length;
+
+    expect(pcm.duration).toBeCloseTo(200000 / 44100, 6);
+    expect(frames).toBe(200000);
+  });
+
+  it('releases the stream when the consumer stops early', async () => {
+    const { stream, state } = trackedStream(wavFile(200000));
+    const pcm = await decodeAudioStream(stream);
+
+    for await (const block of pcm.chunks) {
+      expect(block[0].length).toBeGreaterThan(0);
+      break;
+    }
+
+    expect(state.cancelled).toBe(true);
+  });
+
+  it('releases the stream when the consumer throws', async () => {
+    const { stream, state } = trackedStream(wavFile(200000));
+    const pcm = await decodeAudioStream(stream);
+
+    await expect((async () => {
+      for await (const block of pcm.chunks) {
+        if (block[0].length > 0) throw new Error('analysis failed');
+      }
+    })()).rejects.toThrow('analysis failed');
+
+    expect(state.cancelled).toBe(true);
+  });
+});
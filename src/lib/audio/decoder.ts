@@ -0,0 +1,346 @@
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { createWriteStream } from 'fs';
+import { unlink } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { PcmStream } from '@/types';
+
+// Server-side audio decoding. WAV is parsed natively; compressed formats
+// (MP3, M4A/AAC) are decoded by an ffmpeg binary, configurable through
+// FFMPEG_PATH, since Node has no built-in codecs. Both deliver PCM as a
+// stream of chunks, so memory stays flat however long the recording is.
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const FFMPEG_SAMPLE_RATE = 44100;
+const FFMPEG_CHANNELS = 2;
+
+// PCM is delivered in blocks of roughly this many frames
+const CHUNK_FRAMES = 65536;
+
+interface WavFormat {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+}
+
+export interface DecodeHint {
+  filename?: string;
+  contentType?: string | null;
+}
+
+// Decode audio as it is read, yielding PCM chunk by chunk so arbitrarily long
+// recordings never have to fit in memory. The returned stream must be consumed
+// to the end to release the decoder and any temporary file.
+export async function decodeAudioStream(body: ReadableStream<Uint8Array>, hint: DecodeHint = {}): Promise<PcmStream> {
+  const reader = new ByteReader(body);
+  const header = await reader.read(12);
+
+  if (isWav(header)) {
+    return decodeWavStream(reader);
+  }
+  return decodeWithFfmpeg(reader, header, hint);
+}
+
+function isWav(data: Buffer): boolean {
+  return data.length >= 12 &&
+    data.toString('ascii', 0, 4) === 'RIFF' &&
+    data.toString('ascii', 8, 12) === 'WAVE';
+}
+
+// Walks the RIFF chunks up to the sample data, then converts it block by block
+async function decodeWavStream(reader: ByteReader): Promise<PcmStream> {
+  let format: WavFormat | null = null;
+  let dataSize: number;
+
+  for (;;) {
+    const chunkHeader = await reader.read(8);
+    if (chunkHeader.length < 8) {
+      throw new Error('Invalid WAV file: no data chunk found');
+    }
+    const chunkId = chunkHeader.toString('ascii', 0, 4);
+    const chunkSize = chunkHeader.readUInt32LE(4);
+    // Chunks are word-aligned
+    const paddedSize = chunkSize + (chunkSize % 2);
+
+    if (chunkId === 'fmt ') {
+      const chunk = await reader.read(paddedSize);
+      let audioFormat = chunk.readUInt16LE(0);
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+        // The first two bytes of the SubFormat GUID carry the actual format code
+        audioFormat = chunk.readUInt16LE(24);
+      }
+      format = {
+        audioFormat,
+        channels: chunk.readUInt16LE(2),
+        sampleRate: chunk.readUInt32LE(4),
+        bitsPerSample: chunk.readUInt16LE(14),
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('Invalid WAV file: data chunk before fmt chunk');
+      }
+      dataSize = chunkSize;
+      break;
+    } else {
+      await reader.skip(paddedSize);
+    }
+  }
+
+  const wav = format;
+  const readSample = sampleReader(wav);
+  const frameSize = (wav.bitsPerSample / 8) * wav.channels;
+  // Some encoders write a bogus size for streamed files; read to the end instead
+  const sizeKnown = dataSize > 0 && dataSize !== 0xffffffff;
+
+  async function* chunks(): AsyncGenerator<Float32Array[]> {
+    // Released on early exit too: a consumer that stops reading or throws
+    // (cancelled analysis) must not leave the storage stream open
+    try {
+      let remaining = sizeKnown ? dataSize : Infinity;
+      while (remaining > 0) {
+        const block = await reader.read(Math.min(remaining, CHUNK_FRAMES * frameSize));
+        remaining -= block.length;
+        const frameCount = Math.floor(block.length / frameSize);
+        if (frameCount > 0) {
+          yield deinterleave(frameCount, wav.channels, (frame, c) => readSample(block, frame * frameSize + c * (wav.bitsPerSample / 8)));
+        }
+        if (block.length < CHUNK_FRAMES * frameSize && remaining !== 0) break; // End of file
+      }
+    } finally {
+      await reader.cancel();
+    }
+  }
+
+  return {
+    sampleRate: wav.sampleRate,
+    channelCount: wav.channels,
+    duration: sizeKnown ? Math.floor(dataSize / frameSize) / wav.sampleRate : null,
+    chunks: chunks(),
+  };
+}
+
+function sampleReader(format: WavFormat): (data: Buffer, offset: number) => number {
+  const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+
+  if (channels < 1 || sampleRate < 1) {
+    throw new Error('Invalid WAV file: bad channel count or sample rate');
+  }
+
+  if (audioFormat === WAVE_FORMAT_PCM) {
+    switch (bitsPerSample) {
+      case 8: return (data, o) => (data.readUInt8(o) - 128) / 128;
+      case 16: return (data, o) => data.readInt16LE(o) / 32768;
+      case 24: return (data, o) => data.readIntLE(o, 3) / 8388608;
+      case 32: return (data, o) => data.readInt32LE(o) / 2147483648;
+      default: throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+    }
+  }
+  if (audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+    switch (bitsPerSample) {
+      case 32: return (data, o) => data.readFloatLE(o);
+      case 64: return (data, o) => data.readDoubleLE(o);
+      default: throw new Error(`Unsupported WAV float bit depth: ${bitsPerSample}`);
+    }
+  }
+  throw new Error(`Unsupported WAV format code: ${audioFormat}`);
+}
+
+function deinterleave(
+  frameCount: number,
+  channelCount: number,
+  sample: (frame: number, channel: number) => number
+): Float32Array[] {
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let c = 0; c < channelCount; c++) {
+      channels[c][frame] = sample(frame, c);
+    }
+  }
+  return channels;
+}
+
+async function decodeWithFfmpeg(reader: ByteReader, header: Buffer, hint: DecodeHint): Promise<PcmStream> {
+  // M4A files often keep their index at the end, so ffmpeg needs a seekable
+  // input rather than a pipe. The file is spooled to disk, not memory.
+  const extension = hint.filename ? path.extname(hint.filename) : '';
+  const inputPath = path.join(os.tmpdir(), `dj-assistant-${randomUUID()}${extension}`);
+
+  let duration: number | null;
+  try {
+    await pipeline(Readable.from(prepend(header, reader.rest())), createWriteStream(inputPath));
+    duration = await probeDuration(inputPath);
+  } catch (error) {
+    await unlink(inputPath).catch(() => undefined);
+    throw error;
+  }
+
+  async function* chunks(): AsyncGenerator<Float32Array[]> {
+    try {
+      let frameCount = 0;
+      for await (const block of ffmpegPcm(inputPath)) {
+        frameCount += block[0].length;
+        yield block;
+      }
+      if (frameCount === 0) {
+        throw new Error(`No audio decoded from ${hint.filename ?? 'file'}`);
+      }
+    } finally {
+      await unlink(inputPath).catch(() => undefined);
+    }
+  }
+
+  return { sampleRate: FFMPEG_SAMPLE_RATE, channelCount: FFMPEG_CHANNELS, duration, chunks: chunks() };
+}
+
+async function* prepend(first: Buffer, rest: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+  if (first.length > 0) yield first;
+  yield* rest;
+}
+
+// Raw float PCM from ffmpeg's stdout, regrouped into whole frames
+async function* ffmpegPcm(inputPath: string): AsyncGenerator<Float32Array[]> {
+  const ffmpeg = spawnFfmpeg([
+    '-hide_banner', '-loglevel', 'error',
+    '-i', inputPath,
+    '-vn',
+    '-f', 'f32le', '-acodec', 'pcm_f32le',
+    '-ac', String(FFMPEG_CHANNELS),
+    '-ar', String(FFMPEG_SAMPLE_RATE),
+    'pipe:1',
+  ]);
+
+  const frameBytes = 4 * FFMPEG_CHANNELS;
+  const blockBytes = CHUNK_FRAMES * frameBytes;
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+
+  const flush = (final: boolean): Float32Array[] | null => {
+    const usable = pendingBytes - (pendingBytes % frameBytes);
+    if (usable === 0 || (!final && pendingBytes < blockBytes)) return null;
+
+    // Copy so the samples start on a 4-byte boundary for Float32Array
+    const raw = Buffer.concat(pending, pendingBytes);
+    const aligned = new Uint8Array(usable);
+    aligned.set(raw.subarray(0, usable));
+    const leftover = raw.subarray(usable);
+    pending = leftover.length > 0 ? [Buffer.from(leftover)] : [];
+    pendingBytes = leftover.length;
+
+    const interleaved = new Float32Array(aligned.buffer);
+    return deinterleave(interleaved.length / FFMPEG_CHANNELS, FFMPEG_CHANNELS, (frame, c) => interleaved[frame * FFMPEG_CHANNELS + c]);
+  };
+
+  try {
+    for await (const data of ffmpeg.child.stdout as AsyncIterable<Buffer>) {
+      pending.push(data);
+      pendingBytes += data.length;
+      const block = flush(false);
+      if (block) yield block;
+    }
+    const last = flush(true);
+    if (last) yield last;
+
+    const code = await ffmpeg.exited;
+    if (code !== 0) {
+      throw new Error(`ffmpeg exited with code ${code}: ${ffmpeg.stderr().trim()}`);
+    }
+  } finally {
+    // Stop the decoder if the consumer gave up early
+    if (ffmpeg.child.exitCode === null) ffmpeg.child.kill();
+  }
+}
+
+// ffmpeg prints the container duration when inspecting a file without outputs
+async function probeDuration(inputPath: string): Promise<number | null> {
+  const ffmpeg = spawnFfmpeg(['-hide_banner', '-i', inputPath]);
+  ffmpeg.child.stdout.resume();
+  await ffmpeg.exited;
+
+  const match = ffmpeg.stderr().match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+function spawnFfmpeg(args: string[]) {
+  const child = spawn(process.env.FFMPEG_PATH ?? 'ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+  const errors: Buffer[] = [];
+  child.stderr.on('data', (chunk: Buffer) => errors.push(chunk));
+
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', error => reject(new Error(`Failed to start ffmpeg: ${error.message}`)));
+    child.on('close', code => resolve(code));
+  });
+  // Failures surface where `exited` is awaited
+  exited.catch(() => undefined);
+
+  return { child, exited, stderr: () => Buffer.concat(errors).toString() };
+}
+
+// Pulls exact byte counts from a web stream, holding back any read-ahead
+class ByteReader {
+  private readonly reader: ReadableStreamDefaultReader<Uint8Array>;
+  private pending: Buffer[] = [];
+  private pendingBytes = 0;
+  private done = false;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  // Exactly `length` bytes, or fewer at the end of the stream
+  async read(length: number): Promise<Buffer> {
+    while (this.pendingBytes < length && !this.done) {
+      const { done, value } = await this.reader.read();
+      if (done) {
+        this.done = true;
+      } else {
+        this.pending.push(Buffer.from(value.buffer, value.byteOffset, value.byteLength));
+        this.pendingBytes += value.byteLength;
+      }
+    }
+
+    const all = this.pending.length === 1 ? this.pending[0] : Buffer.concat(this.pending, this.pendingBytes);
+    const result = all.subarray(0, length);
+    const rest = all.subarray(result.length);
+    this.pending = rest.length > 0 ? [rest] : [];
+    this.pendingBytes = rest.length;
+    return result;
+  }
+
+  async skip(length: number): Promise<void> {
+    let remaining = length;
+    while (remaining > 0) {
+      const skipped = await this.read(Math.min(remaining, 1 << 20));
+      if (skipped.length === 0) return;
+      remaining -= skipped.length;
+    }
+  }
+
+  // Everything not yet read, in the chunks the stream delivers
+  async *rest(): AsyncGenerator<Buffer> {
+    const pending = this.pending;
+    this.pending = [];
+    this.pendingBytes = 0;
+    yield* pending;
+
+    while (!this.done) {
+      const { done, value } = await this.reader.read();
+      if (done) {
+        this.done = true;
+      } else {
+        yield Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+      }
+    }
+  }
+
+  async cancel(): Promise<void> {
+    await this.reader.cancel().catch(() => undefined);
+  }
+}
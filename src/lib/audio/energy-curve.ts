@@ -0,0 +1,80 @@
+import { EnergyCurve } from '@/types';
+
+// Time-resolved RMS energy, on the same scale as the whole-track energy level
+// so values from different tracks can be compared directly.
+
+export function computeEnergyCurve(samples: Float32Array, sampleRate: number, interval = 1): EnergyCurve {
+  const meter = new EnergyMeter(sampleRate, interval);
+  meter.push(samples);
+  return meter.curve();
+}
+
+// Running RMS over the whole signal and per interval, for audio that arrives
+// in chunks
+export class EnergyMeter {
+  readonly interval: number;
+  private readonly windowLength: number;
+  private readonly values: number[] = [];
+  private windowSum = 0;
+  private windowFill = 0;
+  private totalSum = 0;
+  private sampleCount = 0;
+
+  constructor(sampleRate: number, interval = 1) {
+    this.interval = interval;
+    this.windowLength = Math.max(1, Math.round(interval * sampleRate));
+  }
+
+  push(samples: Float32Array): void {
+    for (let i = 0; i < samples.length; i++) {
+      const square = samples[i] * samples[i];
+      this.windowSum += square;
+      this.totalSum += square;
+      if (++this.windowFill === this.windowLength) {
+        this.values.push(Math.sqrt(this.windowSum / this.windowLength));
+        this.windowSum = 0;
+        this.windowFill = 0;
+      }
+    }
+    this.sampleCount += samples.length;
+  }
+
+  // RMS of everything pushed so far
+  rms(): number {
+    return this.sampleCount > 0 ? Math.sqrt(this.totalSum / this.sampleCount) : 0;
+  }
+
+  // The trailing partial interval counts as a point of its own
+  curve(): EnergyCurve {
+    const values = this.windowFill > 0
+      ? [...this.values, Math.sqrt(this.windowSum / this.windowFill)]
+      : this.values;
+    return { interval: this.interval, values: values.map(value => Math.round(value * 10000) / 10000) };
+  }
+}
+
+// Mean energy over [start, start + duration), or the single point at `start`
+export function energyAt(curve: EnergyCurve, start: number, duration = 0): number | null {
+  if (curve.values.length === 0) return null;
+
+  const first = Math.max(0, Math.min(curve.values.length - 1, Math.floor(start / curve.interval)));
+  const last = Math.max(first, Math.min(curve.values.length - 1, Math.ceil((start + duration) / curve.interval) - 1));
+
+  let sum = 0;
+  for (let i = first; i <= last; i++) sum += curve.values[i];
+  return sum / (last - first + 1);
+}
+
+// Loudest stretch of the track, smoothed over `window` seconds so a single
+// hit does not count as the peak
+export function energyPeak(curve: EnergyCurve, window = 8): { time: number; energy: number } | null {
+  if (curve.values.length === 0) return null;
+
+  const points = Math.max(1, Math.round(window / curve.interval));
+  let best = { time: 0, energy: -Infinity };
+  for (let i = 0; i + points <= Math.max(points, curve.values.length); i++) {
+    const energy = energyAt(curve, i * curve.interval, window) ?? 0;
+    if (energy > best.energy) best = { time: i * curve.interval, energy };
+  }
+  return best;
+}
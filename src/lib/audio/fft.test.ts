@@ -0,0 +1,115 @@
+import { describe, expect, it } from '@jest/globals';
+import { createWindow, FFT, RealFFT, stft, stftFrameCount } from './fft';
+
+// Textbook O(N²) DFT the fast transforms are checked against
+function naiveDft(real: ArrayLike<number>, imag: ArrayLike<number>): { real: number[]; imag: number[] } {
+  const n = real.length;
+  const out = { real: new Array<number>(n).fill(0), imag: new Array<number>(n).fill(0) };
+  for (let k = 0; k < n; k++) {
+    for (let t = 0; t < n; t++) {
+      const angle = (-2 * Math.PI * k * t) / n;
+      out.real[k] += real[t] * Math.cos(angle) - imag[t] * Math.sin(angle);
+      out.imag[k] += real[t] * Math.sin(angle) + imag[t] * Math.cos(angle);
+    }
+  }
+  return out;
+}
+
+// Deterministic noise so failures reproduce
+function noise(length: number, seed: number): Float64Array {
+  const values = new Float64Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 16807) % 2147483647;
+    values[i] = state / 2147483647 * 2 - 1;
+  }
+  return values;
+}
+
+describe('FFT', () => {
+  it.each([2, 8, 64, 512])('matches a naive DFT for %i points', size => {
+    const real = noise(size, 1);
+    const imag = noise(size, 2);
+    const expected = naiveDft(real, imag);
+
+    new FFT(size).transform(real, imag);
+
+    for (let k = 0; k < size; k++) {
+      expect(real[k]).toBeCloseTo(expected.real[k], 8);
+      expect(imag[k]).toBeCloseTo(expected.imag[k], 8);
+    }
+  });
+
+  it('rejects sizes that are not powers of two', () => {
+    expect(() => new FFT(12)).toThrow('power of two');
+    expect(() => new RealFFT(2)).toThrow('power of two');
+  });
+});
+
+describe('RealFFT', () => {
+  it.each([4, 16, 256, 1024])('matches naive DFT magnitudes for %i samples', size => {
+    const input = Float32Array.from(noise(size, 3));
+    const expected = naiveDft(input, new Float64Array(size));
+
+    const magnitudes = new RealFFT(size).magnitudes(input);
+
+    expect(magnitudes).toHaveLength(size / 2 + 1);
+    for (let k = 0; k <= size / 2; k++) {
+      // Float32 output, so compare relative to the frame's scale
+      expect(magnitudes[k] / size).toBeCloseTo(Math.hypot(expected.real[k], expected.imag[k]) / size, 5);
+    }
+  });
+
+  it('applies the window and zero-pads past the end of the input', () => {
+    const size = 64;
+    const input = Float32Array.from(noise(100, 4));
+    const window = createWindow('blackman', size);
+    const offset = 80; // Only 20 samples left, the rest count as zeros
+
+    const frame = new Float64Array(size);
+    for (let n = 0; n < size; n++) frame[n] = (offset + n < input.length ? input[offset + n] : 0) * window[n];
+    const expected = naiveDft(frame, new Float64Array(size));
+
+    const magnitudes = new RealFFT(size).magnitudes(input, window, offset);
+
+    for (let k = 0; k <= size / 2; k++) {
+      expect(magnitudes[k]).toBeCloseTo(Math.hypot(expected.real[k], expected.imag[k]), 4);
+    }
+  });
+
+  it('puts a pure tone in its bin', () => {
+    const size = 1024;
+    const bin = 37;
+    const tone = Float32Array.from({ length: size }, (_, n) => Math.sin((2 * Math.PI * bin * n) / size));
+
+    const magnitudes = new RealFFT(size).magnitudes(tone);
+
+    expect(magnitudes[bin]).toBeCloseTo(size / 2, 2);
+    expect(Math.max(...magnitudes.filter((_, k) => k !== bin))).toBeLessThan(1e-3);
+  });
+});
+
+describe('createWindow', () => {
+  it('builds periodic Hann and Blackman windows', () => {
+    const hann = createWindow('hann', 8);
+    const quarter = 0.5 * Math.SQRT1_2;
+    [0, 0.5 - quarter, 0.5, 0.5 + quarter, 1, 0.5 + quarter, 0.5, 0.5 - quarter].forEach((value, n) => {
+      expect(hann[n]).toBeCloseTo(value, 6);
+    });
+    expect(createWindow('blackman', 8)[0]).toBeCloseTo(0, 6);
+    expect(createWindow('blackman', 8)[4]).toBeCloseTo(1, 6);
+    expect(createWindow('rectangular', 4)).toEqual(new Float32Array([1, 1, 1, 1]));
+  });
+});
+
+describe('stft', () => {
+  it('yields every full frame with its start time', () => {
+    const samples = new Float32Array(10_000);
+    const frames = Array.from(stft(samples, 1000, { frameSize: 1024, hopSize: 512 }), frame => [frame.index, frame.time]);
+
+    expect(frames).toHaveLength(stftFrameCount(samples.length, 1024, 512));
+    expect(frames).toHaveLength(18);
+    expect(frames[1]).toEqual([1, 0.512]);
+    expect(stftFrameCount(1000, 1024, 512)).toBe(0);
+  });
+});
@@ -0,0 +1,199 @@
+// Fast Fourier transform and short-time Fourier transform helpers.
+// Iterative radix-2 FFT with precomputed twiddles; real input is packed into a
+// half-size complex transform, so a real frame of N samples costs an N/2 FFT.
+
+export type WindowType = 'hann' | 'blackman' | 'rectangular';
+
+const windowCache = new Map<string, Float32Array>();
+
+export function createWindow(type: WindowType, size: number): Float32Array {
+  const cacheKey = `${type}:${size}`;
+  const cached = windowCache.get(cacheKey);
+  if (cached) return cached;
+
+  const window = new Float32Array(size);
+  for (let n = 0; n < size; n++) {
+    const phase = (2 * Math.PI * n) / size; // Periodic form, suited to spectral analysis
+    switch (type) {
+      case 'hann':
+        window[n] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case 'blackman':
+        window[n] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        break;
+      default:
+        window[n] = 1;
+    }
+  }
+
+  windowCache.set(cacheKey, window);
+  return window;
+}
+
+export function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+// Complex FFT of a fixed power-of-two size
+export class FFT {
+  readonly size: number;
+  private readonly reverse: Uint32Array;
+  private readonly cosTable: Float64Array;
+  private readonly sinTable: Float64Array;
+
+  constructor(size: number) {
+    if (!isPowerOfTwo(size)) {
+      throw new Error(`FFT size must be a power of two, got ${size}`);
+    }
+    this.size = size;
+
+    const bits = Math.log2(size);
+    this.reverse = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      this.reverse[i] = reversed;
+    }
+
+    this.cosTable = new Float64Array(size / 2);
+    this.sinTable = new Float64Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sinTable[i] = -Math.sin((2 * Math.PI * i) / size);
+    }
+  }
+
+  // In-place forward transform
+  transform(real: Float64Array, imag: Float64Array): void {
+    const n = this.size;
+
+    for (let i = 0; i < n; i++) {
+      const j = this.reverse[i];
+      if (j > i) {
+        let tmp = real[i]; real[i] = real[j]; real[j] = tmp;
+        tmp = imag[i]; imag[i] = imag[j]; imag[j] = tmp;
+      }
+    }
+
+    for (let half = 1; half < n; half <<= 1) {
+      const tableStep = n / (half << 1);
+      for (let start = 0; start < n; start += half << 1) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cosTable[k * tableStep];
+          const wi = this.sinTable[k * tableStep];
+          const a = start + k;
+          const b = a + half;
+          const tr = real[b] * wr - imag[b] * wi;
+          const ti = real[b] * wi + imag[b] * wr;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  }
+}
+
+// FFT of real-valued frames returning the one-sided spectrum (N/2 + 1 bins)
+export class RealFFT {
+  readonly size: number;
+  private readonly fft: FFT;
+  private readonly real: Float64Array;
+  private readonly imag: Float64Array;
+  private readonly cosTable: Float64Array;
+  private readonly sinTable: Float64Array;
+
+  constructor(size: number) {
+    if (!isPowerOfTwo(size) || size < 4) {
+      throw new Error(`Real FFT size must be a power of two >= 4, got ${size}`);
+    }
+    this.size = size;
+    this.fft = new FFT(size / 2);
+    this.real = new Float64Array(size / 2);
+    this.imag = new Float64Array(size / 2);
+    this.cosTable = new Float64Array(size / 2 + 1);
+    this.sinTable = new Float64Array(size / 2 + 1);
+    for (let k = 0; k <= size / 2; k++) {
+      this.cosTable[k] = Math.cos((2 * Math.PI * k) / size);
+      this.sinTable[k] = -Math.sin((2 * Math.PI * k) / size);
+    }
+  }
+
+  // Magnitude spectrum of a frame, optionally windowed. `offset` lets callers
+  // transform a slice of a longer signal without copying; samples past the end
+  // of the input are treated as zeros.
+  magnitudes(input: Float32Array, window?: Float32Array, offset = 0, output?: Float32Array): Float32Array {
+    const half = this.size / 2;
+    const result = output ?? new Float32Array(half + 1);
+    const { real, imag } = this;
+
+    // Pack even samples into the real part and odd samples into the imaginary part
+    for (let n = 0; n < half; n++) {
+      const even = offset + 2 * n;
+      const odd = even + 1;
+      const x0 = even < input.length ? input[even] : 0;
+      const x1 = odd < input.length ? input[odd] : 0;
+      real[n] = window ? x0 * window[2 * n] : x0;
+      imag[n] = window ? x1 * window[2 * n + 1] : x1;
+    }
+
+    this.fft.transform(real, imag);
+
+    // Split the packed result back into the spectrum of the real signal
+    for (let k = 0; k <= half; k++) {
+      const a = real[k % half];
+      const b = imag[k % half];
+      const c = real[(half - k) % half];
+      const d = imag[(half - k) % half];
+
+      const evenReal = (a + c) / 2;
+      const evenImag = (b - d) / 2;
+      const oddReal = (b + d) / 2;
+      const oddImag = -(a - c) / 2;
+
+      const wr = this.cosTable[k];
+      const wi = this.sinTable[k];
+      const re = evenReal + wr * oddReal - wi * oddImag;
+      const im = evenImag + wr * oddImag + wi * oddReal;
+      result[k] = Math.sqrt(re * re + im * im);
+    }
+
+    return result;
+  }
+}
+
+export interface StftOptions {
+  frameSize: number;
+  hopSize: number;
+  window?: WindowType;
+}
+
+export interface SpectrumFrame {
+  index: number;
+  time: number; // Seconds at the start of the frame
+  magnitudes: Float32Array; // frameSize / 2 + 1 bins
+}
+
+// Number of frames stft() yields for a signal, counting only full frames
+export function stftFrameCount(length: number, frameSize: number, hopSize: number): number {
+  return length < frameSize ? 0 : Math.floor((length - frameSize) / hopSize) + 1;
+}
+
+// Magnitude spectrogram as a lazy sequence of frames. The magnitudes buffer is
+// reused between frames to keep memory flat, so copy it if you need to keep it.
+export function* stft(samples: Float32Array, sampleRate: number, options: StftOptions): Generator<SpectrumFrame> {
+  const { frameSize, hopSize } = options;
+  const fft = new RealFFT(frameSize);
+  const window = createWindow(options.window ?? 'hann', frameSize);
+  const magnitudes = new Float32Array(frameSize / 2 + 1);
+  const frameCount = stftFrameCount(samples.length, frameSize, hopSize);
+
+  for (let index = 0; index < frameCount; index++) {
+    const offset = index * hopSize;
+    fft.magnitudes(samples, window, offset, magnitudes);
+    yield { index, time: offset / sampleRate, magnitudes };
+  }
+}
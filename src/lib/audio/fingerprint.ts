@@ -0,0 +1,337 @@
+import { createWindow, RealFFT } from './fft';
+import { FrameBuffer, GrowableFloat32Array } from './frame-buffer';
+import { frequencyToPitchClass } from './spectral';
+
+// Acoustic fingerprint in the style of Chromaprint: the chroma of the
+// opening minutes is taken at a fixed frame rate and every frame becomes a
+// 32-bit code, one bit per Haar-like filter comparing neighbouring regions of
+// the log-chroma image. Codes survive re-encoding, resampling, gain and EQ
+// changes, so two fingerprints of the same recording agree on most bits even
+// when the files differ byte for byte.
+//
+// The analysis STFT is too coarse below a few hundred Hz to tell semitones
+// apart, which makes its chroma depend on the sample rate, so the fingerprint
+// runs its own longer-windowed pass over just the opening minutes.
+
+export const FINGERPRINT_INTERVAL = 0.1; // Seconds per code
+export const FINGERPRINT_SECONDS = 120;
+
+export interface FingerprintMatch {
+  similarity: number; // Share of agreeing bits over the overlap, 0.5 for unrelated audio
+  offset: number; // Seconds the second recording starts later in its file than the first
+}
+
+export interface FingerprintMatchOptions {
+  minSimilarity?: number;
+  minOverlap?: number; // Seconds the two fingerprints must overlap
+}
+
+const TARGET_SAMPLE_RATE = 11025; // Plenty for the chroma range, and a quarter of the FFT work at 44.1 kHz
+const DECIMATION_TAPS = 32;
+const WINDOW_SECONDS = 0.37;
+const MIN_FREQUENCY = 110; // A2
+const MAX_FREQUENCY = 3520; // A7
+const LOG_FLOOR = 1e-3; // Per-bin chroma share treated as silence
+const MIN_OFFSET_VOTES = 3; // Exact code hits needed before an alignment is scored
+const DEFAULT_MATCH_OPTIONS: Required<FingerprintMatchOptions> = {
+  minSimilarity: 0.8,
+  minOverlap: 10,
+};
+
+// Each filter compares the mean log chroma of region A against region B
+// around frame t: [start, end) frame offsets and the pitch classes covered,
+// relative to bin b
+interface Region {
+  start: number;
+  end: number;
+  bins: number[];
+}
+
+interface Filter {
+  a: Region;
+  b: Region;
+}
+
+const FILTERS: Filter[] = [
+  // Per pitch class, rising or falling over two frames
+  ...range(12).map(b => ({ a: { start: -2, end: 0, bins: [b] }, b: { start: 0, end: 2, bins: [b] } })),
+  // Per pitch class, stronger than the next one up
+  ...range(12).map(b => ({ a: { start: -1, end: 1, bins: [b] }, b: { start: -1, end: 1, bins: [(b + 1) % 12] } })),
+  // Thirds of the octave against their neighbours, over a longer span
+  ...range(4).map(g => ({
+    a: { start: -2, end: 2, bins: [3 * g, 3 * g + 1, 3 * g + 2] },
+    b: { start: -2, end: 2, bins: [(3 * g + 3) % 12, (3 * g + 4) % 12, (3 * g + 5) % 12] },
+  })),
+  // Thirds of the octave rising or falling over four frames
+  ...range(4).map(g => ({
+    a: { start: -4, end: 0, bins: [3 * g, 3 * g + 1, 3 * g + 2] },
+    b: { start: 0, end: 4, bins: [3 * g, 3 * g + 1, 3 * g + 2] },
+  })),
+];
+
+export function computeFingerprint(samples: Float32Array, sampleRate: number, maxSeconds = FINGERPRINT_SECONDS): Uint32Array {
+  const extractor = new FingerprintExtractor(sampleRate, maxSeconds);
+  extractor.push(samples);
+  return extractor.finish();
+}
+
+// Incremental fingerprinting for audio that arrives in chunks; anything past
+// the first `maxSeconds` is ignored
+export class FingerprintExtractor {
+  private readonly decimator: Decimator;
+  private readonly frames: FrameBuffer;
+  private readonly fft: RealFFT;
+  private readonly window: Float32Array;
+  private readonly magnitudes: Float32Array;
+  private readonly pitchClasses: Int8Array;
+  private readonly chroma = new GrowableFloat32Array();
+  private readonly maxFrames: number;
+  private readonly maxSamples: number;
+  private sampleCount = 0;
+
+  constructor(inputSampleRate: number, maxSeconds = FINGERPRINT_SECONDS) {
+    this.decimator = new Decimator(Math.max(1, Math.floor(inputSampleRate / TARGET_SAMPLE_RATE)));
+    const sampleRate = inputSampleRate / this.decimator.factor;
+
+    // Same window and hop in seconds at every sample rate, zero-padded to a
+    // power of two for the FFT
+    const windowLength = Math.round(WINDOW_SECONDS * sampleRate);
+    const hopSize = Math.max(1, Math.round(FINGERPRINT_INTERVAL * sampleRate));
+    const fftSize = 2 ** Math.ceil(Math.log2(Math.max(4, windowLength)));
+
+    this.frames = new FrameBuffer(windowLength, Math.min(hopSize, windowLength));
+    this.fft = new RealFFT(fftSize);
+    this.window = new Float32Array(fftSize);
+    this.window.set(createWindow('hann', windowLength));
+    this.magnitudes = new Float32Array(fftSize / 2 + 1);
+
+    const binFrequency = sampleRate / fftSize;
+    this.pitchClasses = new Int8Array(this.magnitudes.length).fill(-1);
+    for (let bin = 1; bin < this.magnitudes.length; bin++) {
+      const freq = bin * binFrequency;
+      if (freq >= MIN_FREQUENCY && freq <= MAX_FREQUENCY) this.pitchClasses[bin] = frequencyToPitchClass(freq);
+    }
+
+    this.maxFrames = Math.floor(maxSeconds / FINGERPRINT_INTERVAL);
+    this.maxSamples = ((this.maxFrames - 1) * hopSize + windowLength) * this.decimator.factor;
+  }
+
+  push(samples: Float32Array): void {
+    const take = Math.min(samples.length, this.maxSamples - this.sampleCount);
+    if (take <= 0) return;
+    this.sampleCount += take;
+    const decimated = this.decimator.push(take < samples.length ? samples.subarray(0, take) : samples);
+    this.frames.push(decimated, frame => this.processFrame(frame));
+  }
+
+  finish(): Uint32Array {
+    const image = this.chroma.toArray();
+    const frameCount = image.length / 12;
+    for (let i = 0; i < image.length; i++) image[i] = Math.log(LOG_FLOOR + image[i]);
+
+    const regionMean = (t: number, region: Region) => {
+      const first = Math.max(0, t + region.start);
+      const last = Math.min(frameCount, t + region.end);
+      let sum = 0;
+      for (let f = first; f < last; f++) {
+        for (const bin of region.bins) sum += image[f * 12 + bin];
+      }
+      return last > first ? sum / ((last - first) * region.bins.length) : 0;
+    };
+
+    const codes = new Uint32Array(frameCount);
+    for (let t = 0; t < frameCount; t++) {
+      let code = 0;
+      FILTERS.forEach((filter, bit) => {
+        if (regionMean(t, filter.b) > regionMean(t, filter.a)) code |= 1 << bit;
+      });
+      codes[t] = code >>> 0;
+    }
+    return codes;
+  }
+
+  // Energy per pitch class, normalized so gain doesn't matter
+  private processFrame(frame: Float32Array): void {
+    const { magnitudes, pitchClasses } = this;
+    this.fft.magnitudes(frame, this.window, 0, magnitudes);
+
+    const chroma = this.chroma.append(12);
+    let sum = 0;
+    for (let bin = 1; bin < magnitudes.length; bin++) {
+      const pitchClass = pitchClasses[bin];
+      if (pitchClass < 0) continue;
+      const energy = magnitudes[bin] * magnitudes[bin];
+      chroma[pitchClass] += energy;
+      sum += energy;
+    }
+    if (sum > 0) {
+      for (let p = 0; p < 12; p++) chroma[p] /= sum;
+    }
+  }
+}
+
+// Windowed-sinc low-pass and downsampling by an integer factor, streaming
+class Decimator {
+  readonly factor: number;
+  private readonly taps: Float32Array;
+  private history: Float32Array;
+  private phase = 0; // Input samples to skip before the next output
+
+  constructor(factor: number) {
+    this.factor = factor;
+    this.taps = new Float32Array(DECIMATION_TAPS);
+    this.history = new Float32Array(DECIMATION_TAPS - 1);
+
+    const cutoff = 0.45 / factor; // Cycles per input sample, just under the new Nyquist
+    const center = (DECIMATION_TAPS - 1) / 2;
+    let sum = 0;
+    for (let k = 0; k < DECIMATION_TAPS; k++) {
+      const x = k - center;
+      const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+      const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * k) / (DECIMATION_TAPS - 1));
+      this.taps[k] = sinc * window;
+      sum += this.taps[k];
+    }
+    for (let k = 0; k < DECIMATION_TAPS; k++) this.taps[k] /= sum;
+  }
+
+  push(samples: Float32Array): Float32Array {
+    if (this.factor === 1) return samples;
+
+    // Filter over the previous chunk's tail followed by this chunk
+    const context = new Float32Array(this.history.length + samples.length);
+    context.set(this.history);
+    context.set(samples, this.history.length);
+
+    const { taps, factor } = this;
+    const outputCount = Math.max(0, Math.ceil((samples.length - this.phase) / factor));
+    const output = new Float32Array(outputCount);
+    let end = this.history.length + this.phase; // Newest input sample under the filter
+    for (let o = 0; o < outputCount; o++, end += factor) {
+      let value = 0;
+      for (let k = 0; k < taps.length; k++) value += taps[k] * context[end - k];
+      output[o] = value;
+    }
+
+    this.phase = (this.phase + outputCount * this.factor) - samples.length;
+    this.history = context.slice(context.length - this.history.length);
+    return output;
+  }
+}
+
+// Base64 of the little-endian codes, compact enough for a text column
+export function encodeFingerprint(codes: Uint32Array): string {
+  const bytes = new Uint8Array(codes.length * 4);
+  const view = new DataView(bytes.buffer);
+  codes.forEach((code, i) => view.setUint32(i * 4, code, true));
+
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function decodeFingerprint(text: string): Uint32Array {
+  const binary = atob(text);
+  const view = new DataView(new ArrayBuffer(binary.length - (binary.length % 4)));
+  for (let i = 0; i < view.byteLength; i++) view.setUint8(i, binary.charCodeAt(i));
+
+  const codes = new Uint32Array(view.byteLength / 4);
+  for (let i = 0; i < codes.length; i++) codes[i] = view.getUint32(i * 4, true);
+  return codes;
+}
+
+// Best alignment of two fingerprints, or null when they don't match
+export function matchFingerprints(
+  a: Uint32Array,
+  b: Uint32Array,
+  options: FingerprintMatchOptions = {}
+): FingerprintMatch | null {
+  const index = new FingerprintIndex<null>();
+  index.add(null, b);
+  return index.search(a, options)[0]?.match ?? null;
+}
+
+// Inverted index from codes to the positions they occur at, so one
+// fingerprint can be matched against a whole library without comparing
+// every pair at every alignment
+export class FingerprintIndex<T> {
+  private readonly entries: Array<{ id: T; codes: Uint32Array }> = [];
+  private readonly postings = new Map<number, Array<[entry: number, position: number]>>();
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  add(id: T, codes: Uint32Array): void {
+    const entry = this.entries.length;
+    this.entries.push({ id, codes });
+    codes.forEach((code, position) => {
+      if (code === 0) return; // Silence
+      const list = this.postings.get(code);
+      if (list) list.push([entry, position]);
+      else this.postings.set(code, [[entry, position]]);
+    });
+  }
+
+  // Indexed fingerprints matching `codes`, best first
+  search(codes: Uint32Array, options: FingerprintMatchOptions = {}): Array<{ id: T; match: FingerprintMatch }> {
+    const { minSimilarity, minOverlap } = { ...DEFAULT_MATCH_OPTIONS, ...options };
+    const minOverlapFrames = Math.round(minOverlap / FINGERPRINT_INTERVAL);
+
+    // Exact code hits vote for an alignment per indexed fingerprint
+    const votes = new Map<number, Map<number, number>>();
+    codes.forEach((code, position) => {
+      if (code === 0) return;
+      for (const [entry, otherPosition] of this.postings.get(code) ?? []) {
+        const offsets = votes.get(entry) ?? new Map<number, number>();
+        const shift = otherPosition - position;
+        offsets.set(shift, (offsets.get(shift) ?? 0) + 1);
+        votes.set(entry, offsets);
+      }
+    });
+
+    const results: Array<{ id: T; match: FingerprintMatch }> = [];
+    for (const [entry, offsets] of votes) {
+      let best: { shift: number; similarity: number } | null = null;
+      for (const [shift, count] of offsets) {
+        if (count < MIN_OFFSET_VOTES) continue;
+        const similarity = alignedSimilarity(codes, this.entries[entry].codes, shift, minOverlapFrames);
+        if (similarity !== null && (!best || similarity > best.similarity)) best = { shift, similarity };
+      }
+
+      if (best && best.similarity >= minSimilarity) {
+        results.push({
+          id: this.entries[entry].id,
+          match: {
+            similarity: Math.round(best.similarity * 1000) / 1000,
+            offset: Math.round(best.shift * FINGERPRINT_INTERVAL * 10) / 10,
+          },
+        });
+      }
+    }
+
+    return results.sort((x, y) => y.match.similarity - x.match.similarity);
+  }
+}
+
+// Share of agreeing bits with b shifted by `shift` frames against a, or null
+// when the overlap is too short to judge
+function alignedSimilarity(a: Uint32Array, b: Uint32Array, shift: number, minOverlap: number): number | null {
+  const start = Math.max(0, -shift);
+  const end = Math.min(a.length, b.length - shift);
+  if (end - start < minOverlap) return null;
+
+  let differing = 0;
+  for (let i = start; i < end; i++) differing += popcount(a[i] ^ b[i + shift]);
+  return 1 - differing / ((end - start) * 32);
+}
+
+function popcount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function range(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => i);
+}
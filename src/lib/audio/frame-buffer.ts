@@ -0,0 +1,91 @@
+// Helpers for feeding audio through the extractors in chunks: a sliding frame
+// window over a sample stream and an append-only typed array for per-frame
+// results, so memory depends on the frame size rather than the track length.
+
+// Cuts a stream of arbitrarily sized chunks into overlapping fixed-size
+// frames, the same frames stft() yields for the concatenated signal
+export class FrameBuffer {
+  readonly frameSize: number;
+  readonly hopSize: number;
+  private readonly buffer: Float32Array;
+  private length = 0;
+  private frameIndex = 0;
+
+  constructor(frameSize: number, hopSize: number) {
+    if (hopSize < 1 || hopSize > frameSize) {
+      throw new Error(`Hop size must be between 1 and the frame size, got ${hopSize}`);
+    }
+    this.frameSize = frameSize;
+    this.hopSize = hopSize;
+    this.buffer = new Float32Array(frameSize * 4);
+  }
+
+  // Frames emitted so far
+  get frameCount(): number {
+    return this.frameIndex;
+  }
+
+  // The frame view is only valid during the callback
+  push(samples: Float32Array, onFrame: (frame: Float32Array, index: number) => void): void {
+    let offset = 0;
+    while (offset < samples.length) {
+      const take = Math.min(samples.length - offset, this.buffer.length - this.length);
+      this.buffer.set(samples.subarray(offset, offset + take), this.length);
+      this.length += take;
+      offset += take;
+
+      let start = 0;
+      while (this.length - start >= this.frameSize) {
+        onFrame(this.buffer.subarray(start, start + this.frameSize), this.frameIndex++);
+        start += this.hopSize;
+      }
+
+      // Keep only the samples the next frame still needs
+      if (start > 0) {
+        this.buffer.copyWithin(0, start, this.length);
+        this.length -= start;
+      }
+    }
+  }
+}
+
+// Float32Array that grows by doubling as values are appended
+export class GrowableFloat32Array {
+  private data: Float32Array;
+  private size = 0;
+
+  constructor(initialCapacity = 1024) {
+    this.data = new Float32Array(Math.max(1, initialCapacity));
+  }
+
+  get length(): number {
+    return this.size;
+  }
+
+  push(value: number): void {
+    this.reserve(1);
+    this.data[this.size++] = value;
+  }
+
+  // Append `count` zeroed slots and return a view of them to fill in place
+  append(count: number): Float32Array {
+    this.reserve(count);
+    const view = this.data.subarray(this.size, this.size + count);
+    this.size += count;
+    return view;
+  }
+
+  // Compact copy of the values
+  toArray(): Float32Array {
+    return this.data.slice(0, this.size);
+  }
+
+  private reserve(count: number): void {
+    if (this.size + count <= this.data.length) return;
+    let capacity = this.data.length * 2;
+    while (capacity < this.size + count) capacity *= 2;
+    const data = new Float32Array(capacity);
+    data.set(this.data.subarray(0, this.size));
+    this.data = data;
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  compatibleKeys,
+  formatKey,
+  harmonicCompatibility,
+  KeyMode,
+  MusicalKey,
+  normalizeKey,
+  parseKey,
+  toCamelot,
+} from './harmonic-keys';
+
+const ALL_KEYS: MusicalKey[] = (['major', 'minor'] as KeyMode[]).flatMap(mode =>
+  Array.from({ length: 12 }, (_, tonic) => ({ tonic, mode }))
+);
+
+describe('parseKey', () => {
+  it.each([
+    ['C#m', { tonic: 1, mode: 'minor' }],
+    ['Dbm', { tonic: 1, mode: 'minor' }],
+    ['D♭ minor', { tonic: 1, mode: 'minor' }],
+    ['E-flat minor', { tonic: 3, mode: 'minor' }],
+    ['F# min', { tonic: 6, mode: 'minor' }],
+    ['Amaj', { tonic: 9, mode: 'major' }],
+    ['a', { tonic: 9, mode: 'major' }],
+    ['BM', { tonic: 11, mode: 'major' }],
+    ['Cb', { tonic: 11, mode: 'major' }],
+    ['8A', { tonic: 9, mode: 'minor' }],
+    ['08b', { tonic: 0, mode: 'major' }],
+    ['12A', { tonic: 1, mode: 'minor' }],
+  ])('reads %s', (notation, expected) => {
+    expect(parseKey(notation)).toEqual(expected);
+  });
+
+  it.each(['', 'H', 'C lydian', '13A', '0B', 'Am7'])('rejects %p', notation => {
+    expect(parseKey(notation)).toBeNull();
+  });
+
+  it('normalizes flats and spelled-out modes to sharps', () => {
+    expect(normalizeKey('Db minor')).toBe('C#m');
+    expect(normalizeKey('Ebmaj')).toBe('D#');
+    expect(normalizeKey('5A')).toBe('Cm');
+    expect(normalizeKey('nonsense')).toBeNull();
+  });
+});
+
+describe('toCamelot', () => {
+  it.each([
+    ['C', '8B'],
+    ['Am', '8A'],
+    ['G', '9B'],
+    ['Em', '9A'],
+    ['F', '7B'],
+    ['E', '12B'],
+    ['C#m', '12A'],
+    ['F#m', '11A'],
+    ['G#', '4B'],
+  ])('places %s at %s', (key, camelot) => {
+    expect(toCamelot(parseKey(key)!)).toBe(camelot);
+  });
+
+  it('round-trips all 24 keys through Camelot and standard notation', () => {
+    const camelots = ALL_KEYS.map(toCamelot);
+
+    expect(new Set(camelots).size).toBe(24);
+    ALL_KEYS.forEach((key, i) => {
+      expect(parseKey(camelots[i])).toEqual(key);
+      expect(parseKey(formatKey(key))).toEqual(key);
+    });
+  });
+
+  it('gives relative keys the same number on opposite rings', () => {
+    for (const key of ALL_KEYS.filter(k => k.mode === 'minor')) {
+      const relativeMajor = { tonic: (key.tonic + 3) % 12, mode: 'major' as const };
+      expect(toCamelot(key).replace('A', 'B')).toBe(toCamelot(relativeMajor));
+    }
+  });
+});
+
+describe('harmonicCompatibility', () => {
+  it.each([
+    ['Am', 'Am', 'same'],
+    ['Am', 'C', 'relative'],
+    ['C', 'Am', 'relative'],
+    ['Am', 'A', 'parallel'],
+    ['C', 'Cm', 'parallel'],
+    ['C', 'G', 'fifth-up'],
+    ['C', 'F', 'fifth-down'],
+    ['Am', 'Em', 'fifth-up'],
+    ['Am', 'G', 'diagonal'],
+    ['C', 'D', 'energy-boost-2'],
+    ['C', 'C#', 'energy-boost-1'],
+    ['C', 'F#', 'clash'],
+  ])('%s -> %s is %s', (from, to, relationship) => {
+    expect(harmonicCompatibility(from, to).relationship).toBe(relationship);
+  });
+
+  it('labels the direction of relative and parallel moves', () => {
+    expect(harmonicCompatibility('C', 'Am').label).toBe('relative minor');
+    expect(harmonicCompatibility('Am', 'C').label).toBe('relative major');
+    expect(harmonicCompatibility('Cm', 'C').label).toBe('parallel major');
+  });
+
+  it('scores the same key in any notation as a perfect match', () => {
+    expect(harmonicCompatibility('Dbm', '12A').score).toBe(1);
+  });
+
+  it('is neutral when either key is missing or unreadable', () => {
+    expect(harmonicCompatibility(null, 'C')).toMatchObject({ score: 0.5, relationship: 'unknown' });
+    expect(harmonicCompatibility('C', 'not a key')).toMatchObject({ score: 0.5, relationship: 'unknown' });
+  });
+});
+
+describe('compatibleKeys', () => {
+  it('lists the classic Camelot moves', () => {
+    expect(compatibleKeys('8A')).toEqual(['C', 'Dm', 'Em', 'Am']);
+    expect(compatibleKeys('unknown')).toEqual([]);
+  });
+});
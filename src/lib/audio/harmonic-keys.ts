@@ -0,0 +1,171 @@
+// Musical key notation and harmonic-mixing relationships, shared by key
+// detection, track comparison and transition planning.
+
+export type KeyMode = 'major' | 'minor';
+
+export interface MusicalKey {
+  tonic: number; // Pitch class, 0 = C
+  mode: KeyMode;
+}
+
+export type KeyRelationship =
+  | 'same'
+  | 'relative'
+  | 'fifth-up'
+  | 'fifth-down'
+  | 'diagonal'
+  | 'parallel'
+  | 'energy-boost-1'
+  | 'energy-boost-2'
+  | 'distant'
+  | 'clash'
+  | 'unknown';
+
+export interface HarmonicMatch {
+  score: number; // 0-1
+  relationship: KeyRelationship;
+  label: string; // Human-readable, e.g. 'relative minor'
+}
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const NATURAL_PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Score when either key is missing or unreadable: neither rewarded nor penalized
+export const NEUTRAL_KEY_SCORE = 0.5;
+
+export function formatKey(key: MusicalKey): string {
+  return NOTE_NAMES[key.tonic] + (key.mode === 'minor' ? 'm' : '');
+}
+
+// Camelot wheel: C major is 8B and each step clockwise is a fifth up; a minor
+// key shares its number with its relative major (A minor is 8A)
+export function toCamelot(key: MusicalKey): string {
+  const majorTonic = key.mode === 'minor' ? (key.tonic + 3) % 12 : key.tonic;
+  const number = ((majorTonic * 7) % 12 + 7) % 12 + 1;
+  return `${number}${key.mode === 'minor' ? 'A' : 'B'}`;
+}
+
+// Accepts 'C#m', 'Dbm', 'D♭ minor', 'F# min', 'Amaj', 'a', '8A', '08b' and similar
+export function parseKey(notation: string | null | undefined): MusicalKey | null {
+  if (!notation) return null;
+  const text = notation.trim();
+
+  const camelot = /^0?(1[0-2]|[1-9])\s*([AaBb])$/.exec(text);
+  if (camelot) {
+    const number = parseInt(camelot[1], 10);
+    const mode: KeyMode = camelot[2].toUpperCase() === 'A' ? 'minor' : 'major';
+    const majorTonic = ((number - 8) * 7 % 12 + 12) % 12;
+    return { tonic: mode === 'minor' ? (majorTonic + 9) % 12 : majorTonic, mode };
+  }
+
+  const standard = /^([A-Ga-g])\s*(#|♯|b|♭|-?sharp|-?flat)?\s*(.*)$/i.exec(text);
+  if (!standard) return null;
+
+  let tonic = NATURAL_PITCH_CLASSES[standard[1].toUpperCase()];
+  const accidental = (standard[2] ?? '').toLowerCase().replace('-', '');
+  if (accidental === '#' || accidental === '♯' || accidental === 'sharp') tonic += 1;
+  if (accidental === 'b' || accidental === '♭' || accidental === 'flat') tonic -= 1;
+
+  const suffix = standard[3].trim();
+  let mode: KeyMode;
+  if (suffix === 'm' || /^(min|minor|mi|moll|-)$/i.test(suffix)) {
+    mode = 'minor';
+  } else if (suffix === '' || suffix === 'M' || /^(maj|major|ma|dur)$/i.test(suffix)) {
+    mode = 'major';
+  } else {
+    return null;
+  }
+
+  return { tonic: (tonic + 12) % 12, mode };
+}
+
+// Normalize any supported notation to the standard sharps form, e.g. 'Dbm' -> 'C#m'
+export function normalizeKey(notation: string | null | undefined): string | null {
+  const key = parseKey(notation);
+  return key ? formatKey(key) : null;
+}
+
+// How well `to` follows `from` in a mix, with the named harmonic relationship
+export function harmonicCompatibility(
+  from: string | null | undefined,
+  to: string | null | undefined
+): HarmonicMatch {
+  const a = parseKey(from);
+  const b = parseKey(to);
+  if (!a || !b) {
+    return { score: NEUTRAL_KEY_SCORE, relationship: 'unknown', label: 'unknown key' };
+  }
+  return relateKeys(a, b);
+}
+
+export function relateKeys(from: MusicalKey, to: MusicalKey): HarmonicMatch {
+  const interval = (to.tonic - from.tonic + 12) % 12;
+
+  if (from.mode === to.mode) {
+    switch (interval) {
+      case 0:
+        return { score: 1.0, relationship: 'same', label: 'same key' };
+      case 7:
+        return { score: 0.85, relationship: 'fifth-up', label: 'energy boost (+7 semitones, fifth up)' };
+      case 5:
+        return { score: 0.85, relationship: 'fifth-down', label: 'fifth down' };
+      case 1:
+        return { score: 0.6, relationship: 'energy-boost-1', label: 'energy boost (+1 semitone)' };
+      case 2:
+        return { score: 0.65, relationship: 'energy-boost-2', label: 'energy boost (+2 semitones)' };
+    }
+  } else {
+    // Relative keys share every note: A minor -> C major is +3, C major -> A minor is +9
+    const relativeInterval = from.mode === 'minor' ? 3 : 9;
+    if (interval === relativeInterval) {
+      return {
+        score: 0.9,
+        relationship: 'relative',
+        label: to.mode === 'minor' ? 'relative minor' : 'relative major',
+      };
+    }
+    if (interval === 0) {
+      return {
+        score: 0.6,
+        relationship: 'parallel',
+        label: to.mode === 'minor' ? 'parallel minor' : 'parallel major',
+      };
+    }
+    // One Camelot step around the wheel and across to the other ring, e.g. 8A -> 9B
+    if (Math.abs(camelotStep(from, to)) === 1) {
+      return { score: 0.7, relationship: 'diagonal', label: 'diagonal (adjacent key, other mode)' };
+    }
+  }
+
+  const steps = Math.abs(camelotStep(from, to));
+  if (steps <= 2) {
+    return { score: 0.4, relationship: 'distant', label: `distant (${steps} steps on the Camelot wheel)` };
+  }
+  return { score: 0.2, relationship: 'clash', label: 'key clash' };
+}
+
+// Every key that mixes from `notation` at least as well as `minScore`, in
+// standard notation; the default keeps the classic Camelot moves (same key,
+// a step around the wheel, relative major/minor)
+export function compatibleKeys(notation: string | null | undefined, minScore = 0.85): string[] {
+  const from = parseKey(notation);
+  if (!from) return [];
+
+  const keys: string[] = [];
+  for (const mode of ['major', 'minor'] as KeyMode[]) {
+    for (let tonic = 0; tonic < 12; tonic++) {
+      if (relateKeys(from, { tonic, mode }).score >= minScore) keys.push(formatKey({ tonic, mode }));
+    }
+  }
+  return keys;
+}
+
+// Signed Camelot-number distance, -6..6, ignoring the A/B ring
+function camelotStep(from: MusicalKey, to: MusicalKey): number {
+  const step = (camelotNumber(to) - camelotNumber(from) + 12) % 12;
+  return step > 6 ? step - 12 : step;
+}
+
+function camelotNumber(key: MusicalKey): number {
+  return parseInt(toCamelot(key), 10);
+}
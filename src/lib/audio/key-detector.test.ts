@@ -0,0 +1,105 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatKey, KeyMode, toCamelot } from './harmonic-keys';
+import { KeyDetector } from './key-detector';
+import { SpectralFrames } from './spectral';
+
+// Chroma of a cadence in the key: the tonic chord twice, then the
+// subdominant and dominant (a major V in minor, as in harmonic minor)
+function cadenceChroma(tonic: number, mode: KeyMode): number[] {
+  const third = mode === 'minor' ? 3 : 4;
+  const chords = [
+    [0, third, 7],
+    [0, third, 7],
+    [5, mode === 'minor' ? 8 : 9, 0],
+    [7, 11, 2],
+  ];
+  const chroma = new Array<number>(12).fill(0.02);
+  for (const chord of chords) {
+    for (const interval of chord) chroma[(tonic + interval) % 12] += 1;
+  }
+  return chroma;
+}
+
+// Spectral frames at the analyzer's frame rate whose chroma follows `keyAt`
+function framesWithKeys(seconds: number, keyAt: (time: number) => { tonic: number; mode: KeyMode }): SpectralFrames {
+  const sampleRate = 44100;
+  const hopSize = 2048;
+  const frameCount = Math.floor(seconds * sampleRate / hopSize);
+  const chroma = new Float32Array(frameCount * 12);
+  for (let f = 0; f < frameCount; f++) {
+    const key = keyAt(f * hopSize / sampleRate);
+    const profile = cadenceChroma(key.tonic, key.mode);
+    const sum = profile.reduce((a, b) => a + b, 0);
+    profile.forEach((value, p) => { chroma[f * 12 + p] = value / sum; });
+  }
+  const empty = new Float32Array(frameCount);
+  return {
+    sampleRate, frameSize: 4096, hopSize, frameCount, chroma,
+    centroid: empty, rolloff: empty, zeroCrossingRate: empty,
+    mfccCoefficients: 13, mfcc: new Float32Array(frameCount * 13),
+  };
+}
+
+describe('KeyDetector.detect', () => {
+  const detector = new KeyDetector();
+
+  it.each((['major', 'minor'] as KeyMode[]).flatMap(mode =>
+    Array.from({ length: 12 }, (_, tonic) => [formatKey({ tonic, mode }), tonic, mode] as const)
+  ))('finds %s from a cadence in that key', (key, tonic, mode) => {
+    const estimate = detector.detect(cadenceChroma(tonic, mode));
+
+    expect(estimate.key).toBe(key);
+    expect(estimate.camelot).toBe(toCamelot({ tonic, mode }));
+    expect(estimate.confidence).toBeGreaterThan(0);
+    expect(estimate.alternate).not.toBeNull();
+    expect(estimate.alternate!.correlation).toBeLessThan(estimate.correlation);
+  });
+
+  it('correlates a Krumhansl profile perfectly with its own key', () => {
+    const cMinorProfile = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+    // The same ratings starting from A put the tonic on A
+    const aMinorProfile = cMinorProfile.map((_, pitch) => cMinorProfile[(pitch - 9 + 12) % 12]);
+
+    const estimate = detector.detect(aMinorProfile);
+
+    expect(estimate.key).toBe('Am');
+    expect(estimate.correlation).toBeCloseTo(1, 6);
+  });
+
+  it('reports no confidence for a flat chroma', () => {
+    const estimate = detector.detect(new Array(12).fill(1));
+
+    expect(estimate.confidence).toBe(0);
+    expect(estimate.alternate).toBeNull();
+  });
+});
+
+describe('KeyDetector.detectChanges', () => {
+  const detector = new KeyDetector();
+
+  it('keeps a single region for a track in one key', () => {
+    const changes = detector.detectChanges(framesWithKeys(180, () => ({ tonic: 9, mode: 'minor' })));
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ time: 0, key: 'Am', camelotKey: '8A' });
+  });
+
+  it('finds a modulation at a known time', () => {
+    const changeAt = 90;
+    const frames = framesWithKeys(180, time => (time < changeAt ? { tonic: 0, mode: 'major' } : { tonic: 2, mode: 'major' }));
+
+    const changes = detector.detectChanges(frames, { windowSeconds: 30, hopSeconds: 15 });
+
+    expect(changes.map(change => change.key)).toEqual(['C', 'D']);
+    expect(changes[0].time).toBe(0);
+    // Windows are 15 s apart, so the change is placed to within one hop
+    expect(Math.abs(changes[1].time - changeAt)).toBeLessThanOrEqual(15);
+    expect(changes[1].confidence).toBeGreaterThan(0);
+  });
+
+  it('ignores a passage too short to outweigh the switch penalty', () => {
+    const frames = framesWithKeys(180, time => (time >= 80 && time < 88 ? { tonic: 6, mode: 'major' } : { tonic: 0, mode: 'major' }));
+
+    expect(detector.detectChanges(frames).map(change => change.key)).toEqual(['C']);
+  });
+});
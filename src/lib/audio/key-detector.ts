@@ -0,0 +1,168 @@
+import { KeyChange } from '@/types';
+import { formatKey, KeyMode, toCamelot } from './harmonic-keys';
+import { chromaProfile, SpectralFrames } from './spectral';
+
+// Key detection by correlating a chroma profile against the Krumhansl-Kessler
+// major and minor key profiles in all 12 transpositions. Long recordings are
+// also tracked window by window to find where the key changes.
+
+export interface KeyCandidate {
+  tonic: number; // Pitch class, 0 = C
+  mode: KeyMode;
+  key: string; // Standard notation with sharps, e.g. 'C#m'
+  camelot: string; // e.g. '12A'
+  correlation: number;
+}
+
+export interface KeyEstimate extends KeyCandidate {
+  confidence: number; // 0-1
+  alternate: KeyCandidate | null; // Next best key
+}
+
+export interface KeyChangeOptions {
+  windowSeconds?: number;
+  hopSeconds?: number;
+  switchPenalty?: number; // Correlation a new key must gain, summed over windows, to switch
+}
+
+// Probe-tone ratings from Krumhansl & Kessler (1982), tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+export class KeyDetector {
+  detect(chroma: number[]): KeyEstimate {
+    const candidates = this.candidates(chroma).sort((a, b) => b.correlation - a.correlation);
+    const [best, runnerUp] = candidates;
+
+    return {
+      ...best,
+      confidence: this.calculateConfidence(best.correlation, runnerUp.correlation),
+      alternate: runnerUp.correlation > 0 ? runnerUp : null,
+    };
+  }
+
+  // Key regions over time: every window is scored against all 24 keys and a
+  // Viterbi pass picks the best-fitting key sequence, charging switchPenalty
+  // per change so brief chromatic passages do not register as modulations.
+  // Returns one entry per region, starting with the key at time 0.
+  detectChanges(spectrum: SpectralFrames, options: KeyChangeOptions = {}): KeyChange[] {
+    const windowSeconds = options.windowSeconds ?? 30;
+    const hopSeconds = options.hopSeconds ?? 15;
+    const switchPenalty = options.switchPenalty ?? 0.4;
+    if (spectrum.frameCount === 0) return [];
+
+    const framesPerSecond = spectrum.sampleRate / spectrum.hopSize;
+    const windowFrames = Math.max(1, Math.round(windowSeconds * framesPerSecond));
+    const hopFrames = Math.max(1, Math.round(hopSeconds * framesPerSecond));
+
+    const windows: Array<{ time: number; candidates: KeyCandidate[] }> = [];
+    for (let start = 0; start === 0 || start + windowFrames / 2 < spectrum.frameCount; start += hopFrames) {
+      const end = Math.min(spectrum.frameCount, start + windowFrames);
+      windows.push({
+        time: start / framesPerSecond,
+        candidates: this.candidates(chromaProfile(spectrum, start, end)),
+      });
+    }
+
+    const path = this.viterbi(windows.map(window => window.candidates.map(c => c.correlation)), switchPenalty);
+
+    const changes: KeyChange[] = [];
+    let regionStart = 0;
+    for (let w = 1; w <= windows.length; w++) {
+      if (w < windows.length && path[w] === path[regionStart]) continue;
+
+      const state = path[regionStart];
+      const chosen = windows[regionStart].candidates[state];
+      const confidences = windows.slice(regionStart, w).map(window => {
+        const own = window.candidates[state].correlation;
+        const rival = Math.max(...window.candidates.filter((_, i) => i !== state).map(c => c.correlation));
+        return own >= rival ? this.calculateConfidence(own, rival) : 0;
+      });
+
+      changes.push({
+        // A change is placed mid-overlap between the last window of the old key
+        // and the first window of the new one
+        time: regionStart === 0 ? 0 : Math.round((windows[regionStart].time + (windowSeconds - hopSeconds) / 2) * 10) / 10,
+        key: chosen.key,
+        camelotKey: chosen.camelot,
+        confidence: Math.round((confidences.reduce((sum, c) => sum + c, 0) / confidences.length) * 1000) / 1000,
+      });
+      regionStart = w;
+    }
+
+    return changes;
+  }
+
+  // All 24 keys in a fixed order: tonic-major, tonic-minor for C through B
+  private candidates(chroma: number[]): KeyCandidate[] {
+    const candidates: KeyCandidate[] = [];
+
+    for (let tonic = 0; tonic < 12; tonic++) {
+      for (const mode of ['major', 'minor'] as const) {
+        const profile = mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE;
+        candidates.push({
+          tonic,
+          mode,
+          key: formatKey({ tonic, mode }),
+          camelot: toCamelot({ tonic, mode }),
+          correlation: this.correlate(chroma, profile, tonic),
+        });
+      }
+    }
+
+    return candidates;
+  }
+
+  // Most likely state sequence with per-window scores and a flat switching cost
+  private viterbi(scores: number[][], switchPenalty: number): number[] {
+    let totals = [...scores[0]];
+    const backPointers: number[][] = [];
+
+    for (let w = 1; w < scores.length; w++) {
+      const bestPrevious = totals.indexOf(Math.max(...totals));
+      const pointers: number[] = [];
+      totals = scores[w].map((score, state) => {
+        const stay = totals[state];
+        const move = totals[bestPrevious] - switchPenalty;
+        pointers.push(stay >= move ? state : bestPrevious);
+        return score + Math.max(stay, move);
+      });
+      backPointers.push(pointers);
+    }
+
+    const path = new Array<number>(scores.length);
+    path[scores.length - 1] = totals.indexOf(Math.max(...totals));
+    for (let w = scores.length - 1; w > 0; w--) {
+      path[w - 1] = backPointers[w - 1][path[w]];
+    }
+    return path;
+  }
+
+  // Pearson correlation between the chroma and the profile rotated to `tonic`
+  private correlate(chroma: number[], profile: number[], tonic: number): number {
+    const chromaMean = chroma.reduce((sum, v) => sum + v, 0) / 12;
+    const profileMean = profile.reduce((sum, v) => sum + v, 0) / 12;
+
+    let covariance = 0;
+    let chromaVariance = 0;
+    let profileVariance = 0;
+    for (let pitch = 0; pitch < 12; pitch++) {
+      const c = chroma[pitch] - chromaMean;
+      const p = profile[(pitch - tonic + 12) % 12] - profileMean;
+      covariance += c * p;
+      chromaVariance += c * c;
+      profileVariance += p * p;
+    }
+
+    const denominator = Math.sqrt(chromaVariance * profileVariance);
+    return denominator > 0 ? covariance / denominator : 0;
+  }
+
+  // A strong fit that clearly beats the runner-up is a confident call; relative
+  // major/minor pairs typically sit within 0.1 of each other
+  private calculateConfidence(best: number, runnerUp: number): number {
+    if (best <= 0) return 0;
+    const separation = 1 - Math.exp(-(best - runnerUp) * 20);
+    return Math.round(best * separation * 1000) / 1000;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { LoudnessMeter, measureLoudness } from './loudness';
+
+const SAMPLE_RATE = 48000;
+
+function sine(frequency: number, amplitude: number, seconds: number, phase = 0): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE + phase);
+  }
+  return samples;
+}
+
+// Reference values from BS.1770-4: K-weighting adds +0.691 dB at 1 kHz, which
+// cancels the -0.691 offset, so a sine in one channel reads its RMS level
+// (peak - 3.01 dB) and the same sine in both channels reads 3.01 dB more.
+describe('measureLoudness', () => {
+  const minus20dBFS = sine(1000, 0.1, 10);
+
+  it('reads a -20 dBFS 1 kHz sine in one channel as -23.01 LUFS', () => {
+    const { integratedLoudness, truePeak } = measureLoudness([minus20dBFS], SAMPLE_RATE);
+
+    expect(integratedLoudness).toBeCloseTo(-23.01, 1);
+    expect(truePeak).toBeCloseTo(-20, 1);
+  });
+
+  it('reads the same sine in both stereo channels as -20 LUFS', () => {
+    const { integratedLoudness, truePeak } = measureLoudness([minus20dBFS, minus20dBFS], SAMPLE_RATE);
+
+    expect(integratedLoudness).toBeCloseTo(-20, 1);
+    expect(truePeak).toBeCloseTo(-20, 1);
+  });
+
+  it('finds the inter-sample peak of a full-scale sine sampled off its crest', () => {
+    // At a quarter of the sample rate with a 45° phase, every sample lands at
+    // ±0.707, 3 dB below the crest the reconstructed waveform reaches
+    const quarterRate = sine(SAMPLE_RATE / 4, 1, 1, Math.PI / 4);
+    expect(Math.max(...quarterRate.map(Math.abs))).toBeCloseTo(Math.SQRT1_2, 5);
+
+    const { truePeak } = measureLoudness([quarterRate], SAMPLE_RATE);
+
+    expect(truePeak).toBeGreaterThan(-0.5);
+    expect(truePeak).toBeLessThan(0.5);
+  });
+
+  it('gates out silence around the programme', () => {
+    const padded = new Float32Array(SAMPLE_RATE * 30);
+    padded.set(minus20dBFS, SAMPLE_RATE * 10);
+
+    // Blocks straddling the edges are only partly silent and pass the gates,
+    // which pulls the reading down a little
+    const { integratedLoudness } = measureLoudness([padded], SAMPLE_RATE);
+    expect(Math.abs(integratedLoudness + 23.01)).toBeLessThan(0.2);
+  });
+
+  it('reports digital silence as -Infinity', () => {
+    const { integratedLoudness, truePeak } = measureLoudness([new Float32Array(SAMPLE_RATE * 2)], SAMPLE_RATE);
+
+    expect(integratedLoudness).toBe(-Infinity);
+    expect(truePeak).toBe(-Infinity);
+  });
+
+  it('measures audio pushed in uneven chunks the same as in one piece', () => {
+    const meter = new LoudnessMeter(SAMPLE_RATE, 1);
+    for (let start = 0; start < minus20dBFS.length; start += 7919) {
+      meter.push([minus20dBFS.subarray(start, start + 7919)]);
+    }
+
+    expect(meter.finish()).toEqual(measureLoudness([minus20dBFS], SAMPLE_RATE));
+  });
+});
@@ -0,0 +1,233 @@
+// Loudness measurement after ITU-R BS.1770-4 / EBU R128: K-weighted, gated
+// integrated loudness in LUFS and true peak from 4x oversampling.
+
+export interface LoudnessMeasurement {
+  integratedLoudness: number; // LUFS, -Infinity for digital silence
+  truePeak: number; // dBTP
+}
+
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the absolute-gated loudness
+const BLOCK_SECONDS = 0.4;
+const STEPS_PER_BLOCK = 4; // 75% block overlap
+const OVERSAMPLING = 4;
+const INTERPOLATION_HALF_WIDTH = 8; // Neighbouring samples on each side
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessMeasurement {
+  const meter = new LoudnessMeter(sampleRate, channels.length);
+  meter.push(channels);
+  return meter.finish();
+}
+
+// Incremental loudness and true peak meter for audio that arrives in chunks.
+// Only per-step energies and a short history per channel are kept.
+export class LoudnessMeter {
+  private readonly stepLength: number;
+  private readonly shelf: Biquad;
+  private readonly highPass: Biquad;
+  private readonly filterStates: Array<{ shelf: number[]; highPass: number[] }>;
+  private readonly stepEnergies: number[] = [];
+  private stepEnergy = 0;
+  private stepFill = 0;
+
+  // True peak: samples seen, the tail each channel's interpolation still needs,
+  // and the running peaks
+  private sampleCount = 0;
+  private readonly tails: Float32Array[];
+  private samplePeak = 0;
+  private peak = 0;
+  private readonly kernels = interpolationKernels();
+
+  constructor(sampleRate: number, channelCount: number) {
+    this.stepLength = Math.round((BLOCK_SECONDS / STEPS_PER_BLOCK) * sampleRate);
+    [this.shelf, this.highPass] = kWeightingFilters(sampleRate);
+    this.filterStates = Array.from({ length: channelCount }, () => ({ shelf: [0, 0, 0, 0], highPass: [0, 0, 0, 0] }));
+    this.tails = Array.from({ length: channelCount }, () => new Float32Array(0));
+  }
+
+  push(channels: Float32Array[]): void {
+    const length = channels[0]?.length ?? 0;
+    if (length === 0) return;
+
+    // Sum over channels of K-weighted energy in each 100 ms step. Front
+    // channels carry unit weight, which covers mono and stereo material.
+    for (let i = 0; i < length; i++) {
+      for (let c = 0; c < channels.length; c++) {
+        const state = this.filterStates[c];
+        const weighted = applyBiquad(this.highPass, state.highPass, applyBiquad(this.shelf, state.shelf, channels[c][i]));
+        this.stepEnergy += weighted * weighted;
+      }
+      if (++this.stepFill === this.stepLength) {
+        this.stepEnergies.push(this.stepEnergy);
+        this.stepEnergy = 0;
+        this.stepFill = 0;
+      }
+    }
+
+    for (const channel of channels) {
+      for (let i = 0; i < length; i++) {
+        const magnitude = Math.abs(channel[i]);
+        if (magnitude > this.samplePeak) this.samplePeak = magnitude;
+      }
+    }
+    if (this.peak < this.samplePeak) this.peak = this.samplePeak;
+
+    // Interpolate every position whose right-hand neighbours have arrived
+    const previousCount = this.sampleCount;
+    this.sampleCount += length;
+    channels.forEach((channel, c) => {
+      const tail = this.tails[c];
+      const context = new Float32Array(tail.length + length);
+      context.set(tail);
+      context.set(channel, tail.length);
+      const contextStart = previousCount - tail.length;
+      this.scanTruePeak(
+        context,
+        contextStart,
+        Math.max(0, previousCount - INTERPOLATION_HALF_WIDTH),
+        this.sampleCount - INTERPOLATION_HALF_WIDTH
+      );
+      this.tails[c] = context.slice(Math.max(0, context.length - INTERPOLATION_HALF_WIDTH * 2));
+    });
+  }
+
+  finish(): LoudnessMeasurement {
+    // The last few positions interpolate against silence past the end
+    for (const tail of this.tails) {
+      this.scanTruePeak(
+        tail,
+        this.sampleCount - tail.length,
+        Math.max(0, this.sampleCount - INTERPOLATION_HALF_WIDTH),
+        this.sampleCount - 1
+      );
+    }
+
+    return {
+      integratedLoudness: this.integratedLoudness(),
+      truePeak: this.samplePeak === 0 ? -Infinity : Math.round(20 * Math.log10(this.peak) * 100) / 100,
+    };
+  }
+
+  private integratedLoudness(): number {
+    const stepCount = this.stepEnergies.length;
+    if (stepCount < STEPS_PER_BLOCK) return -Infinity;
+
+    const blockPowers: number[] = [];
+    const blockLength = this.stepLength * STEPS_PER_BLOCK;
+    for (let start = 0; start + STEPS_PER_BLOCK <= stepCount; start++) {
+      let energy = 0;
+      for (let s = start; s < start + STEPS_PER_BLOCK; s++) energy += this.stepEnergies[s];
+      blockPowers.push(energy / blockLength);
+    }
+
+    const aboveAbsolute = blockPowers.filter(power => powerToLoudness(power) > ABSOLUTE_GATE);
+    if (aboveAbsolute.length === 0) return -Infinity;
+
+    const relativeThreshold = powerToLoudness(mean(aboveAbsolute)) + RELATIVE_GATE;
+    const gated = aboveAbsolute.filter(power => powerToLoudness(power) > relativeThreshold);
+    return Math.round(powerToLoudness(mean(gated)) * 100) / 100;
+  }
+
+  // Highest inter-sample peak between positions [from, to) of the signal, where
+  // `context` holds the samples from `contextStart` on. Inter-sample overs
+  // cannot exceed the sample peak by more than a few dB, so only samples within
+  // 6 dB of the peak so far are interpolated.
+  private scanTruePeak(context: Float32Array, contextStart: number, from: number, to: number): void {
+    const candidateLevel = this.samplePeak * 0.5;
+    for (let n = from; n < to; n++) {
+      const local = n - contextStart;
+      const next = local + 1 < context.length ? context[local + 1] : 0;
+      if (Math.abs(context[local]) < candidateLevel && Math.abs(next) < candidateLevel) continue;
+
+      for (const kernel of this.kernels) {
+        let value = 0;
+        for (let k = -INTERPOLATION_HALF_WIDTH + 1; k <= INTERPOLATION_HALF_WIDTH; k++) {
+          const index = local + k;
+          if (index >= 0 && index < context.length) {
+            value += context[index] * kernel[k + INTERPOLATION_HALF_WIDTH - 1];
+          }
+        }
+        const magnitude = Math.abs(value);
+        if (magnitude > this.peak) this.peak = magnitude;
+      }
+    }
+  }
+}
+
+// Pre-filter (high shelf) and RLB high-pass of the K-weighting curve, derived
+// for any sample rate (coefficients match BS.1770 at 48 kHz)
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = Math.pow(10, gain / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+// Direct form I; state holds [x1, x2, y1, y2]
+function applyBiquad(filter: Biquad, state: number[], input: number): number {
+  const output = filter.b0 * input + filter.b1 * state[0] + filter.b2 * state[1]
+    - filter.a1 * state[2] - filter.a2 * state[3];
+  state[1] = state[0];
+  state[0] = input;
+  state[3] = state[2];
+  state[2] = output;
+  return output;
+}
+
+// Hann-windowed sinc coefficients for the positions 1/4, 2/4 and 3/4 of the
+// way between two samples
+function interpolationKernels(): Float64Array[] {
+  const kernels: Float64Array[] = [];
+  for (let phase = 1; phase < OVERSAMPLING; phase++) {
+    const offset = phase / OVERSAMPLING;
+    const kernel = new Float64Array(INTERPOLATION_HALF_WIDTH * 2);
+    for (let k = -INTERPOLATION_HALF_WIDTH + 1; k <= INTERPOLATION_HALF_WIDTH; k++) {
+      const x = offset - k;
+      const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / INTERPOLATION_HALF_WIDTH);
+      kernel[k + INTERPOLATION_HALF_WIDTH - 1] = sinc * window;
+    }
+    kernels.push(kernel);
+  }
+  return kernels;
+}
+
+function powerToLoudness(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
@@ -0,0 +1,140 @@
+// Mel-frequency cepstral coefficients: mel filterbank -> log -> DCT-II
+
+export interface MfccOptions {
+  coefficientCount?: number;
+  melBandCount?: number;
+  minFrequency?: number;
+  maxFrequency?: number;
+}
+
+export function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+export function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+export class MfccExtractor {
+  readonly coefficientCount: number;
+  private readonly melBandCount: number;
+  private readonly filters: Array<{ startBin: number; weights: Float32Array }>;
+  private readonly dctMatrix: Float32Array; // coefficientCount x melBandCount
+  private readonly melEnergies: Float32Array;
+
+  constructor(sampleRate: number, frameSize: number, options: MfccOptions = {}) {
+    this.coefficientCount = options.coefficientCount ?? 13;
+    this.melBandCount = options.melBandCount ?? 40;
+    const minFrequency = options.minFrequency ?? 20;
+    const maxFrequency = Math.min(options.maxFrequency ?? sampleRate / 2, sampleRate / 2);
+
+    this.filters = this.createMelFilterbank(sampleRate, frameSize, minFrequency, maxFrequency);
+    this.dctMatrix = this.createDctMatrix();
+    this.melEnergies = new Float32Array(this.melBandCount);
+  }
+
+  // MFCCs for one magnitude spectrum frame (frameSize / 2 + 1 bins)
+  compute(magnitudes: Float32Array, output?: Float32Array): Float32Array {
+    const result = output ?? new Float32Array(this.coefficientCount);
+
+    for (let band = 0; band < this.melBandCount; band++) {
+      const { startBin, weights } = this.filters[band];
+      let energy = 0;
+      for (let i = 0; i < weights.length; i++) {
+        const magnitude = magnitudes[startBin + i];
+        energy += weights[i] * magnitude * magnitude;
+      }
+      this.melEnergies[band] = Math.log(energy + 1e-10);
+    }
+
+    for (let c = 0; c < this.coefficientCount; c++) {
+      let sum = 0;
+      const rowOffset = c * this.melBandCount;
+      for (let band = 0; band < this.melBandCount; band++) {
+        sum += this.dctMatrix[rowOffset + band] * this.melEnergies[band];
+      }
+      result[c] = sum;
+    }
+
+    return result;
+  }
+
+  // Triangular filters evenly spaced on the mel scale, area-normalized
+  private createMelFilterbank(
+    sampleRate: number,
+    frameSize: number,
+    minFrequency: number,
+    maxFrequency: number
+  ): Array<{ startBin: number; weights: Float32Array }> {
+    const binFrequency = sampleRate / frameSize;
+    const minMel = hzToMel(minFrequency);
+    const maxMel = hzToMel(maxFrequency);
+
+    const edges: number[] = [];
+    for (let i = 0; i < this.melBandCount + 2; i++) {
+      edges.push(melToHz(minMel + ((maxMel - minMel) * i) / (this.melBandCount + 1)));
+    }
+
+    const filters: Array<{ startBin: number; weights: Float32Array }> = [];
+    for (let band = 0; band < this.melBandCount; band++) {
+      const [lower, center, upper] = [edges[band], edges[band + 1], edges[band + 2]];
+      const startBin = Math.max(1, Math.ceil(lower / binFrequency));
+      const endBin = Math.min(frameSize / 2, Math.floor(upper / binFrequency));
+      const weights = new Float32Array(Math.max(0, endBin - startBin + 1));
+      const normalization = 2 / (upper - lower);
+
+      for (let bin = startBin; bin <= endBin; bin++) {
+        const freq = bin * binFrequency;
+        const weight = freq <= center
+          ? (freq - lower) / (center - lower)
+          : (upper - freq) / (upper - center);
+        weights[bin - startBin] = Math.max(0, weight) * normalization;
+      }
+
+      filters.push({ startBin, weights });
+    }
+
+    return filters;
+  }
+
+  // Orthonormal DCT-II basis
+  private createDctMatrix(): Float32Array {
+    const n = this.melBandCount;
+    const matrix = new Float32Array(this.coefficientCount * n);
+    for (let c = 0; c < this.coefficientCount; c++) {
+      const scale = c === 0 ? Math.sqrt(1 / n) : Math.sqrt(2 / n);
+      for (let band = 0; band < n; band++) {
+        matrix[c * n + band] = scale * Math.cos((Math.PI * c * (band + 0.5)) / n);
+      }
+    }
+    return matrix;
+  }
+}
+
+// Track-level mean and variance of per-frame coefficients stored row-major
+export function summarizeFrames(
+  frames: Float32Array,
+  frameCount: number,
+  dimension: number
+): { mean: number[]; variance: number[] } {
+  const mean = new Array(dimension).fill(0);
+  const variance = new Array(dimension).fill(0);
+  if (frameCount === 0) return { mean, variance };
+
+  for (let f = 0; f < frameCount; f++) {
+    for (let d = 0; d < dimension; d++) {
+      mean[d] += frames[f * dimension + d];
+    }
+  }
+  for (let d = 0; d < dimension; d++) mean[d] /= frameCount;
+
+  for (let f = 0; f < frameCount; f++) {
+    for (let d = 0; d < dimension; d++) {
+      const diff = frames[f * dimension + d] - mean[d];
+      variance[d] += diff * diff;
+    }
+  }
+  for (let d = 0; d < dimension; d++) variance[d] /= frameCount;
+
+  return { mean, variance };
+}
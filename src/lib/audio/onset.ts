@@ -0,0 +1,134 @@
+import { createWindow, RealFFT } from './fft';
+import { FrameBuffer, GrowableFloat32Array } from './frame-buffer';
+
+// Onset strength envelopes from log-compressed spectral flux, the input for
+// tempo estimation and beat tracking
+
+export interface OnsetEnvelopeOptions {
+  frameSize?: number;
+  hopSize?: number;
+  lowFrequencyCutoff?: number; // Upper edge of the kick-drum band
+  compression?: number; // Gamma for log(1 + gamma * |X|)
+}
+
+export interface OnsetEnvelope {
+  frameRate: number; // Envelope frames per second
+  hopSize: number;
+  timeOffset: number; // Seconds from envelope frame index * hop to the frame center
+  envelope: Float32Array; // Full-band onset strength, normalized to unit standard deviation
+  lowEnvelope: Float32Array; // Onset strength below lowFrequencyCutoff, same normalization
+}
+
+export function computeOnsetEnvelope(
+  samples: Float32Array,
+  sampleRate: number,
+  options: OnsetEnvelopeOptions = {}
+): OnsetEnvelope {
+  const extractor = new OnsetEnvelopeExtractor(sampleRate, options);
+  extractor.push(samples);
+  return extractor.finish();
+}
+
+// Incremental form of computeOnsetEnvelope for audio that arrives in chunks.
+// Raw flux is kept per frame; normalization needs the whole envelope.
+export class OnsetEnvelopeExtractor {
+  private readonly sampleRate: number;
+  private readonly frameSize: number;
+  private readonly hopSize: number;
+  private readonly compression: number;
+  private readonly lowCutoffBin: number;
+  private readonly frames: FrameBuffer;
+  private readonly fft: RealFFT;
+  private readonly window: Float32Array;
+  private readonly magnitudes: Float32Array;
+  private previous: Float32Array;
+  private current: Float32Array;
+  private readonly envelope = new GrowableFloat32Array();
+  private readonly lowEnvelope = new GrowableFloat32Array();
+
+  constructor(sampleRate: number, options: OnsetEnvelopeOptions = {}) {
+    this.sampleRate = sampleRate;
+    this.frameSize = options.frameSize ?? 2048;
+    this.hopSize = options.hopSize ?? 512;
+    this.compression = options.compression ?? 100;
+    this.lowCutoffBin = Math.max(2, Math.round((options.lowFrequencyCutoff ?? 150) / (sampleRate / this.frameSize)));
+
+    const binCount = this.frameSize / 2 + 1;
+    this.frames = new FrameBuffer(this.frameSize, this.hopSize);
+    this.fft = new RealFFT(this.frameSize);
+    this.window = createWindow('hann', this.frameSize);
+    this.magnitudes = new Float32Array(binCount);
+    this.previous = new Float32Array(binCount);
+    this.current = new Float32Array(binCount);
+  }
+
+  push(samples: Float32Array): void {
+    this.frames.push(samples, (frame, index) => this.processFrame(frame, index));
+  }
+
+  finish(): OnsetEnvelope {
+    const frameRate = this.sampleRate / this.hopSize;
+    return {
+      frameRate,
+      hopSize: this.hopSize,
+      timeOffset: this.frameSize / 2 / this.sampleRate,
+      envelope: normalizeEnvelope(this.envelope.toArray(), frameRate),
+      lowEnvelope: normalizeEnvelope(this.lowEnvelope.toArray(), frameRate),
+    };
+  }
+
+  private processFrame(frame: Float32Array, index: number): void {
+    const { magnitudes, current, previous } = this;
+    this.fft.magnitudes(frame, this.window, 0, magnitudes);
+
+    let flux = 0;
+    let lowFlux = 0;
+    for (let bin = 1; bin < magnitudes.length; bin++) {
+      current[bin] = Math.log1p(this.compression * magnitudes[bin]);
+      if (index === 0) continue;
+
+      // Half-wave rectification: only energy increases count as onsets
+      const increase = current[bin] - previous[bin];
+      if (increase > 0) {
+        flux += increase;
+        if (bin <= this.lowCutoffBin) lowFlux += increase;
+      }
+    }
+
+    this.envelope.push(flux);
+    this.lowEnvelope.push(lowFlux);
+    [this.previous, this.current] = [current, previous];
+  }
+}
+
+export function onsetFrameTime(onsets: OnsetEnvelope, frame: number): number {
+  return frame / onsets.frameRate + onsets.timeOffset;
+}
+
+// Remove the slowly varying loudness trend, rectify and scale to unit variance
+function normalizeEnvelope(envelope: Float32Array, frameRate: number): Float32Array {
+  const radius = Math.max(1, Math.round(frameRate * 0.5));
+  const result = new Float32Array(envelope.length);
+
+  // Running sum for a centered moving average
+  let windowSum = 0;
+  let windowStart = 0;
+  let windowEnd = 0;
+  for (let i = 0; i < envelope.length; i++) {
+    const targetStart = Math.max(0, i - radius);
+    const targetEnd = Math.min(envelope.length, i + radius + 1);
+    while (windowEnd < targetEnd) windowSum += envelope[windowEnd++];
+    while (windowStart < targetStart) windowSum -= envelope[windowStart++];
+    const localMean = windowSum / (windowEnd - windowStart);
+    result[i] = Math.max(0, envelope[i] - localMean);
+  }
+
+  let sumSquares = 0;
+  for (let i = 0; i < result.length; i++) sumSquares += result[i] * result[i];
+  const std = Math.sqrt(sumSquares / Math.max(1, result.length));
+  if (std > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= std;
+  }
+
+  return result;
+}
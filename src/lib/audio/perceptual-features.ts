@@ -0,0 +1,56 @@
+import { BeatGrid } from '@/types';
+import { parseKey } from './harmonic-keys';
+
+// Heuristic high-level descriptors built from the lower-level analysis. Both
+// return 0-1 and are meant for ranking and preference learning, not as
+// calibrated perceptual measurements.
+
+export interface DanceabilityInput {
+  tempo: number;
+  tempoConfidence: number;
+  beatGrid: BeatGrid | null;
+}
+
+export interface ValenceInput {
+  key: string;
+  keyConfidence: number;
+  tempo: number;
+  spectralCentroid: number; // Hz
+}
+
+// Strong, steady beats at a comfortable dance tempo score highest
+export function estimateDanceability({ tempo, tempoConfidence, beatGrid }: DanceabilityInput): number {
+  const beats = beatGrid?.beats ?? [];
+  if (beats.length < 8) return round(0.3 * tempoConfidence);
+
+  const beatStrength = mean(beatGrid?.confidence ?? []);
+
+  const intervals = beats.slice(1).map((beat, i) => beat - beats[i]);
+  const intervalMean = mean(intervals);
+  const intervalStd = Math.sqrt(mean(intervals.map(interval => (interval - intervalMean) ** 2)));
+  const regularity = Math.max(0, 1 - (intervalStd / intervalMean) * 5);
+
+  // Half-time feels like its double tempo on the floor, so judge the closer one
+  const danceTempo = Math.abs(tempo * 2 - 122) < Math.abs(tempo - 122) ? tempo * 2 : tempo;
+  const tempoSuitability = Math.exp(-0.5 * ((danceTempo - 122) / 25) ** 2);
+
+  return round(0.4 * beatStrength + 0.25 * regularity + 0.2 * tempoSuitability + 0.15 * tempoConfidence);
+}
+
+// Musical positivity from mode, tempo and brightness, starting from neutral
+export function estimateValence({ key, keyConfidence, tempo, spectralCentroid }: ValenceInput): number {
+  const parsed = parseKey(key);
+  const mode = parsed ? (parsed.mode === 'major' ? 1 : -1) * Math.min(1, keyConfidence * 1.5) : 0;
+  const pace = Math.tanh((tempo - 110) / 30);
+  const brightness = spectralCentroid > 0 ? Math.tanh(Math.log2(spectralCentroid / 2000)) : 0;
+
+  return round(Math.max(0, Math.min(1, 0.5 + 0.25 * mode + 0.15 * pace + 0.1 * brightness)));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+import { stft } from './fft';
+import { extractSpectralFrames } from './spectral';
+
+// A 5-minute track at 44.1 kHz has to get through the spectral pass in
+// seconds, not the minutes the old per-frame DFT took. Jest's sandbox makes
+// global lookups like Math.sqrt several times slower than in the app, so the
+// budgets are generous; a regression to O(N²) still blows well past them.
+const SAMPLE_RATE = 44100;
+const DURATION_SECONDS = 5 * 60;
+const STFT_BUDGET_MS = 10000;
+const SPECTRAL_BUDGET_MS = 15000;
+
+// Mono PCM with a chord, a kick every beat at 128 BPM and some noise
+function syntheticTrack(): Float32Array {
+  const samples = new Float32Array(SAMPLE_RATE * DURATION_SECONDS);
+  const beatSamples = Math.round(SAMPLE_RATE * 60 / 128);
+  const { sin, exp, PI } = Math; // Locals, to keep the sandbox's lookups out of the loop
+  let state = 1;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const sinceBeat = (i % beatSamples) / SAMPLE_RATE;
+    state = (state * 16807) % 2147483647;
+    samples[i] =
+      0.2 * (sin(2 * PI * 220 * t) + sin(2 * PI * 261.63 * t) + sin(2 * PI * 329.63 * t)) +
+      0.5 * exp(-sinceBeat * 30) * sin(2 * PI * 55 * sinceBeat) +
+      0.05 * (state / 2147483647 * 2 - 1);
+  }
+  return samples;
+}
+
+function timed<T>(run: () => T): { result: T; elapsed: number } {
+  const start = performance.now();
+  const result = run();
+  return { result, elapsed: performance.now() - start };
+}
+
+describe('spectral analysis of a 5-minute 44.1 kHz track', () => {
+  const samples = syntheticTrack();
+
+  it(`runs the STFT within ${STFT_BUDGET_MS} ms`, () => {
+    const { result: frames, elapsed } = timed(() => {
+      let count = 0;
+      for (const frame of stft(samples, SAMPLE_RATE, { frameSize: 4096, hopSize: 2048 })) {
+        if (frame.magnitudes.length > 0) count++;
+      }
+      return count;
+    });
+
+    expect(frames).toBe(Math.floor((samples.length - 4096) / 2048) + 1);
+    expect(elapsed).toBeLessThan(STFT_BUDGET_MS);
+  });
+
+  it(`extracts every spectral feature within ${SPECTRAL_BUDGET_MS} ms`, () => {
+    const { result: frames, elapsed } = timed(() => extractSpectralFrames(samples, SAMPLE_RATE));
+
+    expect(frames.frameCount).toBeGreaterThan(6000);
+    expect(frames.chroma).toHaveLength(frames.frameCount * 12);
+    expect(frames.mfcc).toHaveLength(frames.frameCount * frames.mfccCoefficients);
+    expect(elapsed).toBeLessThan(SPECTRAL_BUDGET_MS);
+  });
+});
@@ -0,0 +1,201 @@
+import { createWindow, RealFFT, WindowType } from './fft';
+import { FrameBuffer, GrowableFloat32Array } from './frame-buffer';
+import { MfccExtractor } from './mfcc';
+
+// Frame-level spectral descriptors computed in a single STFT pass, shared by
+// every feature that needs frequency-domain information.
+
+export interface SpectralFrameOptions {
+  frameSize?: number;
+  hopSize?: number;
+  window?: WindowType;
+  chromaMinFrequency?: number;
+  chromaMaxFrequency?: number;
+  rolloffPercent?: number;
+  mfccCoefficients?: number;
+}
+
+export interface SpectralFrames {
+  sampleRate: number;
+  frameSize: number;
+  hopSize: number;
+  frameCount: number;
+  chroma: Float32Array; // frameCount x 12, normalized per frame
+  centroid: Float32Array; // Hz per frame
+  rolloff: Float32Array; // Hz per frame
+  zeroCrossingRate: Float32Array; // Crossings per sample per frame
+  mfccCoefficients: number;
+  mfcc: Float32Array; // frameCount x mfccCoefficients
+}
+
+const DEFAULT_OPTIONS: Required<SpectralFrameOptions> = {
+  frameSize: 4096,
+  hopSize: 2048,
+  window: 'hann',
+  chromaMinFrequency: 80,
+  chromaMaxFrequency: 2000,
+  rolloffPercent: 0.85,
+  mfccCoefficients: 13,
+};
+
+export function extractSpectralFrames(
+  samples: Float32Array,
+  sampleRate: number,
+  options: SpectralFrameOptions = {}
+): SpectralFrames {
+  const extractor = new SpectralFrameExtractor(sampleRate, options);
+  extractor.push(samples);
+  return extractor.finish();
+}
+
+// Incremental form of extractSpectralFrames for audio that arrives in chunks
+export class SpectralFrameExtractor {
+  private readonly sampleRate: number;
+  private readonly options: Required<SpectralFrameOptions>;
+  private readonly frames: FrameBuffer;
+  private readonly fft: RealFFT;
+  private readonly window: Float32Array;
+  private readonly magnitudes: Float32Array;
+  private readonly binFrequency: number;
+  private readonly pitchClasses: Int8Array;
+  private readonly mfccExtractor: MfccExtractor;
+  private readonly chroma = new GrowableFloat32Array();
+  private readonly centroid = new GrowableFloat32Array();
+  private readonly rolloff = new GrowableFloat32Array();
+  private readonly zeroCrossingRate = new GrowableFloat32Array();
+  private readonly mfcc = new GrowableFloat32Array();
+
+  constructor(sampleRate: number, options: SpectralFrameOptions = {}) {
+    this.sampleRate = sampleRate;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    const { frameSize, hopSize, window, chromaMinFrequency, chromaMaxFrequency, mfccCoefficients } = this.options;
+
+    const binCount = frameSize / 2 + 1;
+    this.frames = new FrameBuffer(frameSize, hopSize);
+    this.fft = new RealFFT(frameSize);
+    this.window = createWindow(window, frameSize);
+    this.magnitudes = new Float32Array(binCount);
+    this.binFrequency = sampleRate / frameSize;
+    this.pitchClasses = createPitchClassMap(binCount, this.binFrequency, chromaMinFrequency, chromaMaxFrequency);
+    this.mfccExtractor = new MfccExtractor(sampleRate, frameSize, { coefficientCount: mfccCoefficients });
+  }
+
+  push(samples: Float32Array): void {
+    this.frames.push(samples, frame => this.processFrame(frame));
+  }
+
+  finish(): SpectralFrames {
+    const { frameSize, hopSize, mfccCoefficients } = this.options;
+    return {
+      sampleRate: this.sampleRate,
+      frameSize,
+      hopSize,
+      frameCount: this.frames.frameCount,
+      chroma: this.chroma.toArray(),
+      centroid: this.centroid.toArray(),
+      rolloff: this.rolloff.toArray(),
+      zeroCrossingRate: this.zeroCrossingRate.toArray(),
+      mfccCoefficients,
+      mfcc: this.mfcc.toArray(),
+    };
+  }
+
+  private processFrame(frame: Float32Array): void {
+    const { magnitudes, binFrequency, pitchClasses } = this;
+    this.fft.magnitudes(frame, this.window, 0, magnitudes);
+
+    const chroma = this.chroma.append(12);
+    let chromaSum = 0;
+    for (let bin = 1; bin < magnitudes.length; bin++) {
+      const pitchClass = pitchClasses[bin];
+      if (pitchClass < 0) continue;
+      chroma[pitchClass] += magnitudes[bin];
+      chromaSum += magnitudes[bin];
+    }
+    if (chromaSum > 0) {
+      for (let p = 0; p < 12; p++) chroma[p] /= chromaSum;
+    }
+
+    this.centroid.push(spectralCentroid(magnitudes, binFrequency));
+    this.rolloff.push(spectralRolloff(magnitudes, binFrequency, this.options.rolloffPercent));
+    this.zeroCrossingRate.push(frameZeroCrossingRate(frame, 0, frame.length));
+    this.mfccExtractor.compute(magnitudes, this.mfcc.append(this.options.mfccCoefficients));
+  }
+}
+
+// Sum of per-frame chroma vectors, normalized to sum to 1
+export function chromaProfile(frames: SpectralFrames, startFrame = 0, endFrame = frames.frameCount): number[] {
+  const profile = new Array(12).fill(0);
+  for (let f = startFrame; f < endFrame; f++) {
+    for (let p = 0; p < 12; p++) {
+      profile[p] += frames.chroma[f * 12 + p];
+    }
+  }
+  const sum = profile.reduce((a, b) => a + b, 0);
+  return sum > 0 ? profile.map(x => x / sum) : profile;
+}
+
+export function spectralCentroid(magnitudes: Float32Array, binFrequency: number): number {
+  let weightedSum = 0;
+  let total = 0;
+  for (let bin = 1; bin < magnitudes.length; bin++) {
+    weightedSum += bin * binFrequency * magnitudes[bin];
+    total += magnitudes[bin];
+  }
+  return total > 0 ? weightedSum / total : 0;
+}
+
+// Frequency below which `percent` of the spectral magnitude is concentrated
+export function spectralRolloff(magnitudes: Float32Array, binFrequency: number, percent: number): number {
+  let total = 0;
+  for (let bin = 1; bin < magnitudes.length; bin++) total += magnitudes[bin];
+  if (total === 0) return 0;
+
+  const threshold = total * percent;
+  let cumulative = 0;
+  for (let bin = 1; bin < magnitudes.length; bin++) {
+    cumulative += magnitudes[bin];
+    if (cumulative >= threshold) return bin * binFrequency;
+  }
+  return (magnitudes.length - 1) * binFrequency;
+}
+
+export function frameZeroCrossingRate(samples: Float32Array, start: number, length: number): number {
+  const end = Math.min(start + length, samples.length);
+  let crossings = 0;
+  for (let i = start + 1; i < end; i++) {
+    if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings++;
+  }
+  return end - start > 1 ? crossings / (end - start - 1) : 0;
+}
+
+// Mean of a per-frame descriptor, skipping silent frames where it is undefined
+export function meanOverActiveFrames(values: Float32Array): number {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > 0) {
+      sum += values[i];
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+export function frequencyToPitchClass(freq: number): number {
+  const A4 = 440;
+  const semitones = Math.round(12 * Math.log2(freq / A4));
+  return (((semitones + 9) % 12) + 12) % 12; // 0 = C
+}
+
+// Pitch class for each FFT bin inside the musical range, -1 outside it
+function createPitchClassMap(binCount: number, binFrequency: number, minFrequency: number, maxFrequency: number): Int8Array {
+  const map = new Int8Array(binCount).fill(-1);
+  for (let bin = 1; bin < binCount; bin++) {
+    const freq = bin * binFrequency;
+    if (freq >= minFrequency && freq <= maxFrequency) {
+      map[bin] = frequencyToPitchClass(freq);
+    }
+  }
+  return map;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { computeEnergyCurve } from './energy-curve';
+import { extractSpectralFrames } from './spectral';
+import { StructureSegmenter } from './structure';
+
+const SAMPLE_RATE = 22050;
+const BPM = 120; // Two-second bars
+
+// A quiet C major pad for `changeAt` seconds, then a loud section with a
+// different sound: kick, noise hats and an A minor sawtooth chord
+function twoSectionTrack(changeAt: number, seconds: number): Float32Array {
+  const { sin, exp, PI } = Math; // Locals, to keep Jest's sandbox lookups out of the loop
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  const beat = 60 / BPM;
+  const saw = (frequency: number, t: number) => 2 * ((frequency * t) % 1) - 1;
+  let state = 3;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    state = (state * 16807) % 2147483647;
+    if (t < changeAt) {
+      samples[i] = 0.04 * (sin(2 * PI * 261.63 * t) + sin(2 * PI * 329.63 * t) + sin(2 * PI * 392 * t));
+    } else {
+      const sinceBeat = t % beat;
+      const sinceHat = (t + beat / 2) % beat;
+      samples[i] =
+        0.6 * sin(2 * PI * 55 * sinceBeat) * exp(-sinceBeat * 20) +
+        0.15 * (state / 2147483647 * 2 - 1) * exp(-sinceHat * 40) +
+        0.08 * (saw(220, t) + saw(261.63, t) + saw(329.63, t));
+    }
+  }
+  return samples;
+}
+
+function segment(samples: Float32Array, duration: number) {
+  return new StructureSegmenter().segment({
+    duration,
+    energy: computeEnergyCurve(samples, SAMPLE_RATE, 0.1),
+    spectrum: extractSpectralFrames(samples, SAMPLE_RATE),
+    beatGrid: null,
+    tempo: BPM,
+  });
+}
+
+describe('StructureSegmenter', () => {
+  it('puts a boundary at a change of energy and timbre', () => {
+    const segments = segment(twoSectionTrack(48, 96), 96);
+
+    const boundaries = segments.slice(1).map(section => section.start);
+    expect(boundaries.some(start => Math.abs(start - 48) <= 2)).toBe(true);
+    // Nothing is split off inside either steady half
+    expect(boundaries.every(start => Math.abs(start - 48) <= 2)).toBe(true);
+
+    const quiet = segments.find(section => section.end <= 50)!;
+    const loud = segments.find(section => section.start >= 46)!;
+    expect(loud.energy).toBeGreaterThan(quiet.energy ?? 1);
+    expect(segments[0].start).toBe(0);
+    expect(segments[segments.length - 1].end).toBe(96);
+  });
+
+  it('covers the track without gaps', () => {
+    const segments = segment(twoSectionTrack(48, 96), 96);
+
+    for (let i = 1; i < segments.length; i++) {
+      expect(segments[i].start).toBe(segments[i - 1].end);
+    }
+  });
+
+  it('treats a track too short to segment as a single section', () => {
+    const segments = segment(twoSectionTrack(4, 8), 8);
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ start: 0, end: 8 });
+  });
+});
@@ -0,0 +1,268 @@
+import { BeatGrid, EnergyCurve, StructureSegment } from '@/types';
+import { SpectralFrames } from './spectral';
+
+// Structural segmentation on bar-synchronous features: self-similarity of
+// timbre and harmony near the diagonal, a checkerboard-kernel novelty curve plus
+// energy contrast to find section boundaries, then DJ-oriented labels from
+// each section's relative energy and position.
+
+export interface StructureOptions {
+  kernelBars?: number; // Bars on each side of a candidate boundary
+  minSegmentBars?: number;
+  phraseBars?: number; // Boundaries snap to multiples of this many bars
+}
+
+export interface StructureInput {
+  duration: number; // Seconds
+  energy: EnergyCurve; // Fine-grained RMS, a few points per beat
+  spectrum: SpectralFrames;
+  beatGrid: BeatGrid | null;
+  tempo: number;
+}
+
+interface Bar {
+  start: number;
+  end: number;
+}
+
+interface Section {
+  startBar: number;
+  endBar: number; // Exclusive
+  energy: number; // RMS relative to the loudest section
+  rising: boolean; // Energy climbs across the section
+}
+
+export class StructureSegmenter {
+  private readonly kernelBars: number;
+  private readonly minSegmentBars: number;
+  private readonly phraseBars: number;
+
+  constructor(options: StructureOptions = {}) {
+    this.kernelBars = options.kernelBars ?? 4;
+    this.minSegmentBars = options.minSegmentBars ?? 4;
+    this.phraseBars = options.phraseBars ?? 4;
+  }
+
+  segment(input: StructureInput): StructureSegment[] {
+    const { duration } = input;
+    if (duration <= 0) return [];
+
+    const bars = this.findBars(input, duration);
+    if (bars.length < this.minSegmentBars * 2) {
+      return [{ start: 0, end: duration, type: 'intro', confidence: 0.3, energy: 1 }];
+    }
+
+    const barEnergy = bars.map(bar => this.rms(input.energy, bar.start, bar.end));
+    const features = this.barFeatures(input.spectrum, bars);
+    const novelty = this.novelty(features, barEnergy);
+    const boundaries = this.pickBoundaries(novelty, bars.length);
+    const sections = this.buildSections(boundaries, bars, input);
+    const labels = this.label(sections);
+
+    const maxNovelty = Math.max(...novelty, 1e-9);
+    const strength = (bar: number) => (bar <= 0 || bar >= bars.length ? 1 : novelty[bar] / maxNovelty);
+
+    return sections.map((section, i) => ({
+      start: i === 0 ? 0 : Math.round(bars[section.startBar].start * 1000) / 1000,
+      end: i === sections.length - 1 ? duration : Math.round(bars[section.endBar].start * 1000) / 1000,
+      type: labels[i],
+      confidence: Math.round(
+        Math.min(1, 0.4 + 0.3 * strength(section.startBar) + 0.3 * strength(section.endBar)) * 100
+      ) / 100,
+      energy: Math.round(section.energy * 1000) / 1000,
+    }));
+  }
+
+  // Bars from tracked downbeats, or fixed four-beat blocks at the tempo when
+  // no beat grid is available
+  private findBars(input: StructureInput, duration: number): Bar[] {
+    const downbeats = input.beatGrid?.downbeats ?? [];
+    const bars: Bar[] = [];
+
+    if (downbeats.length >= this.minSegmentBars * 2) {
+      for (let i = 0; i < downbeats.length; i++) {
+        bars.push({ start: downbeats[i], end: downbeats[i + 1] ?? duration });
+      }
+      return bars;
+    }
+
+    const barLength = (60 / (input.tempo > 0 ? input.tempo : 120)) * 4;
+    for (let start = 0; start + barLength / 2 < duration; start += barLength) {
+      bars.push({ start, end: Math.min(duration, start + barLength) });
+    }
+    return bars;
+  }
+
+  // Mean MFCC (without the loudness coefficient) and chroma per bar, each
+  // dimension standardized across the track
+  private barFeatures(spectrum: SpectralFrames, bars: Bar[]): Float64Array[] {
+    const mfccDims = spectrum.mfccCoefficients - 1;
+    const dimension = mfccDims + 12;
+    const framesPerSecond = spectrum.sampleRate / spectrum.hopSize;
+    const frameOffset = spectrum.frameSize / 2 / spectrum.sampleRate;
+
+    const features = bars.map(bar => {
+      const vector = new Float64Array(dimension);
+      const first = Math.max(0, Math.floor((bar.start - frameOffset) * framesPerSecond));
+      const last = Math.min(spectrum.frameCount, Math.ceil((bar.end - frameOffset) * framesPerSecond));
+      const count = Math.max(1, last - first);
+
+      for (let f = first; f < last; f++) {
+        for (let c = 1; c < spectrum.mfccCoefficients; c++) {
+          vector[c - 1] += spectrum.mfcc[f * spectrum.mfccCoefficients + c] / count;
+        }
+        for (let p = 0; p < 12; p++) {
+          vector[mfccDims + p] += spectrum.chroma[f * 12 + p] / count;
+        }
+      }
+      return vector;
+    });
+
+    for (let d = 0; d < dimension; d++) {
+      let mean = 0;
+      for (const vector of features) mean += vector[d] / features.length;
+      let variance = 0;
+      for (const vector of features) variance += (vector[d] - mean) ** 2 / features.length;
+      const std = Math.sqrt(variance) || 1;
+      for (const vector of features) vector[d] = (vector[d] - mean) / std;
+    }
+
+    return features;
+  }
+
+  // Foote novelty from a Gaussian-tapered checkerboard kernel, combined with
+  // the loudness contrast between the bars before and after each boundary. The
+  // kernel only reaches kernelBars off the diagonal, so cosine similarities are
+  // computed on demand instead of as a full matrix, which keeps hour-long
+  // recordings cheap.
+  private novelty(features: Float64Array[], barEnergy: number[]): number[] {
+    const n = features.length;
+    const norms = features.map(v => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0)) || 1);
+    const similarity = (row: number, col: number) => {
+      let dot = 0;
+      for (let d = 0; d < features[row].length; d++) dot += features[row][d] * features[col][d];
+      return dot / (norms[row] * norms[col]);
+    };
+
+    const size = this.kernelBars;
+    const maxEnergy = Math.max(...barEnergy, 1e-9);
+    const novelty = new Array(n).fill(0);
+
+    for (let i = 0; i < n; i++) {
+      let score = 0;
+      let weightSum = 0;
+      for (let a = -size; a < size; a++) {
+        for (let b = -size; b < size; b++) {
+          const row = i + a;
+          const col = i + b;
+          if (row < 0 || col < 0 || row >= n || col >= n) continue;
+          const sign = (a < 0) === (b < 0) ? 1 : -1;
+          const taper = Math.exp(-0.5 * (((a + 0.5) / size) ** 2 + ((b + 0.5) / size) ** 2) * 4);
+          score += sign * taper * similarity(row, col);
+          weightSum += taper;
+        }
+      }
+      const timbre = weightSum > 0 ? Math.max(0, score / weightSum) : 0;
+
+      const before = this.mean(barEnergy, i - size, i);
+      const after = this.mean(barEnergy, i, i + size);
+      const loudness = Math.abs(after - before) / maxEnergy;
+
+      novelty[i] = timbre + loudness;
+    }
+
+    return novelty;
+  }
+
+  // Peaks above an adaptive threshold, snapped to phrase boundaries and kept
+  // at least minSegmentBars apart
+  private pickBoundaries(novelty: number[], barCount: number): number[] {
+    const mean = this.mean(novelty, 0, novelty.length);
+    const std = Math.sqrt(novelty.reduce((sum, v) => sum + (v - mean) ** 2, 0) / novelty.length);
+    const threshold = mean + 0.5 * std;
+
+    const candidates: Array<{ bar: number; score: number }> = [];
+    for (let i = this.minSegmentBars; i <= barCount - this.minSegmentBars; i++) {
+      const window = novelty.slice(Math.max(0, i - 2), Math.min(barCount, i + 3));
+      if (novelty[i] >= threshold && novelty[i] === Math.max(...window)) {
+        const phraseStart = Math.round(i / this.phraseBars) * this.phraseBars;
+        const bar = Math.abs(phraseStart - i) <= 1 ? phraseStart : i;
+        candidates.push({ bar, score: novelty[i] });
+      }
+    }
+
+    // Strongest boundaries first, skipping any too close to one already kept
+    const kept: number[] = [];
+    candidates.sort((a, b) => b.score - a.score);
+    for (const { bar } of candidates) {
+      if (bar < this.minSegmentBars || bar > barCount - this.minSegmentBars) continue;
+      if (kept.every(existing => Math.abs(existing - bar) >= this.minSegmentBars)) {
+        kept.push(bar);
+      }
+    }
+
+    return [0, ...kept.sort((a, b) => a - b), barCount];
+  }
+
+  private buildSections(boundaries: number[], bars: Bar[], input: StructureInput): Section[] {
+    const raw = boundaries.slice(0, -1).map((startBar, i) => {
+      const endBar = boundaries[i + 1];
+      const start = i === 0 ? 0 : bars[startBar].start;
+      const end = endBar >= bars.length ? input.duration : bars[endBar].start;
+      const middle = (start + end) / 2;
+      return {
+        startBar,
+        endBar,
+        rms: this.rms(input.energy, start, end),
+        rising: this.rms(input.energy, middle, end) > this.rms(input.energy, start, middle) * 1.15,
+      };
+    });
+
+    const loudest = Math.max(...raw.map(section => section.rms), 1e-9);
+    return raw.map(({ rms, ...section }) => ({ ...section, energy: rms / loudest }));
+  }
+
+  private label(sections: Section[]): StructureSegment['type'][] {
+    const energies = sections.map(section => section.energy);
+    // Dance tracks swing between full drops and stripped breakdowns; songs
+    // with a flatter profile get verse/chorus/bridge labels instead
+    const dynamic = Math.max(...energies) - Math.min(...energies) > 0.3;
+
+    const labels = sections.map((section, i): StructureSegment['type'] => {
+      const isLast = i === sections.length - 1;
+      if (i === 0 && section.energy < 0.85) return 'intro';
+      if (isLast && sections.length > 1 && section.energy < 0.85) return 'outro';
+      if (section.energy >= 0.8) return dynamic ? 'drop' : 'chorus';
+      if (section.energy < 0.55) return dynamic ? 'breakdown' : 'bridge';
+      return 'verse';
+    });
+
+    // A rising section that leads straight into a drop is its buildup
+    for (let i = 0; i < sections.length - 1; i++) {
+      if (labels[i + 1] === 'drop' && sections[i].rising && labels[i] !== 'intro') {
+        labels[i] = 'buildup';
+      }
+    }
+
+    return labels;
+  }
+
+  // RMS over [start, end) from the energy curve's equal-length windows
+  private rms(energy: EnergyCurve, start: number, end: number): number {
+    const first = Math.max(0, Math.floor(start / energy.interval));
+    const last = Math.min(energy.values.length, Math.floor(end / energy.interval));
+    if (last <= first) return 0;
+    let sum = 0;
+    for (let i = first; i < last; i++) sum += energy.values[i] * energy.values[i];
+    return Math.sqrt(sum / (last - first));
+  }
+
+  private mean(values: number[], start: number, end: number): number {
+    const from = Math.max(0, start);
+    const to = Math.min(values.length, end);
+    if (to <= from) return 0;
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += values[i];
+    return sum / (to - from);
+  }
+}
@@ -0,0 +1,513 @@
+// Metadata tags embedded in audio files: ID3v2/ID3v1 (MP3, and the "id3 "
+// chunk DJ software writes into WAV), MP4 ilst atoms (M4A) and RIFF INFO
+// (WAV). Only the tag regions are read, so multi-hundred-megabyte recordings
+// are never loaded whole.
+
+export interface CoverArt {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  year?: number;
+  label?: string;
+  bpm?: number;
+  key?: string;
+  coverArt?: CoverArt;
+}
+
+// Random access to the bytes of a file; reads past the end come back short
+export interface ByteSource {
+  size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+const MAX_TAG_BYTES = 64 * 1024 * 1024; // Larger tag regions are treated as corrupt
+const ID3V1_LENGTH = 128;
+
+export function blobSource(blob: Blob): ByteSource {
+  return {
+    size: blob.size,
+    read: async (offset, length) => new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer()),
+  };
+}
+
+// Malformed or missing tags yield an empty result rather than an error
+export async function readTags(source: ByteSource): Promise<AudioTags> {
+  const header = await source.read(0, 12);
+
+  if (ascii(header, 0, 4) === 'RIFF' && ascii(header, 8, 4) === 'WAVE') {
+    return readRiffTags(source);
+  }
+  if (ascii(header, 4, 4) === 'ftyp') {
+    return readMp4Tags(source);
+  }
+  return readMp3Tags(source);
+}
+
+// --- MP3 ---
+
+async function readMp3Tags(source: ByteSource): Promise<AudioTags> {
+  let tags: AudioTags = {};
+
+  const header = await source.read(0, 10);
+  if (ascii(header, 0, 3) === 'ID3') {
+    const tagSize = 10 + synchsafe(header, 6);
+    if (tagSize <= MAX_TAG_BYTES) {
+      tags = parseId3v2(await source.read(0, tagSize));
+    }
+  }
+
+  // ID3v1 only fills in what the richer tag left out
+  if (source.size >= ID3V1_LENGTH) {
+    const v1 = parseId3v1(await source.read(source.size - ID3V1_LENGTH, ID3V1_LENGTH));
+    tags = { ...v1, ...tags };
+  }
+
+  return tags;
+}
+
+function parseId3v2(tag: Uint8Array): AudioTags {
+  if (tag.length < 10 || ascii(tag, 0, 3) !== 'ID3') return {};
+
+  const version = tag[3];
+  const flags = tag[5];
+  if (version < 2 || version > 4) return {};
+
+  let body = tag.subarray(10, 10 + synchsafe(tag, 6));
+  // Before v2.4 unsynchronisation applies to the tag as a whole
+  if (flags & 0x80 && version < 4) body = removeUnsynchronisation(body);
+
+  let offset = 0;
+  if (flags & 0x40 && version >= 3) {
+    offset = version === 3 ? uint32(body, 0) + 4 : synchsafe(body, 0);
+  }
+
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const frames = new Map<string, Uint8Array>();
+  const pictures: Uint8Array[] = [];
+
+  while (offset + headerLength <= body.length) {
+    const id = ascii(body, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+
+    let size: number;
+    let frameFlags = 0;
+    if (version === 2) {
+      size = (body[offset + 3] << 16) | (body[offset + 4] << 8) | body[offset + 5];
+    } else {
+      size = version === 4 ? synchsafe(body, offset + 4) : uint32(body, offset + 4);
+      frameFlags = (body[offset + 8] << 8) | body[offset + 9];
+    }
+
+    const start = offset + headerLength;
+    offset = start + size;
+    if (offset > body.length) break;
+    if (size === 0) continue;
+
+    const data = frameData(body.subarray(start, start + size), version, frameFlags);
+    if (!data) continue;
+
+    if (id === 'APIC' || id === 'PIC') {
+      pictures.push(version === 2 ? withPicFormat(data) : data);
+    } else if (!frames.has(id)) {
+      frames.set(id, data);
+    }
+  }
+
+  const text = (...ids: string[]) => {
+    for (const id of ids) {
+      const data = frames.get(id);
+      const value = data ? decodeTextFrame(data) : undefined;
+      if (value) return value;
+    }
+    return undefined;
+  };
+
+  return clean({
+    title: text('TIT2', 'TT2'),
+    artist: text('TPE1', 'TP1', 'TPE2', 'TP2'),
+    album: text('TALB', 'TAL'),
+    genre: resolveGenre(text('TCON', 'TCO')),
+    year: parseYear(text('TDRC', 'TYER', 'TYE', 'TDOR', 'TORY')),
+    label: text('TPUB', 'TPB'),
+    bpm: parseBpm(text('TBPM', 'TBP')),
+    key: text('TKEY', 'TKE'),
+    coverArt: pickPicture(pictures),
+  });
+}
+
+// Undo per-frame encodings; compressed and encrypted frames are skipped
+function frameData(data: Uint8Array, version: number, flags: number): Uint8Array | null {
+  if (version === 3) {
+    if (flags & 0x00c0) return null;
+    return flags & 0x0020 ? data.subarray(1) : data; // Grouping identity byte
+  }
+  if (version === 4) {
+    if (flags & 0x000c) return null;
+    let result = data;
+    if (flags & 0x0040) result = result.subarray(1);
+    if (flags & 0x0001) result = result.subarray(4); // Data length indicator
+    if (flags & 0x0002) result = removeUnsynchronisation(result);
+    return result;
+  }
+  return data;
+}
+
+function decodeTextFrame(data: Uint8Array): string | undefined {
+  if (data.length < 2) return undefined;
+  // v2.4 separates multiple values with nulls; the first one is enough here
+  const [value] = decodeText(data.subarray(1), data[0]).split('\0');
+  return value.trim() || undefined;
+}
+
+// APIC: encoding, MIME type, picture type, description, image.
+// PIC (v2.2) has a three-letter image format in place of the MIME type.
+function withPicFormat(data: Uint8Array): Uint8Array {
+  const format = ascii(data, 1, 3).toLowerCase();
+  const mime = new TextEncoder().encode(`image/${format === 'jpg' ? 'jpeg' : format}\0`);
+  const result = new Uint8Array(1 + mime.length + data.length - 4);
+  result[0] = data[0];
+  result.set(mime, 1);
+  result.set(data.subarray(4), 1 + mime.length);
+  return result;
+}
+
+function pickPicture(frames: Uint8Array[]): CoverArt | undefined {
+  const pictures = frames.flatMap(frame => {
+    const encoding = frame[0];
+    const mimeEnd = frame.indexOf(0, 1);
+    if (mimeEnd < 0 || mimeEnd + 2 > frame.length) return [];
+
+    const mimeType = normalizeImageType(ascii(frame, 1, mimeEnd - 1));
+    const pictureType = frame[mimeEnd + 1];
+    const descriptionEnd = textEnd(frame, mimeEnd + 2, encoding);
+    const data = frame.subarray(descriptionEnd);
+    const detected = sniffImageType(data) ?? mimeType;
+    return detected && data.length > 0 ? [{ pictureType, coverArt: { data, mimeType: detected } }] : [];
+  });
+
+  // Prefer the front cover (type 3) over other embedded images
+  return (pictures.find(picture => picture.pictureType === 3) ?? pictures[0])?.coverArt;
+}
+
+function parseId3v1(tag: Uint8Array): AudioTags {
+  if (ascii(tag, 0, 3) !== 'TAG') return {};
+
+  const field = (start: number, length: number) =>
+    decodeText(tag.subarray(start, start + length), 0).split('\0')[0].trim() || undefined;
+
+  return clean({
+    title: field(3, 30),
+    artist: field(33, 30),
+    album: field(63, 30),
+    year: parseYear(field(93, 4)),
+    genre: ID3_GENRES[tag[127]],
+  });
+}
+
+// --- MP4 ---
+
+async function readMp4Tags(source: ByteSource): Promise<AudioTags> {
+  // The moov atom may sit after the media data, so walk the top level
+  let offset = 0;
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 16);
+    const box = boxHeader(header, 0, source.size - offset);
+    if (!box) break;
+
+    if (box.type === 'moov') {
+      if (box.size > MAX_TAG_BYTES) return {};
+      const moov = await source.read(offset + box.headerSize, box.size - box.headerSize);
+      return parseMoov(moov);
+    }
+    offset += box.size;
+  }
+  return {};
+}
+
+function parseMoov(moov: Uint8Array): AudioTags {
+  const udta = findBox(moov, 'udta');
+  const meta = udta && findBox(udta, 'meta');
+  if (!meta) return {};
+
+  // meta is a full box (version and flags first), except in some QuickTime files
+  const ilst = findBox(ascii(meta, 4, 4) === 'hdlr' ? meta : meta.subarray(4), 'ilst');
+  if (!ilst) return {};
+
+  const values = new Map<string, { type: number; value: Uint8Array }>();
+  for (const item of boxes(ilst)) {
+    let name = item.type;
+    if (name === '----') {
+      // Freeform item: reverse-DNS mean, a name and the data
+      const freeformName = findBox(item.data, 'name');
+      if (!freeformName) continue;
+      name = `----:${utf8(freeformName.subarray(4)).toUpperCase()}`;
+    }
+    const data = findBox(item.data, 'data');
+    if (data && data.length >= 8 && !values.has(name)) {
+      values.set(name, { type: uint32(data, 0) & 0xffffff, value: data.subarray(8) });
+    }
+  }
+
+  const text = (...names: string[]) => {
+    for (const name of names) {
+      const entry = values.get(name);
+      const value = entry ? utf8(entry.value).trim() : '';
+      if (value) return value;
+    }
+    return undefined;
+  };
+
+  const tempo = values.get('tmpo');
+  const genreIndex = values.get('gnre');
+  const cover = values.get('covr');
+
+  return clean({
+    title: text('©nam'),
+    artist: text('©ART', 'aART'),
+    album: text('©alb'),
+    genre: text('©gen') ?? (genreIndex && genreIndex.value.length >= 2
+      ? ID3_GENRES[((genreIndex.value[0] << 8) | genreIndex.value[1]) - 1]
+      : undefined),
+    year: parseYear(text('©day')),
+    label: text('----:LABEL', '----:PUBLISHER', '----:ORGANIZATION'),
+    bpm: tempo && tempo.value.length >= 2
+      ? parseBpm(String((tempo.value[0] << 8) | tempo.value[1]))
+      : parseBpm(text('----:BPM')),
+    key: text('----:INITIALKEY', '----:KEY'),
+    coverArt: cover && cover.value.length > 0
+      ? coverArt(cover.value, cover.type === 14 ? 'image/png' : 'image/jpeg')
+      : undefined,
+  });
+}
+
+interface BoxHeader {
+  type: string;
+  size: number;
+  headerSize: number;
+}
+
+function boxHeader(bytes: Uint8Array, offset: number, available: number): BoxHeader | null {
+  if (offset + 8 > bytes.length) return null;
+
+  let size = uint32(bytes, offset);
+  const type = ascii(bytes, offset + 4, 4);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > bytes.length) return null;
+    size = uint32(bytes, offset + 8) * 2 ** 32 + uint32(bytes, offset + 12);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = available; // Runs to the end of the file
+  }
+
+  return size >= headerSize && size <= available ? { type, size, headerSize } : null;
+}
+
+function* boxes(container: Uint8Array): Generator<{ type: string; data: Uint8Array }> {
+  let offset = 0;
+  while (offset < container.length) {
+    const box = boxHeader(container, offset, container.length - offset);
+    if (!box) return;
+    yield { type: box.type, data: container.subarray(offset + box.headerSize, offset + box.size) };
+    offset += box.size;
+  }
+}
+
+function findBox(container: Uint8Array, type: string): Uint8Array | undefined {
+  for (const box of boxes(container)) {
+    if (box.type === type) return box.data;
+  }
+  return undefined;
+}
+
+// --- RIFF/WAV ---
+
+async function readRiffTags(source: ByteSource): Promise<AudioTags> {
+  let info: AudioTags = {};
+  let id3: AudioTags = {};
+
+  let offset = 12;
+  while (offset + 8 <= source.size) {
+    const header = await source.read(offset, 8);
+    if (header.length < 8) break;
+
+    const id = ascii(header, 0, 4);
+    const size = uint32LE(header, 4);
+    const start = offset + 8;
+    // Streaming writers leave the data size unset; nothing readable follows
+    if (start + size > source.size) break;
+
+    if (id === 'LIST' && size >= 4 && size <= MAX_TAG_BYTES) {
+      const list = await source.read(start, size);
+      if (ascii(list, 0, 4) === 'INFO') info = parseRiffInfo(list.subarray(4));
+    } else if ((id === 'id3 ' || id === 'ID3 ') && size <= MAX_TAG_BYTES) {
+      id3 = parseId3v2(await source.read(start, size));
+    }
+
+    offset = start + size + (size % 2); // Chunks are padded to even length
+  }
+
+  return { ...info, ...id3 };
+}
+
+function parseRiffInfo(list: Uint8Array): AudioTags {
+  const fields = new Map<string, string>();
+  let offset = 0;
+  while (offset + 8 <= list.length) {
+    const id = ascii(list, offset, 4);
+    const size = uint32LE(list, offset + 4);
+    const value = utf8(list.subarray(offset + 8, offset + 8 + size)).split('\0')[0].trim();
+    if (value) fields.set(id, value);
+    offset += 8 + size + (size % 2);
+  }
+
+  return clean({
+    title: fields.get('INAM'),
+    artist: fields.get('IART'),
+    album: fields.get('IPRD'),
+    genre: fields.get('IGNR'),
+    year: parseYear(fields.get('ICRD')),
+  });
+}
+
+// --- Helpers ---
+
+function decodeText(bytes: Uint8Array, encoding: number): string {
+  switch (encoding) {
+    case 1: {
+      // UTF-16 with byte order mark
+      if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+      if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+      return new TextDecoder('utf-16le').decode(bytes);
+    }
+    case 2:
+      return new TextDecoder('utf-16be').decode(bytes);
+    case 3:
+      return utf8(bytes);
+    default:
+      return latin1(bytes);
+  }
+}
+
+// Offset just past a null-terminated string in the given ID3 text encoding
+function textEnd(bytes: Uint8Array, start: number, encoding: number): number {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = start; i + 1 < bytes.length; i += 2) {
+      if (bytes[i] === 0 && bytes[i + 1] === 0) return i + 2;
+    }
+    return bytes.length;
+  }
+  const end = bytes.indexOf(0, start);
+  return end < 0 ? bytes.length : end + 1;
+}
+
+function removeUnsynchronisation(bytes: Uint8Array): Uint8Array {
+  const result = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    result[length++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return result.subarray(0, length);
+}
+
+// "(17)", "17" and "(17)Rock" style references into the ID3v1 genre list
+function resolveGenre(genre: string | undefined): string | undefined {
+  if (!genre) return undefined;
+  const reference = /^\((\d+)\)(.*)$/.exec(genre) ?? /^(\d+)()$/.exec(genre);
+  if (!reference) return genre;
+  return reference[2].trim() || ID3_GENRES[parseInt(reference[1], 10)] || undefined;
+}
+
+function parseYear(value: string | undefined): number | undefined {
+  const match = value ? /\b(\d{4})\b/.exec(value) ?? /^(\d{4})/.exec(value) : null;
+  const year = match ? parseInt(match[1], 10) : NaN;
+  return year >= 1000 && year <= 9999 ? year : undefined;
+}
+
+function parseBpm(value: string | undefined): number | undefined {
+  const bpm = value ? parseFloat(value.replace(',', '.')) : NaN;
+  return bpm > 0 && bpm < 1000 ? Math.round(bpm * 100) / 100 : undefined;
+}
+
+function coverArt(data: Uint8Array, fallbackType: string): CoverArt {
+  return { data, mimeType: sniffImageType(data) ?? fallbackType };
+}
+
+function sniffImageType(data: Uint8Array): string | undefined {
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+  if (data[0] === 0x89 && ascii(data, 1, 3) === 'PNG') return 'image/png';
+  if (ascii(data, 0, 3) === 'GIF') return 'image/gif';
+  if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 4) === 'WEBP') return 'image/webp';
+  return undefined;
+}
+
+function normalizeImageType(mimeType: string): string | undefined {
+  const type = mimeType.trim().toLowerCase();
+  if (type === 'jpg' || type === 'image/jpg') return 'image/jpeg';
+  if (type === 'png') return 'image/png';
+  return type.startsWith('image/') ? type : undefined;
+}
+
+// Drop empty fields so spreading one tag over another never erases values
+function clean(tags: AudioTags): AudioTags {
+  return Object.fromEntries(Object.entries(tags).filter(([, value]) => value !== undefined && value !== '')) as AudioTags;
+}
+
+function synchsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14)
+    | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]);
+}
+
+function uint32LE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset + 3] << 24) >>> 0) + ((bytes[offset + 2] << 16) | (bytes[offset + 1] << 8) | bytes[offset]);
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return latin1(bytes.subarray(offset, offset + length));
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (const byte of bytes) text += String.fromCharCode(byte);
+  return text;
+}
+
+function utf8(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+// ID3v1 genre list including the Winamp extensions
+const ID3_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'AlternRock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychadelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+  'Folk', 'Folk-Rock', 'National Folk', 'Swing', 'Fast Fusion', 'Bebob', 'Latin', 'Revival', 'Celtic', 'Bluegrass',
+  'Avantgarde', 'Gothic Rock', 'Progressive Rock', 'Psychedelic Rock', 'Symphonic Rock', 'Slow Rock', 'Big Band', 'Chorus', 'Easy Listening', 'Acoustic',
+  'Humour', 'Speech', 'Chanson', 'Opera', 'Chamber Music', 'Sonata', 'Symphony', 'Booty Bass', 'Primus', 'Porn Groove',
+  'Satire', 'Slow Jam', 'Club', 'Tango', 'Samba', 'Folklore', 'Ballad', 'Power Ballad', 'Rhythmic Soul', 'Freestyle',
+  'Duet', 'Punk Rock', 'Drum Solo', 'A capella', 'Euro-House', 'Dance Hall', 'Goa', 'Drum & Bass', 'Club-House', 'Hardcore',
+  'Terror', 'Indie', 'BritPop', 'Negerpunk', 'Polsk Punk', 'Beat', 'Christian Gangsta Rap', 'Heavy Metal', 'Black Metal', 'Crossover',
+  'Contemporary Christian', 'Christian Rock', 'Merengue', 'Salsa', 'Thrash Metal', 'Anime', 'JPop', 'Synthpop', 'Abstract', 'Art Rock',
+  'Baroque', 'Bhangra', 'Big Beat', 'Breakbeat', 'Chillout', 'Downtempo', 'Dub', 'EBM', 'Eclectic', 'Electro',
+  'Electroclash', 'Emo', 'Experimental', 'Garage', 'Global', 'IDM', 'Illbient', 'Industro-Goth', 'Jam Band', 'Krautrock',
+  'Leftfield', 'Lounge', 'Math Rock', 'New Romantic', 'Nu-Breakz', 'Post-Punk', 'Post-Rock', 'Psytrance', 'Shoegaze', 'Space Rock',
+  'Trop Rock', 'World Music', 'Neoclassical', 'Audiobook', 'Audio Theatre', 'Neue Deutsche Welle', 'Podcast', 'Indie Rock', 'G-Funk', 'Dubstep',
+  'Garage Rock', 'Psybient',
+];
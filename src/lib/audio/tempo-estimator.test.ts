@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { computeOnsetEnvelope } from './onset';
+import { resolveTempoRange, TempoEstimator } from './tempo-estimator';
+
+// Four-on-the-floor loop: a kick with a click on every beat, a noise hi-hat on
+// every off-beat and a held chord. Kick and hat onsets are about as strong, so
+// the full-band envelope is an even 8th-note pulse.
+function danceLoop(bpm: number, sampleRate: number, { hats = true, seconds = 20 } = {}): Float32Array {
+  const { sin, exp, PI } = Math; // Locals, to keep Jest's sandbox lookups out of the loop
+  const samples = new Float32Array(Math.floor(seconds * sampleRate));
+  const beat = 60 / bpm;
+  let state = 7;
+  let previousNoise = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    const sinceKick = t % beat;
+    const sinceHat = (t + beat / 2) % beat;
+    state = (state * 16807) % 2147483647;
+    const noise = (state / 2147483647) * 2 - 1;
+    const highNoise = noise - previousNoise;
+    previousNoise = noise;
+
+    const kick = 0.8 * sin(2 * PI * 55 * sinceKick) * exp(-sinceKick * 25) + (sinceKick < 0.004 ? 0.6 * noise : 0);
+    const hat = hats ? 0.2 * highNoise * exp(-sinceHat * 60) : 0;
+    const chord = 0.08 * (sin(2 * PI * 220 * t) + sin(2 * PI * 261.63 * t) + sin(2 * PI * 329.63 * t));
+    samples[i] = kick + hat + chord;
+  }
+  return samples;
+}
+
+function estimateBpm(samples: Float32Array, sampleRate: number, genre?: string): number {
+  return new TempoEstimator(resolveTempoRange(genre)).estimate(computeOnsetEnvelope(samples, sampleRate)).bpm;
+}
+
+// Within a BPM, so an octave or 3:2 error can't pass
+function expectTempo(actual: number, bpm: number): void {
+  expect(Math.abs(actual - bpm)).toBeLessThan(1);
+}
+
+describe('TempoEstimator', () => {
+  // These came out at 2/3 or 2x the tempo (174 -> 116, 140 -> 93, 150 -> 100,
+  // 90 -> 180) before candidates were checked against their metrical relatives
+  it.each([
+    [140, 44100],
+    [140, 22050],
+    [150, 44100],
+    [150, 22050],
+    [174, 44100],
+    [174, 22050],
+    [128, 44100],
+    [90, 44100],
+  ])('finds %i BPM with off-beat hats at %i Hz', (bpm, sampleRate) => {
+    expectTempo(estimateBpm(danceLoop(bpm, sampleRate), sampleRate), bpm);
+  });
+
+  it.each([90, 128, 174])('finds %i BPM from kicks alone', bpm => {
+    expectTempo(estimateBpm(danceLoop(bpm, 44100, { hats: false }), 44100), bpm);
+  });
+
+  it('stays inside a genre range', () => {
+    expectTempo(estimateBpm(danceLoop(174, 22050), 22050, 'drum and bass'), 174);
+  });
+
+  it('keeps the windowed curve at the global tempo', () => {
+    const onsets = computeOnsetEnvelope(danceLoop(150, 22050, { seconds: 40 }), 22050);
+    const estimator = new TempoEstimator();
+    const { bpm } = estimator.estimate(onsets);
+    const curve = estimator.estimateCurve(onsets, bpm);
+
+    expect(curve.length).toBeGreaterThan(0);
+    for (const point of curve) expectTempo(point.bpm, 150);
+  });
+});
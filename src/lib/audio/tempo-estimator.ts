@@ -0,0 +1,260 @@
+import { TempoCurvePoint } from '@/types';
+import { OnsetEnvelope } from './onset';
+
+// Tempo estimation over an onset envelope: autocorrelation scored with a comb
+// of beat-period multiples, restricted to a BPM range and weighted by a
+// log-normal prior around the range's typical tempo. The winner is then
+// checked against its metrical relatives, which share its pulse.
+
+export interface TempoRange {
+  min: number;
+  max: number;
+  preferred?: number; // Centre of the tempo prior; defaults to the geometric mean of min and max
+}
+
+// Typical BPM ranges by genre. Narrow ranges rule out half/double-time errors entirely
+export const TEMPO_RANGES: Record<string, TempoRange> = {
+  default: { min: 70, max: 180, preferred: 120 },
+  house: { min: 115, max: 135, preferred: 124 },
+  techno: { min: 120, max: 150, preferred: 130 },
+  trance: { min: 125, max: 145, preferred: 138 },
+  'drum-and-bass': { min: 160, max: 185, preferred: 174 },
+  dubstep: { min: 135, max: 150, preferred: 140 },
+  'hip-hop': { min: 70, max: 115, preferred: 90 },
+  pop: { min: 90, max: 135, preferred: 115 },
+  disco: { min: 105, max: 130, preferred: 118 },
+  downtempo: { min: 60, max: 110, preferred: 90 },
+};
+
+export function resolveTempoRange(genre?: string | null): TempoRange {
+  if (!genre) return TEMPO_RANGES.default;
+  const normalized = genre.trim().toLowerCase().replace(/[\s_&]+/g, '-').replace(/-+/g, '-');
+  return TEMPO_RANGES[normalized] ?? TEMPO_RANGES.default;
+}
+
+// Tempo ratios that share a pulse with a candidate: double and half time, and
+// the 3:2 readings that off-beat hi-hats invite. An even 8th-note pulse of
+// kick, hat, kick, hat fits all of them about as well as the real beat.
+const METRICAL_RELATIVES = [2, 0.5, 1.5, 2 / 3];
+// A relative has to beat the candidate's metrical fit by this factor to replace it
+const METRICAL_SWITCH_MARGIN = 1.1;
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number; // 0-1
+}
+
+export interface TempoCurveOptions {
+  windowSeconds?: number;
+  hopSeconds?: number;
+}
+
+export class TempoEstimator {
+  private readonly range: TempoRange;
+  private readonly preferred: number;
+  private readonly resolution = 0.05; // BPM step of the candidate grid
+
+  constructor(range: TempoRange = TEMPO_RANGES.default) {
+    if (!(range.min > 0) || !(range.max > range.min)) {
+      throw new Error(`Invalid tempo range ${range.min}-${range.max} BPM`);
+    }
+    this.range = range;
+    this.preferred = range.preferred ?? Math.sqrt(range.min * range.max);
+  }
+
+  estimate(onsets: OnsetEnvelope): TempoEstimate {
+    return this.estimateSegment(onsets.envelope, onsets.lowEnvelope, onsets.frameRate, this.range, 8);
+  }
+
+  // Windowed estimates across the track. Each window is searched near the
+  // global tempo so a steady track cannot flip between octaves window to window.
+  estimateCurve(onsets: OnsetEnvelope, globalBpm: number, options: TempoCurveOptions = {}): TempoCurvePoint[] {
+    const windowFrames = Math.round((options.windowSeconds ?? 16) * onsets.frameRate);
+    const hopFrames = Math.max(1, Math.round((options.hopSeconds ?? 8) * onsets.frameRate));
+    const localRange: TempoRange = { min: globalBpm / 1.2, max: globalBpm * 1.2, preferred: globalBpm };
+    const curve: TempoCurvePoint[] = [];
+
+    if (onsets.envelope.length < windowFrames) return curve;
+
+    for (let start = 0; start + windowFrames <= onsets.envelope.length; start += hopFrames) {
+      const window = onsets.envelope.subarray(start, start + windowFrames);
+      const lowWindow = onsets.lowEnvelope.subarray(start, start + windowFrames);
+      const { bpm, confidence } = this.estimateSegment(window, lowWindow, onsets.frameRate, localRange, 4);
+      curve.push({
+        time: Math.round(((start + windowFrames / 2) / onsets.frameRate) * 100) / 100,
+        bpm,
+        confidence,
+      });
+    }
+
+    return curve;
+  }
+
+  private estimateSegment(
+    envelope: Float32Array,
+    lowEnvelope: Float32Array,
+    frameRate: number,
+    range: TempoRange,
+    multiples: number
+  ): TempoEstimate {
+    const maxPeriod = (60 * frameRate) / range.min;
+    const maxLag = Math.min(envelope.length - 1, Math.ceil(maxPeriod * multiples) + 1);
+    if (maxLag < maxPeriod) {
+      return { bpm: range.preferred ?? this.preferred, confidence: 0 };
+    }
+
+    const acf = this.autocorrelate(envelope, maxLag);
+    if (acf[0] <= 0) {
+      return { bpm: range.preferred ?? this.preferred, confidence: 0 };
+    }
+
+    const candidateCount = Math.floor((range.max - range.min) / this.resolution) + 1;
+    const scores = new Float64Array(candidateCount);
+    const periodicity = new Float64Array(candidateCount);
+    const preferred = range.preferred ?? this.preferred;
+
+    let best = 0;
+    for (let i = 0; i < candidateCount; i++) {
+      const bpm = range.min + i * this.resolution;
+      const period = (60 * frameRate) / bpm;
+      const comb = this.combScore(acf, period, multiples);
+      periodicity[i] = comb;
+      // Log-normal prior, one octave wide, tips the balance between octave-related candidates
+      scores[i] = Math.max(0, comb) * Math.exp(-0.5 * Math.log2(bpm / preferred) ** 2);
+      if (scores[i] > scores[best]) best = i;
+    }
+    best = this.resolveMetricalLevel(best, scores, range.min, frameRate, acf, this.autocorrelate(lowEnvelope, maxLag));
+
+    const bpm = range.min + (best + this.parabolicOffset(scores, best)) * this.resolution;
+    const strength = Math.max(0, Math.min(1, periodicity[best] / acf[0]));
+    const margin = 1 - this.runnerUpScore(scores, best, range.min) / (scores[best] || 1);
+
+    return {
+      bpm: Math.round(bpm * 100) / 100,
+      confidence: Math.round(Math.sqrt(strength * (0.5 + 0.5 * margin)) * 1000) / 1000,
+    };
+  }
+
+  // Moves the winner to a metrical relative while one fits the music as a
+  // beat better. Each relative is taken at the strongest candidate near it.
+  private resolveMetricalLevel(
+    best: number,
+    scores: Float64Array,
+    minBpm: number,
+    frameRate: number,
+    acf: Float64Array,
+    lowAcf: Float64Array
+  ): number {
+    const bpmAt = (index: number) => minBpm + index * this.resolution;
+    const fit = (index: number) => this.metricalFit(acf, lowAcf, (60 * frameRate) / bpmAt(index));
+    const visited = new Set([best]);
+    let bestFit = fit(best);
+
+    for (let step = 0; step < METRICAL_RELATIVES.length; step++) {
+      let next = -1;
+      let nextFit = bestFit * METRICAL_SWITCH_MARGIN;
+      for (const ratio of METRICAL_RELATIVES) {
+        const relative = this.peakNear(scores, bpmAt(best) * ratio, minBpm);
+        if (relative < 0 || visited.has(relative)) continue;
+        const relativeFit = fit(relative);
+        if (relativeFit > nextFit) {
+          next = relative;
+          nextFit = relativeFit;
+        }
+      }
+      if (next < 0) break;
+      visited.add(next);
+      best = next;
+      bestFit = nextFit;
+    }
+    return best;
+  }
+
+  // How well a period works as the beat, apart from the prior. A beat has its
+  // kick-band onsets on the beat and not between (the comb over the low band),
+  // and subdivides in two: onsets half a period in, like off-beat hats, count
+  // for it, while onsets a third or two thirds in say the period spans three
+  // pulses, as a 3:2 reading of a straight beat does.
+  private metricalFit(acf: Float64Array, lowAcf: Float64Array, period: number): number {
+    const half = this.interpolate(acf, period / 2) ?? 0;
+    const third = this.interpolate(acf, period / 3) ?? 0;
+    const twoThirds = this.interpolate(acf, (2 * period) / 3) ?? 0;
+    const subdivision = (half - Math.max(third, twoThirds)) / acf[0];
+    const kick = lowAcf[0] > 0 ? Math.max(0, this.combScore(lowAcf, period, 4)) / lowAcf[0] : 0;
+    return Math.max(0, kick + 0.5 * subdivision) * (1 + 0.5 * Math.max(0, this.combScore(acf, period, 4)) / acf[0]);
+  }
+
+  // Index of the highest score within 2% of a tempo, or -1 when the tempo is
+  // outside the candidate grid
+  private peakNear(scores: Float64Array, bpm: number, minBpm: number): number {
+    const position = Math.round((bpm - minBpm) / this.resolution);
+    if (position < 0 || position > scores.length - 1) return -1;
+    const radius = Math.max(1, Math.round((bpm * 0.02) / this.resolution));
+    let peak = position;
+    for (let i = Math.max(0, position - radius); i <= Math.min(scores.length - 1, position + radius); i++) {
+      if (scores[i] > scores[peak]) peak = i;
+    }
+    return peak;
+  }
+
+  private autocorrelate(envelope: Float32Array, maxLag: number): Float64Array {
+    const acf = new Float64Array(maxLag + 1);
+    const length = envelope.length;
+    for (let lag = 0; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let i = lag; i < length; i++) {
+        sum += envelope[i] * envelope[i - lag];
+      }
+      // Unbiased estimate so long lags are not penalized for having fewer terms
+      acf[lag] = sum / (length - lag);
+    }
+    return acf;
+  }
+
+  // Autocorrelation at multiples of the beat period minus the midpoints between
+  // them. A half-tempo candidate lands its midpoints on real beats and is
+  // penalized, which is what separates a tempo from its slower octave.
+  private combScore(acf: Float64Array, period: number, multiples: number): number {
+    let score = 0;
+    let weightSum = 0;
+    for (let k = 1; k <= multiples; k++) {
+      const onBeat = this.interpolate(acf, k * period);
+      const offBeat = this.interpolate(acf, (k - 0.5) * period);
+      if (onBeat === null || offBeat === null) break;
+      const weight = 1 / Math.sqrt(k);
+      score += weight * (onBeat - 0.5 * offBeat);
+      weightSum += weight;
+    }
+    return weightSum > 0 ? score / weightSum : 0;
+  }
+
+  private interpolate(values: Float64Array, position: number): number | null {
+    const index = Math.floor(position);
+    if (index + 1 >= values.length) return null;
+    const fraction = position - index;
+    return values[index] * (1 - fraction) + values[index + 1] * fraction;
+  }
+
+  // Sub-step peak position from a parabola through the peak and its neighbours
+  private parabolicOffset(scores: Float64Array, index: number): number {
+    if (index <= 0 || index >= scores.length - 1) return 0;
+    const [left, centre, right] = [scores[index - 1], scores[index], scores[index + 1]];
+    const denominator = left - 2 * centre + right;
+    return denominator < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / denominator)) : 0;
+  }
+
+  // Highest competing local peak that is neither the winner itself nor one of
+  // its octaves, which describe the same pulse
+  private runnerUpScore(scores: Float64Array, best: number, minBpm: number): number {
+    const bestBpm = minBpm + best * this.resolution;
+    let runnerUp = 0;
+    for (let i = 1; i < scores.length - 1; i++) {
+      if (scores[i] < scores[i - 1] || scores[i] < scores[i + 1]) continue;
+      const ratio = (minBpm + i * this.resolution) / bestBpm;
+      const octaveDistance = Math.abs(Math.log2(ratio) - Math.round(Math.log2(ratio)));
+      if (Math.abs(Math.log2(ratio)) < 0.05 || octaveDistance < 0.05) continue;
+      runnerUp = Math.max(runnerUp, scores[i]);
+    }
+    return runnerUp;
+  }
+}
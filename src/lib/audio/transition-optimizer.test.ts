@@ -0,0 +1,45 @@
+import { describe, expect, it } from '@jest/globals';
+import { TrackFeatures } from '@/types';
+import { TransitionOptimizer } from './transition-optimizer';
+
+// 128 BPM track with a beat every 0.46875 s, at a given RMS level, with or
+// without a stored energy curve holding that level throughout
+function track(id: string, energyLevel: number | null, withCurve: boolean): TrackFeatures {
+  const beatPositions = Array.from({ length: 512 }, (_, i) => i * 60 / 128);
+  return {
+    id: `features-${id}`,
+    trackId: id,
+    tempo: 128,
+    musicalKey: 'Am',
+    energyLevel,
+    beatPositions,
+    energyCurve: withCurve && energyLevel !== null ? { interval: 1, values: new Array(240).fill(energyLevel) } : null,
+    duration: 240,
+    createdAt: new Date(0),
+  };
+}
+
+describe('TransitionOptimizer energy matching', () => {
+  const optimizer = new TransitionOptimizer();
+
+  it('scores a level difference the same with and without energy curves', () => {
+    const withCurves = optimizer.analyzeTransition(track('a', 0.2, true), track('b', 0.1, true));
+    const withoutCurves = optimizer.analyzeTransition(track('a', 0.2, false), track('b', 0.1, false));
+
+    expect(withCurves.optimalPoints.length).toBeGreaterThan(0); // Scored from the curves at each cue
+    // 0.2 vs 0.1 RMS is 6 dB apart, halfway to the 12 dB floor
+    expect(withCurves.energyMatchScore).toBeCloseTo(0.5, 2);
+    expect(withoutCurves.energyMatchScore).toBeCloseTo(withCurves.energyMatchScore, 6);
+  });
+
+  it('scores by ratio, not absolute difference', () => {
+    const quiet = optimizer.analyzeTransition(track('a', 0.02, false), track('b', 0.01, false));
+    const loud = optimizer.analyzeTransition(track('a', 0.4, false), track('b', 0.2, false));
+
+    expect(quiet.energyMatchScore).toBeCloseTo(loud.energyMatchScore, 6);
+  });
+
+  it('is neutral about tracks without a measured energy', () => {
+    expect(optimizer.analyzeTransition(track('a', null, false), track('b', 0.1, false)).energyMatchScore).toBe(0.5);
+  });
+});
@@ -1,31 +1,46 @@
 import { TrackFeatures, TransitionPoint } from '@/types';
+import { effectiveKey, effectiveTempo } from './comparison';
+import { energyAt } from './energy-curve';
+import { harmonicCompatibility, HarmonicMatch } from './harmonic-keys';
 
 export interface TransitionAnalysis {
   optimalPoints: TransitionPoint[];
   energyMatchScore: number;
   beatAlignmentScore: number;
   keyCompatibilityScore: number;
+  keyRelationship: string;
   recommendedLength: number;
   transitionType: 'beatmatch' | 'echo_out' | 'filter_fade' | 'quick_cut';
   confidence: number;
 }
 
+export interface TransitionOptions {
+  // Earliest outgoing-track time to mix out at, in seconds; set planning uses
+  // it to keep cue points near the end of a track instead of cutting it short
+  mixOutAfter?: number;
+}
+
 export class TransitionOptimizer {
   
-  analyzeTransition(fromTrack: TrackFeatures, toTrack: TrackFeatures): TransitionAnalysis {
-    const beatAlignment = this.analyzeBeatAlignment(fromTrack, toTrack);
-    const energyMatch = this.analyzeEnergyMatch(fromTrack, toTrack);
-    const keyCompatibility = this.analyzeKeyCompatibility(fromTrack, toTrack);
-    const phrasePoints = this.detectPhraseTransitions(fromTrack, toTrack);
-    const structuralPoints = this.findStructuralTransitions(fromTrack, toTrack);
+  analyzeTransition(fromTrack: TrackFeatures, toTrack: TrackFeatures, options: TransitionOptions = {}): TransitionAnalysis {
+    const mixOutAfter = options.mixOutAfter ?? 0;
+    const beatAlignment = this.analyzeBeatAlignment(fromTrack, toTrack, mixOutAfter);
+    const harmonic = this.analyzeKeyCompatibility(fromTrack, toTrack);
+    const keyCompatibility = harmonic.score;
+    const phrasePoints = this.detectPhraseTransitions(fromTrack, toTrack, mixOutAfter);
+    const structuralPoints = this.findStructuralTransitions(fromTrack, toTrack, mixOutAfter);
     
-    // Combine all analysis to find optimal transition points
-    const optimalPoints = this.combineTransitionPoints(
+    // Combine all analysis to find candidate transition points
+    const candidatePoints = this.combineTransitionPoints(
       beatAlignment.points,
       phrasePoints,
       structuralPoints
     );
 
+    // Rank the candidates by how well energy carries over at each cue
+    const energyMatch = this.analyzeEnergyMatch(fromTrack, toTrack, candidatePoints);
+    const optimalPoints = energyMatch.points;
+
     // Determine best transition type based on compatibility
     const transitionType = this.determineTransitionType(
       beatAlignment.score,
@@ -37,7 +52,7 @@ export class TransitionOptimizer {
     const recommendedLength = this.calculateTransitionLength(
       beatAlignment.score,
       energyMatch.score,
-      fromTrack.tempo ?? 120
+      effectiveTempo(fromTrack) ?? 120
     );
 
     return {
@@ -45,20 +60,21 @@ export class TransitionOptimizer {
       energyMatchScore: energyMatch.score,
       beatAlignmentScore: beatAlignment.score,
       keyCompatibilityScore: keyCompatibility,
+      keyRelationship: harmonic.label,
       recommendedLength,
       transitionType,
       confidence: this.calculateOverallConfidence(beatAlignment.score, energyMatch.score, keyCompatibility)
     };
   }
 
-  private analyzeBeatAlignment(fromTrack: TrackFeatures, toTrack: TrackFeatures): {
+  private analyzeBeatAlignment(fromTrack: TrackFeatures, toTrack: TrackFeatures, mixOutAfter: number): {
     score: number;
     points: Array<{ fromTime: number; toTime: number; strength: number }>;
   } {
-    const fromBPM = fromTrack.tempo ?? 120;
-    const toBPM = toTrack.tempo ?? 120;
-    const fromBeats = fromTrack.beatPositions ?? [];
-    const toBeats = toTrack.beatPositions ?? [];
+    const fromBPM = effectiveTempo(fromTrack) ?? 120;
+    const toBPM = effectiveTempo(toTrack) ?? 120;
+    const fromBeats = this.getDownbeats(fromTrack);
+    const toBeats = this.getDownbeats(toTrack);
 
     // Calculate BPM compatibility
     const bpmDifference = Math.abs(fromBPM - toBPM);
@@ -68,12 +84,9 @@ export class TransitionOptimizer {
     const alignmentPoints: Array<{ fromTime: number; toTime: number; strength: number }> = [];
     
     if (fromBeats.length > 0 && toBeats.length > 0) {
-      // Look for strong beat alignments (every 4th beat)
-      const fromStrongBeats = fromBeats.filter((_, index) => index % 4 === 0);
-      const toStrongBeats = toBeats.filter((_, index) => index % 4 === 0);
-
-      fromStrongBeats.forEach(fromBeat => {
-        toStrongBeats.forEach(toBeat => {
+      // Look for strong beat alignments (downbeats)
+      fromBeats.filter(fromBeat => fromBeat >= mixOutAfter).forEach(fromBeat => {
+        toBeats.forEach(toBeat => {
           if (toBeat < 30) { // Only consider first 30 seconds of incoming track
             const strength = this.calculateBeatStrength(fromBeat, toBeat, fromBPM, toBPM);
             if (strength > 0.6) { // Only include strong alignments
@@ -94,6 +107,20 @@ export class TransitionOptimizer {
     };
   }
 
+  // Tracked downbeats when a beat grid exists, otherwise every 4th beat
+  private getDownbeats(track: TrackFeatures): number[] {
+    if (track.beatGrid && track.beatGrid.downbeats.length > 0) {
+      return track.beatGrid.downbeats;
+    }
+    return (track.beatPositions ?? []).filter((_, index) => index % 4 === 0);
+  }
+
+  // Beats starting from the first downbeat, so phrase boundaries land on bar starts
+  private getBarAlignedBeats(track: TrackFeatures): number[] {
+    const beats = track.beatGrid?.beats ?? track.beatPositions ?? [];
+    return beats.slice(track.beatGrid?.firstDownbeatIndex ?? 0);
+  }
+
   private calculateBeatStrength(fromBeat: number, toBeat: number, fromBPM: number, toBPM: number): number {
     // Calculate how well beats would align during transition
     const bpmRatio = Math.min(fromBPM, toBPM) / Math.max(fromBPM, toBPM);
@@ -101,61 +128,52 @@ export class TransitionOptimizer {
     return bpmRatio * Math.abs(phaseAlignment);
   }
 
-  private analyzeEnergyMatch(fromTrack: TrackFeatures, toTrack: TrackFeatures): {
+  private analyzeEnergyMatch(fromTrack: TrackFeatures, toTrack: TrackFeatures, points: TransitionPoint[]): {
     score: number;
-    energyProfile: Array<{ time: number; energy: number }>;
+    points: TransitionPoint[];
   } {
-    const fromEnergy = fromTrack.energyLevel ?? 0.5;
-    const toEnergy = toTrack.energyLevel ?? 0.5;
-    
-    // Calculate energy compatibility
-    const energyDifference = Math.abs(fromEnergy - toEnergy);
-    const energyScore = Math.max(0, 1 - energyDifference * 2);
-
-    // Create simple energy profile (would be more sophisticated with real-time analysis)
-    const energyProfile = [
-      { time: 0, energy: toEnergy * 0.3 }, // Intro
-      { time: 10, energy: toEnergy * 0.6 }, // Build
-      { time: 20, energy: toEnergy }, // Full energy
-    ];
+    const fromEnergy = fromTrack.energyLevel ?? null;
+    const toEnergy = toTrack.energyLevel ?? null;
+    const fromCurve = fromTrack.energyCurve;
+    const toCurve = toTrack.energyCurve;
+
+    // Without curves, fall back to comparing whole-track energy levels
+    if (!fromCurve?.values.length || !toCurve?.values.length) {
+      return { score: this.energyLevelMatch(fromEnergy, toEnergy), points };
+    }
+
+    // Compare the outgoing track's energy over the mix window with the
+    // incoming track's energy from its cue
+    const rescored = points.map(point => {
+      const window = Math.max(point.length, 4);
+      const outgoing = energyAt(fromCurve, point.fromTrackTime, window) ?? fromEnergy;
+      const incoming = energyAt(toCurve, point.toTrackTime, window) ?? toEnergy;
+      const energyScore = this.energyLevelMatch(outgoing, incoming);
+      return { point: { ...point, score: point.score * (0.6 + 0.4 * energyScore) }, energyScore };
+    });
+    rescored.sort((a, b) => b.point.score - a.point.score);
 
     return {
-      score: energyScore,
-      energyProfile
+      score: rescored[0]?.energyScore ?? this.energyLevelMatch(fromEnergy, toEnergy),
+      points: rescored.map(({ point }) => point),
     };
   }
 
-  private analyzeKeyCompatibility(fromTrack: TrackFeatures, toTrack: TrackFeatures): number {
-    const fromKey = fromTrack.musicalKey ?? 'C';
-    const toKey = toTrack.musicalKey ?? 'C';
-
-    // Circle of fifths compatibility (reuse from comparison.ts logic)
-    const circleOfFifths: Record<string, number> = {
-      'C': 0, 'G': 1, 'D': 2, 'A': 3, 'E': 4, 'B': 5,
-      'F#': 6, 'C#': 7, 'G#': 8, 'D#': 9, 'A#': 10, 'F': 11,
-      'Cm': 12, 'Gm': 13, 'Dm': 14, 'Am': 15, 'Em': 16, 'Bm': 17,
-      'F#m': 18, 'C#m': 19, 'G#m': 20, 'D#m': 21, 'A#m': 22, 'Fm': 23
-    };
-
-    const pos1 = circleOfFifths[fromKey] ?? 0;
-    const pos2 = circleOfFifths[toKey] ?? 0;
-    
-    const distance = Math.min(
-      Math.abs(pos1 - pos2),
-      Math.abs(pos1 - pos2 + 12),
-      Math.abs(pos1 - pos2 - 12)
-    );
+  // RMS levels, curve points or whole tracks alike: 1 for equal loudness,
+  // falling to 0 at a 12 dB difference. Unknown levels neither help nor hurt.
+  private energyLevelMatch(a: number | null, b: number | null): number {
+    if (a === null || b === null) return 0.5;
+    if (a <= 0 || b <= 0) return a === b ? 1 : 0;
+    return Math.max(0, 1 - Math.abs(20 * Math.log10(a / b)) / 12);
+  }
 
-    if (distance === 0) return 1.0;
-    if (distance <= 1) return 0.8;
-    if (distance <= 2) return 0.6;
-    if (distance <= 3) return 0.4;
-    return 0.2;
+  private analyzeKeyCompatibility(fromTrack: TrackFeatures, toTrack: TrackFeatures): HarmonicMatch {
+    return harmonicCompatibility(effectiveKey(fromTrack), effectiveKey(toTrack));
   }
 
-  private detectPhraseTransitions(fromTrack: TrackFeatures, toTrack: TrackFeatures): TransitionPoint[] {
-    const fromBeats = fromTrack.beatPositions ?? [];
-    const toBeats = toTrack.beatPositions ?? [];
+  private detectPhraseTransitions(fromTrack: TrackFeatures, toTrack: TrackFeatures, mixOutAfter: number): TransitionPoint[] {
+    const fromBeats = this.getBarAlignedBeats(fromTrack);
+    const toBeats = this.getBarAlignedBeats(toTrack);
     const phrasePoints: TransitionPoint[] = [];
 
     // Detect 8, 16, 32 beat phrases
@@ -165,6 +183,7 @@ export class TransitionOptimizer {
       // Find phrase boundaries in outgoing track
       for (let i = phraseLength; i < fromBeats.length; i += phraseLength) {
         const fromTime = fromBeats[i];
+        if (fromTime < mixOutAfter) continue;
         
         // Find matching phrase start in incoming track
         for (let j = 0; j < Math.min(toBeats.length, phraseLength * 2); j += phraseLength) {
@@ -187,35 +206,47 @@ export class TransitionOptimizer {
     return phrasePoints.sort((a, b) => b.score - a.score).slice(0, 5);
   }
 
-  private findStructuralTransitions(fromTrack: TrackFeatures, toTrack: TrackFeatures): TransitionPoint[] {
+  private findStructuralTransitions(fromTrack: TrackFeatures, toTrack: TrackFeatures, mixOutAfter: number): TransitionPoint[] {
     const fromStructure = fromTrack.structureSegments ?? [];
     const toStructure = toTrack.structureSegments ?? [];
     const structuralPoints: TransitionPoint[] = [];
 
     // Find optimal structural transition points
     const preferredTransitions = [
+      { from: 'outro', to: 'intro', score: 1.0 },
       { from: 'chorus', to: 'intro', score: 1.0 },
-      { from: 'outro', to: 'intro', score: 0.9 },
+      { from: 'breakdown', to: 'intro', score: 0.9 },
+      { from: 'buildup', to: 'drop', score: 0.85 }, // Drop swap on the downbeat
+      { from: 'breakdown', to: 'buildup', score: 0.8 },
+      { from: 'outro', to: 'buildup', score: 0.8 },
       { from: 'verse', to: 'verse', score: 0.8 },
-      { from: 'chorus', to: 'verse', score: 0.7 },
-      { from: 'bridge', to: 'intro', score: 0.8 }
+      { from: 'bridge', to: 'intro', score: 0.8 },
+      { from: 'chorus', to: 'verse', score: 0.7 }
     ];
 
+    // Drops often arrive well past the first minute, so allow the opening third
+    const toDuration = toStructure[toStructure.length - 1]?.end ?? 0;
+    const entryWindow = Math.max(60, toDuration / 3);
+
     fromStructure.forEach(fromSegment => {
       toStructure.forEach(toSegment => {
         // Only consider transitions within reasonable time ranges
-        if (toSegment.start < 60) { // First minute of incoming track
+        if (toSegment.start < entryWindow) {
           const transition = preferredTransitions.find(
             t => t.from === fromSegment.type && t.to === toSegment.type
           );
           
           if (transition) {
+            const type = this.getTransitionTypeForStructure(fromSegment.type, toSegment.type);
+            // Cuts land on the section boundary; blends start 8 seconds before it
+            const fromTrackTime = type === 'quick_cut' ? fromSegment.end : fromSegment.end - 8;
+            if (fromTrackTime < mixOutAfter) return;
             structuralPoints.push({
-              fromTrackTime: fromSegment.end - 8, // 8 seconds before segment end
+              fromTrackTime,
               toTrackTime: toSegment.start,
               score: transition.score * fromSegment.confidence * toSegment.confidence,
-              type: this.getTransitionTypeForStructure(fromSegment.type, toSegment.type),
-              length: 16, // Default 16-second transition
+              type,
+              length: type === 'quick_cut' ? 0 : 16, // Default 16-second transition
               confidence: fromSegment.confidence * toSegment.confidence
             });
           }
@@ -228,6 +259,8 @@ export class TransitionOptimizer {
 
   private getTransitionTypeForStructure(fromType: string, toType: string): TransitionPoint['type'] {
     if (fromType === 'outro' && toType === 'intro') return 'echo_out';
+    if (fromType === 'buildup' && toType === 'drop') return 'quick_cut';
+    if (fromType === 'breakdown') return 'filter_fade';
     if (fromType === 'chorus' && toType === 'intro') return 'filter_fade';
     if (fromType === 'verse' && toType === 'verse') return 'beatmatch';
     return 'beatmatch';
@@ -346,14 +379,14 @@ export class TransitionOptimizer {
 
     // Key compatibility advice
     if (analysis.keyCompatibilityScore > 0.7) {
-      instructions.push('🎼 **Key Match**: Excellent harmonic compatibility');
+      instructions.push(`🎼 **Key Match**: Excellent harmonic compatibility (${analysis.keyRelationship})`);
     } else if (analysis.keyCompatibilityScore < 0.4) {
       instructions.push('⚠️ **Key Clash**: Consider using filter or echo to mask harmonic differences');
     }
 
     // BPM advice
-    const fromBPM = fromTrack.tempo ?? 120;
-    const toBPM = toTrack.tempo ?? 120;
+    const fromBPM = effectiveTempo(fromTrack) ?? 120;
+    const toBPM = effectiveTempo(toTrack) ?? 120;
     if (Math.abs(fromBPM - toBPM) > 5) {
       instructions.push(`📊 **BPM**: Gradually adjust from ${Math.round(fromBPM)} to ${Math.round(toBPM)} BPM`);
     }
@@ -0,0 +1,249 @@
+import { WaveformData, WaveformLevel } from '@/types';
+import { GrowableFloat32Array } from './frame-buffer';
+
+// Min/max peaks for drawing waveforms, at an overview that fits the whole
+// track and at detail levels for zooming in. Every bucket also carries the
+// RMS of three frequency bands, so a waveform can be colored by its content
+// (kick and bass, vocals and synths, hats and cymbals).
+
+// Seconds per bucket of the finest level; coarser levels are merged from it
+export const WAVEFORM_INTERVAL = 0.01;
+// Buckets in the zoom 0 overview, whatever the track length
+const OVERVIEW_BUCKETS = 1000;
+// Finest-level buckets merged into one bucket at zooms 1, 2 and 3
+const DETAIL_GROUPS = [16, 4, 1];
+// Detail levels beyond this many buckets are left out, so an hour-long mix
+// keeps its coarser zooms without storing megabytes of peaks
+const MAX_LEVEL_BUCKETS = 1 << 16;
+// Band edges of the low/mid/high split, Hz
+const LOW_BAND_CUTOFF = 250;
+const HIGH_BAND_CUTOFF = 4000;
+
+// Values per finest-level bucket: min, max and the mean square of each band
+const STRIDE = 5;
+
+export interface WaveformBands {
+  low: Float32Array;
+  mid: Float32Array;
+  high: Float32Array;
+}
+
+// A level decoded for drawing: peaks in -1..1, band levels in 0..1
+export interface WaveformPeaks {
+  zoom: number;
+  bucketDuration: number;
+  start: number;
+  length: number;
+  min: Float32Array;
+  max: Float32Array;
+  bands: WaveformBands;
+}
+
+export function computeWaveform(samples: Float32Array, sampleRate: number): WaveformData {
+  const extractor = new WaveformExtractor(sampleRate);
+  extractor.push(samples);
+  return extractor.finish();
+}
+
+// Collects finest-level buckets from audio that arrives in chunks and builds
+// every zoom level from them at the end
+export class WaveformExtractor {
+  private readonly sampleRate: number;
+  private readonly bucketLength: number;
+  private readonly lowCoefficient: number;
+  private readonly highCoefficient: number;
+  private readonly buckets = new GrowableFloat32Array(STRIDE * 4096);
+  private lowState = 0;
+  private highState = 0;
+  private min = Infinity;
+  private max = -Infinity;
+  private lowSum = 0;
+  private midSum = 0;
+  private highSum = 0;
+  private fill = 0;
+  private sampleCount = 0;
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+    this.bucketLength = Math.max(1, Math.round(WAVEFORM_INTERVAL * sampleRate));
+    // One-pole low-passes; gentle slopes are plenty for coloring
+    this.lowCoefficient = 1 - Math.exp(-2 * Math.PI * LOW_BAND_CUTOFF / sampleRate);
+    this.highCoefficient = 1 - Math.exp(-2 * Math.PI * Math.min(HIGH_BAND_CUTOFF, sampleRate * 0.45) / sampleRate);
+  }
+
+  push(samples: Float32Array): void {
+    const { lowCoefficient, highCoefficient, bucketLength } = this;
+    let { lowState, highState, min, max, lowSum, midSum, highSum, fill } = this;
+
+    for (let i = 0; i < samples.length; i++) {
+      const sample = samples[i];
+      lowState += lowCoefficient * (sample - lowState);
+      highState += highCoefficient * (sample - highState);
+      const mid = highState - lowState;
+      const high = sample - highState;
+
+      if (sample < min) min = sample;
+      if (sample > max) max = sample;
+      lowSum += lowState * lowState;
+      midSum += mid * mid;
+      highSum += high * high;
+
+      if (++fill === bucketLength) {
+        this.buckets.append(STRIDE).set([min, max, lowSum / fill, midSum / fill, highSum / fill]);
+        min = Infinity;
+        max = -Infinity;
+        lowSum = midSum = highSum = 0;
+        fill = 0;
+      }
+    }
+
+    this.lowState = lowState;
+    this.highState = highState;
+    this.min = min;
+    this.max = max;
+    this.lowSum = lowSum;
+    this.midSum = midSum;
+    this.highSum = highSum;
+    this.fill = fill;
+    this.sampleCount += samples.length;
+  }
+
+  // The trailing partial bucket counts as a bucket of its own
+  finish(): WaveformData {
+    if (this.fill > 0) {
+      this.buckets.append(STRIDE).set([this.min, this.max, this.lowSum / this.fill, this.midSum / this.fill, this.highSum / this.fill]);
+      this.min = Infinity;
+      this.max = -Infinity;
+      this.lowSum = this.midSum = this.highSum = 0;
+      this.fill = 0;
+    }
+    const buckets = this.buckets.toArray();
+    const count = buckets.length / STRIDE;
+    const interval = this.bucketLength / this.sampleRate;
+
+    const levels = [buildLevel(buckets, 0, Math.max(1, Math.ceil(count / OVERVIEW_BUCKETS)), interval)];
+    DETAIL_GROUPS.forEach((group, index) => {
+      if (Math.ceil(count / group) <= MAX_LEVEL_BUCKETS) {
+        levels.push(buildLevel(buckets, index + 1, group, interval));
+      }
+    });
+
+    return { duration: this.sampleCount / this.sampleRate, levels };
+  }
+}
+
+// Merge `group` finest-level buckets into each bucket of a level
+function buildLevel(buckets: Float32Array, zoom: number, group: number, interval: number): WaveformLevel {
+  const count = buckets.length / STRIDE;
+  const length = Math.ceil(count / group);
+  const peaks = new Int8Array(length * 2);
+  const bandRms = new Float32Array(length * 3);
+
+  for (let bucket = 0; bucket < length; bucket++) {
+    let min = Infinity;
+    let max = -Infinity;
+    const sums = [0, 0, 0];
+    const first = bucket * group;
+    const last = Math.min(count, first + group);
+    for (let i = first; i < last; i++) {
+      min = Math.min(min, buckets[i * STRIDE]);
+      max = Math.max(max, buckets[i * STRIDE + 1]);
+      for (let band = 0; band < 3; band++) sums[band] += buckets[i * STRIDE + 2 + band];
+    }
+    peaks[bucket * 2] = toSignedByte(min);
+    peaks[bucket * 2 + 1] = toSignedByte(max);
+    for (let band = 0; band < 3; band++) bandRms[bucket * 3 + band] = Math.sqrt(sums[band] / (last - first));
+  }
+
+  // Bands are relative to the loudest band in the level; only their balance
+  // matters for color, and the peaks already carry the level
+  let loudest = 0;
+  for (const value of bandRms) loudest = Math.max(loudest, value);
+  const bands = new Uint8Array(bandRms.length);
+  if (loudest > 0) {
+    for (let i = 0; i < bands.length; i++) bands[i] = Math.round((bandRms[i] / loudest) * 255);
+  }
+
+  return {
+    zoom,
+    bucketDuration: group * interval,
+    start: 0,
+    length,
+    peaks: toBase64(new Uint8Array(peaks.buffer)),
+    bands: toBase64(bands),
+  };
+}
+
+// Coarsest detail zoom that still has a bucket per pixel at the given scale;
+// views of the whole track use the overview instead
+export function zoomForResolution(secondsPerPixel: number): number {
+  let zoom = 1;
+  DETAIL_GROUPS.forEach((group, index) => {
+    if (group * WAVEFORM_INTERVAL > secondsPerPixel) zoom = index + 2;
+  });
+  return Math.min(zoom, DETAIL_GROUPS.length);
+}
+
+// The level to serve for a requested zoom: the finest stored one at or below it
+export function selectWaveformLevel(waveform: WaveformData, zoom: number): WaveformLevel | null {
+  const candidates = waveform.levels.filter(level => level.zoom <= zoom);
+  return candidates.length > 0
+    ? candidates.reduce((best, level) => (level.zoom > best.zoom ? level : best))
+    : waveform.levels[0] ?? null;
+}
+
+// The buckets of a level that overlap [startTime, endTime), for drawing a
+// window of a long track without fetching all of it
+export function sliceWaveformLevel(level: WaveformLevel, startTime: number, endTime: number): WaveformLevel {
+  const first = Math.max(0, Math.min(level.length, Math.floor((startTime - level.start) / level.bucketDuration)));
+  const last = Math.max(first, Math.min(level.length, Math.ceil((endTime - level.start) / level.bucketDuration)));
+
+  return {
+    ...level,
+    start: level.start + first * level.bucketDuration,
+    length: last - first,
+    peaks: toBase64(fromBase64(level.peaks).subarray(first * 2, last * 2)),
+    bands: toBase64(fromBase64(level.bands).subarray(first * 3, last * 3)),
+  };
+}
+
+export function decodeWaveformLevel(level: WaveformLevel): WaveformPeaks {
+  const peaks = new Int8Array(fromBase64(level.peaks).buffer);
+  const bands = fromBase64(level.bands);
+  const length = Math.min(level.length, Math.floor(peaks.length / 2), Math.floor(bands.length / 3));
+
+  const decoded: WaveformPeaks = {
+    zoom: level.zoom,
+    bucketDuration: level.bucketDuration,
+    start: level.start,
+    length,
+    min: new Float32Array(length),
+    max: new Float32Array(length),
+    bands: { low: new Float32Array(length), mid: new Float32Array(length), high: new Float32Array(length) },
+  };
+  for (let i = 0; i < length; i++) {
+    decoded.min[i] = peaks[i * 2] / 127;
+    decoded.max[i] = peaks[i * 2 + 1] / 127;
+    decoded.bands.low[i] = bands[i * 3] / 255;
+    decoded.bands.mid[i] = bands[i * 3 + 1] / 255;
+    decoded.bands.high[i] = bands[i * 3 + 2] / 255;
+  }
+  return decoded;
+}
+
+function toSignedByte(value: number): number {
+  return Number.isFinite(value) ? Math.max(-127, Math.min(127, Math.round(value * 127))) : 0;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,89 @@
+import { Prisma, Track as PrismaTrack, TrackFeatures as PrismaTrackFeatures } from '@prisma/client';
+import {
+  AnalysisParams,
+  BeatGrid,
+  EnergyCurve,
+  FeatureStatusMap,
+  KeyChange,
+  StructureSegment,
+  TempoCurvePoint,
+  TrackFeatures,
+} from '@/types';
+
+// Helper functions for safe type conversion
+export function safeNumberArray(value: Prisma.JsonValue): number[] | null {
+  return Array.isArray(value) && value.every(item => typeof item === 'number') ? value as number[] : null;
+}
+
+export function safeStructureSegments(value: Prisma.JsonValue): StructureSegment[] | null {
+  return Array.isArray(value) ? value as unknown as StructureSegment[] : null;
+}
+
+export function safeTempoCurve(value: Prisma.JsonValue): TempoCurvePoint[] | null {
+  return Array.isArray(value) ? value as unknown as TempoCurvePoint[] : null;
+}
+
+export function safeKeyChanges(value: Prisma.JsonValue): KeyChange[] | null {
+  return Array.isArray(value) ? value as unknown as KeyChange[] : null;
+}
+
+export function safeBeatGrid(value: Prisma.JsonValue): BeatGrid | null {
+  return value && typeof value === 'object' && !Array.isArray(value) && Array.isArray(value.beats)
+    ? value as unknown as BeatGrid
+    : null;
+}
+
+export function safeEnergyCurve(value: Prisma.JsonValue): EnergyCurve | null {
+  return value && typeof value === 'object' && !Array.isArray(value) && Array.isArray(value.values)
+    ? value as unknown as EnergyCurve
+    : null;
+}
+
+export function safeObject<T>(value: Prisma.JsonValue): T | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as unknown as T : null;
+}
+
+// Convert Prisma data to our TypeScript interface. Pass the track to carry
+// its manual BPM/key overrides and duration along.
+export function convertPrismaToTrackFeatures(
+  prismaFeatures: PrismaTrackFeatures,
+  track?: Pick<PrismaTrack, 'bpmOverride' | 'keyOverride' | 'duration'>
+): TrackFeatures {
+  return {
+    id: prismaFeatures.id,
+    trackId: prismaFeatures.trackId,
+    tempo: prismaFeatures.tempo,
+    tempoConfidence: prismaFeatures.tempoConfidence,
+    tempoCurve: safeTempoCurve(prismaFeatures.tempoCurve),
+    musicalKey: prismaFeatures.musicalKey,
+    bpmOverride: track?.bpmOverride ?? null,
+    keyOverride: track?.keyOverride ?? null,
+    duration: track?.duration ?? null,
+    camelotKey: prismaFeatures.camelotKey,
+    keyConfidence: prismaFeatures.keyConfidence,
+    alternateKey: prismaFeatures.alternateKey,
+    keyChanges: safeKeyChanges(prismaFeatures.keyChanges),
+    energyLevel: prismaFeatures.energyLevel,
+    loudness: prismaFeatures.loudness,
+    truePeak: prismaFeatures.truePeak,
+    danceability: prismaFeatures.danceability,
+    valence: prismaFeatures.valence,
+    spectralCentroid: prismaFeatures.spectralCentroid,
+    spectralRolloff: prismaFeatures.spectralRolloff,
+    zeroCrossingRate: prismaFeatures.zeroCrossingRate,
+    mfcc: safeNumberArray(prismaFeatures.mfcc),
+    mfccVariance: safeNumberArray(prismaFeatures.mfccVariance),
+    chroma: safeNumberArray(prismaFeatures.chroma),
+    beatPositions: safeNumberArray(prismaFeatures.beatPositions),
+    beatGrid: safeBeatGrid(prismaFeatures.beatGrid),
+    energyCurve: safeEnergyCurve(prismaFeatures.energyCurve),
+    structureSegments: safeStructureSegments(prismaFeatures.structureSegments),
+    fingerprint: prismaFeatures.fingerprint,
+    waveformPath: prismaFeatures.waveformPath,
+    analyzerVersion: prismaFeatures.analyzerVersion,
+    featureStatus: safeObject<FeatureStatusMap>(prismaFeatures.featureStatus),
+    analysisParams: safeObject<AnalysisParams>(prismaFeatures.analysisParams),
+    degraded: prismaFeatures.degraded,
+    createdAt: prismaFeatures.createdAt,
+  };
+}
@@ -0,0 +1,135 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { AnalysisQueue } from './analysis-queue';
+
+type Row = Record<string, unknown> & { id: string };
+
+// In-memory stand-in for the analysis_jobs table, covering the filters and
+// updates the queue issues
+const jobs: Row[] = [];
+
+function resolve(row: Row, value: unknown): unknown {
+  return value && typeof value === 'object' && 'fieldRef' in value ? row[(value as { fieldRef: string }).fieldRef] : value;
+}
+
+function matches(row: Row, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    const value = row[field] as number | Date;
+    if (condition === null || typeof condition !== 'object' || condition instanceof Date) return value === condition;
+    const { lt, lte, gte, in: among } = condition as Record<string, unknown>;
+    if (lt !== undefined && !(value < (resolve(row, lt) as number | Date))) return false;
+    if (lte !== undefined && !(value <= (resolve(row, lte) as number | Date))) return false;
+    if (gte !== undefined && !(value >= (resolve(row, gte) as number | Date))) return false;
+    if (among !== undefined && !(among as unknown[]).includes(value)) return false;
+    return true;
+  });
+}
+
+function apply(row: Row, data: Record<string, unknown>): void {
+  for (const [field, value] of Object.entries(data)) {
+    row[field] = value && typeof value === 'object' && 'increment' in value
+      ? (row[field] as number) + (value as { increment: number }).increment
+      : value;
+  }
+  row.updatedAt = new Date();
+}
+
+jest.mock('@/lib/database/connection', () => ({
+  prisma: {
+    analysisJob: {
+      fields: { maxAttempts: { fieldRef: 'maxAttempts' } },
+      findFirst: async ({ where }: { where: Record<string, unknown> }) =>
+        jobs.filter(row => matches(row, where))
+          .sort((a, b) => (a.runAfter as Date).getTime() - (b.runAfter as Date).getTime())[0] ?? null,
+      findUniqueOrThrow: async ({ where }: { where: { id: string } }) => ({ ...jobs.find(row => row.id === where.id)! }),
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        const row: Row = {
+          id: `job-${jobs.length + 1}`, status: 'queued', stage: null, progress: 0, attempts: 0, maxAttempts: 3,
+          error: null, analyzerVersion: null, runAfter: new Date(), startedAt: null, finishedAt: null,
+          createdAt: new Date(), updatedAt: new Date(), ...data,
+        };
+        jobs.push(row);
+        return { ...row };
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+        const row = jobs.find(job => job.id === where.id)!;
+        apply(row, data);
+        return { ...row };
+      },
+      updateMany: async ({ where, data }: { where: Record<string, unknown>; data: Record<string, unknown> }) => {
+        const rows = jobs.filter(row => matches(row, where));
+        rows.forEach(row => apply(row, data));
+        return { count: rows.length };
+      },
+    },
+  },
+}));
+
+// Leaves the job as a worker that died mid-run would: running, with no update
+// for longer than the stall timeout
+function stall(jobId: string): void {
+  jobs.find(row => row.id === jobId)!.updatedAt = new Date(Date.now() - 60_000);
+}
+
+describe('AnalysisQueue', () => {
+  let queue: AnalysisQueue;
+
+  // Imported once the database mock is registered
+  beforeAll(async () => {
+    const { AnalysisQueue } = await import('./analysis-queue');
+    queue = new AnalysisQueue();
+  });
+
+  beforeEach(() => {
+    jobs.length = 0;
+  });
+
+  it('re-queues a stalled job that has attempts left', async () => {
+    const job = await queue.enqueue('track-1');
+    await queue.claimNext();
+    stall(job.id);
+
+    expect(await queue.recoverStalledJobs(30_000)).toEqual({ requeued: 1, failed: 0 });
+    expect(jobs[0]).toMatchObject({ status: 'queued', attempts: 1 });
+  });
+
+  it('leaves jobs with a recent update running', async () => {
+    await queue.enqueue('track-1');
+    await queue.claimNext();
+
+    expect(await queue.recoverStalledJobs(30_000)).toEqual({ requeued: 0, failed: 0 });
+    expect(jobs[0].status).toBe('running');
+  });
+
+  it('fails a job that keeps stopping the worker once maxAttempts is used up', async () => {
+    const job = await queue.enqueue('track-1', { maxAttempts: 2 });
+
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      const claimed = await queue.claimNext();
+      expect(claimed?.attempts).toBe(attempt);
+      stall(job.id);
+      await queue.recoverStalledJobs(30_000);
+    }
+
+    expect(jobs[0]).toMatchObject({ status: 'failed', error: 'Worker stopped during analysis', attempts: 2 });
+    expect(jobs[0].finishedAt).toBeInstanceOf(Date);
+    expect(await queue.claimNext()).toBeNull();
+  });
+
+  it('retries a failed job with backoff until maxAttempts, then fails it', async () => {
+    await queue.enqueue('track-1', { maxAttempts: 2 });
+
+    const first = (await queue.claimNext())!;
+    await queue.fail(first, 'decoder error');
+    expect(jobs[0]).toMatchObject({ status: 'queued', error: 'decoder error' });
+    expect((jobs[0].runAfter as Date).getTime()).toBeGreaterThan(Date.now());
+    expect(await queue.claimNext()).toBeNull(); // Still backing off
+
+    jobs[0].runAfter = new Date(Date.now() - 1);
+    const second = (await queue.claimNext())!;
+    expect(second.attempts).toBe(2);
+    await queue.fail(second, 'decoder error');
+
+    expect(jobs[0]).toMatchObject({ status: 'failed', error: 'decoder error' });
+    expect(await queue.claimNext()).toBeNull();
+  });
+});
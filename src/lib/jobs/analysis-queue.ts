@@ -0,0 +1,220 @@
+import { prisma } from '@/lib/database/connection';
+import { AnalysisJob, AnalysisJobStatus } from '@/types';
+
+export interface EnqueueOptions {
+  delayMs?: number; // Hold the job back, e.g. to give browser-side analysis a chance to finish first
+  maxAttempts?: number;
+}
+
+const ACTIVE_STATUSES: AnalysisJobStatus[] = ['queued', 'running'];
+const RETRY_BASE_DELAY_MS = 30_000;
+// A worker counts as running while its heartbeat is this fresh. Analysis stages
+// keep a worker busy between heartbeats, so this allows for long ones.
+const WORKER_HEARTBEAT_TTL_MS = 2 * 60_000;
+
+// Persistent queue of track analysis jobs backed by the analysis_jobs table.
+// Claiming uses a conditional update so several workers can share the queue.
+export class AnalysisQueue {
+
+  async enqueue(trackId: string, options: EnqueueOptions = {}): Promise<AnalysisJob> {
+    const runAfter = new Date(Date.now() + (options.delayMs ?? 0));
+
+    // A track only ever needs one pending analysis
+    const existing = await prisma.analysisJob.findFirst({
+      where: { trackId, status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (existing) {
+      if (existing.status === 'queued' && existing.runAfter > runAfter) {
+        return this.toJob(await prisma.analysisJob.update({
+          where: { id: existing.id },
+          data: { runAfter }
+        }));
+      }
+      return this.toJob(existing);
+    }
+
+    return this.toJob(await prisma.analysisJob.create({
+      data: {
+        trackId,
+        runAfter,
+        maxAttempts: options.maxAttempts ?? 3
+      }
+    }));
+  }
+
+  // Atomically take the next due job, or return null when there is none
+  async claimNext(): Promise<AnalysisJob | null> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const candidate = await prisma.analysisJob.findFirst({
+        where: { status: 'queued', runAfter: { lte: new Date() } },
+        orderBy: { runAfter: 'asc' }
+      });
+
+      if (!candidate) return null;
+
+      const claimed = await prisma.analysisJob.updateMany({
+        where: { id: candidate.id, status: 'queued' },
+        data: {
+          status: 'running',
+          stage: 'starting',
+          progress: 0,
+          attempts: { increment: 1 },
+          startedAt: new Date(),
+          error: null
+        }
+      });
+
+      // Another worker got there first; try the next candidate
+      if (claimed.count === 1) {
+        return this.toJob(await prisma.analysisJob.findUniqueOrThrow({ where: { id: candidate.id } }));
+      }
+    }
+
+    return null;
+  }
+
+  async updateProgress(jobId: string, stage: string, progress: number): Promise<void> {
+    await prisma.analysisJob.update({
+      where: { id: jobId },
+      data: { stage, progress: Math.max(0, Math.min(1, progress)) }
+    });
+  }
+
+  async complete(jobId: string, analyzerVersion: string): Promise<void> {
+    await prisma.analysisJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'succeeded',
+        stage: 'complete',
+        progress: 1,
+        analyzerVersion,
+        finishedAt: new Date()
+      }
+    });
+  }
+
+  // Failed jobs are retried with exponential backoff until maxAttempts is reached
+  async fail(job: AnalysisJob, error: string): Promise<void> {
+    const canRetry = job.attempts < job.maxAttempts;
+
+    await prisma.analysisJob.update({
+      where: { id: job.id },
+      data: canRetry
+        ? {
+            status: 'queued',
+            error,
+            runAfter: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1))
+          }
+        : {
+            status: 'failed',
+            error,
+            finishedAt: new Date()
+          }
+    });
+  }
+
+  // Pending jobs become redundant once a client has posted its own analysis
+  async completePendingForTrack(trackId: string, analyzerVersion: string | null): Promise<void> {
+    await prisma.analysisJob.updateMany({
+      where: { trackId, status: 'queued' },
+      data: {
+        status: 'succeeded',
+        stage: 'complete',
+        progress: 1,
+        analyzerVersion,
+        finishedAt: new Date()
+      }
+    });
+  }
+
+  // Put jobs whose worker died mid-run back in the queue. A crash counts as an
+  // attempt, so a track that kills the worker every time ends up failed
+  // instead of being picked up forever.
+  async recoverStalledJobs(stalledAfterMs: number): Promise<{ requeued: number; failed: number }> {
+    const stalled = {
+      status: 'running',
+      updatedAt: { lt: new Date(Date.now() - stalledAfterMs) }
+    };
+
+    const failed = await prisma.analysisJob.updateMany({
+      where: { ...stalled, attempts: { gte: prisma.analysisJob.fields.maxAttempts } },
+      data: {
+        status: 'failed',
+        error: 'Worker stopped during analysis',
+        finishedAt: new Date()
+      }
+    });
+    const requeued = await prisma.analysisJob.updateMany({
+      where: { ...stalled, attempts: { lt: prisma.analysisJob.fields.maxAttempts } },
+      data: { status: 'queued', stage: null, runAfter: new Date() }
+    });
+
+    return { requeued: requeued.count, failed: failed.count };
+  }
+
+  // Queue every track that is unanalyzed or was analyzed by a different analyzer
+  // version, and optionally tracks whose features include defaulted or failed values
+  async requeueOutdated(
+    currentVersion: string,
+    options: { includeUnanalyzed?: boolean; includeDegraded?: boolean } = {}
+  ): Promise<number> {
+    const tracks = await prisma.track.findMany({
+      where: {
+        OR: [
+          {
+            features: {
+              OR: [
+                { analyzerVersion: null },
+                { analyzerVersion: { not: currentVersion } }
+              ]
+            }
+          },
+          ...((options.includeUnanalyzed ?? true) ? [{ features: { is: null } }] : []),
+          ...(options.includeDegraded ? [{ features: { is: { degraded: true } } }] : [])
+        ]
+      },
+      select: { id: true }
+    });
+
+    for (const track of tracks) {
+      await this.enqueue(track.id);
+    }
+
+    return tracks.length;
+  }
+
+  // Workers refresh their heartbeat while polling and while analyzing
+  async heartbeat(workerId: string): Promise<void> {
+    await prisma.analysisWorkerHeartbeat.upsert({
+      where: { id: workerId },
+      create: { id: workerId },
+      update: { lastSeenAt: new Date() }
+    });
+  }
+
+  async removeHeartbeat(workerId: string): Promise<void> {
+    await prisma.analysisWorkerHeartbeat.deleteMany({ where: { id: workerId } });
+  }
+
+  // Whether any worker has checked in recently enough to pick up queued jobs
+  async isWorkerRunning(): Promise<boolean> {
+    const live = await prisma.analysisWorkerHeartbeat.count({
+      where: { lastSeenAt: { gte: new Date(Date.now() - WORKER_HEARTBEAT_TTL_MS) } }
+    });
+    return live > 0;
+  }
+
+  async getLatestForTrack(trackId: string): Promise<AnalysisJob | null> {
+    const job = await prisma.analysisJob.findFirst({
+      where: { trackId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return job ? this.toJob(job) : null;
+  }
+
+  private toJob(job: Omit<AnalysisJob, 'status'> & { status: string }): AnalysisJob {
+    return { ...job, status: job.status as AnalysisJobStatus };
+  }
+}
@@ -0,0 +1,96 @@
+import { hostname } from 'os';
+import { analyzeStoredTrack, saveAnalysisResult } from '@/lib/analysis/track-analysis';
+import { AnalysisQueue } from './analysis-queue';
+
+export interface AnalysisWorkerOptions {
+  pollIntervalMs?: number;
+  stalledAfterMs?: number; // Running jobs without updates for this long are assumed dead
+}
+
+// Polls the analysis queue and runs jobs one at a time. Analysis is CPU-bound,
+// so this runs in its own process (scripts/analysis-worker.ts), not the web server.
+export class AnalysisWorker {
+  private readonly queue = new AnalysisQueue();
+  private readonly id = `${hostname()}:${process.pid}`;
+  private readonly pollIntervalMs: number;
+  private readonly stalledAfterMs: number;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: AnalysisWorkerOptions = {}) {
+    this.pollIntervalMs = options.pollIntervalMs ?? 5_000;
+    this.stalledAfterMs = options.stalledAfterMs ?? 10 * 60_000;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    console.log('Analysis worker started');
+    this.schedule(0);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.queue.removeHeartbeat(this.id);
+  }
+
+  // Process every due job, returning how many were handled
+  async drain(): Promise<number> {
+    let processed = 0;
+    while (await this.processNext()) {
+      processed++;
+    }
+    return processed;
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      await this.queue.heartbeat(this.id);
+      const recovered = await this.queue.recoverStalledJobs(this.stalledAfterMs);
+      if (recovered.requeued > 0) {
+        console.warn(`Re-queued ${recovered.requeued} stalled analysis job(s)`);
+      }
+      if (recovered.failed > 0) {
+        console.warn(`Failed ${recovered.failed} stalled analysis job(s) that used up their attempts`);
+      }
+      await this.drain();
+    } catch (error) {
+      console.error('Analysis worker error:', error);
+    } finally {
+      this.schedule(this.pollIntervalMs);
+    }
+  }
+
+  private async processNext(): Promise<boolean> {
+    if (!this.running) return false;
+
+    const job = await this.queue.claimNext();
+    if (!job) return false;
+
+    try {
+      const result = await analyzeStoredTrack(job.trackId, async (stage, progress) => {
+        await this.queue.updateProgress(job.id, stage, progress);
+        await this.queue.heartbeat(this.id);
+      });
+
+      await this.queue.updateProgress(job.id, 'saving', 0.9);
+      await saveAnalysisResult(job.trackId, result);
+      await this.queue.complete(job.id, result.analyzerVersion);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown analysis error';
+      console.error(`Analysis job ${job.id} for track ${job.trackId} failed:`, message);
+      await this.queue.fail(job, message);
+    }
+
+    return true;
+  }
+}
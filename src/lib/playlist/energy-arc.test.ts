@@ -0,0 +1,147 @@
+import { describe, expect, it } from '@jest/globals';
+import { CompatibilityScore, TrackFeatures } from '@/types';
+import { TrackComparator } from '@/lib/audio/comparison';
+import { EnergyArcPoint, energyFocus, EnergyScale, energyTargetAt, parseEnergyArc, presetEnergyArc } from './energy-arc';
+import { SequencedSet, SetSequencer } from './set-sequencer';
+
+function track(id: string, energyLevel: number | null, duration: number | null = 240): TrackFeatures {
+  return { id: `features-${id}`, trackId: id, tempo: 128, musicalKey: 'Am', energyLevel, duration, createdAt: new Date(0) };
+}
+
+// Every transition mixes equally well, so only the arc decides the order
+const flatComparator = {
+  calculateCompatibility: (): CompatibilityScore => ({ overall: 0.5, tempo: 0.5, key: 0.5, energy: 0.5, spectral: 0.5, rhythm: 0.5 }),
+} as unknown as TrackComparator;
+
+function sequenced(set: SequencedSet | { error: string }): SequencedSet {
+  if ('error' in set) throw new Error(set.error);
+  return set;
+}
+
+describe('energyTargetAt', () => {
+  const arc: EnergyArcPoint[] = [{ position: 0.2, energy: 0.4 }, { position: 0.6, energy: 0.8 }, { position: 1, energy: 0.2 }];
+
+  it('interpolates between points and holds flat past the ends', () => {
+    expect(energyTargetAt(arc, 0)).toBe(0.4);
+    expect(energyTargetAt(arc, 0.4)).toBeCloseTo(0.6, 9);
+    expect(energyTargetAt(arc, 0.8)).toBeCloseTo(0.5, 9);
+    expect(energyTargetAt(arc, 1.5)).toBe(0.2);
+  });
+
+  it('holds the seed level for maintain', () => {
+    expect(presetEnergyArc('maintain', 0.3)).toEqual([{ position: 0, energy: 0.3 }, { position: 1, energy: 0.3 }]);
+  });
+
+  it('sorts custom points and rejects bad ones', () => {
+    expect(parseEnergyArc([{ position: 1, energy: 0.9 }, { position: 0, energy: 0.1 }])).toEqual([
+      { position: 0, energy: 0.1 },
+      { position: 1, energy: 0.9 },
+    ]);
+    expect(parseEnergyArc('peak')).toMatchObject({ error: 'Invalid energy arc' });
+    expect(parseEnergyArc([{ position: 0.5, energy: 1.2 }])).toMatchObject({ error: 'Invalid energy arc' });
+  });
+});
+
+describe('EnergyScale', () => {
+  it('ranks energy within the pool, ties in the middle of their run', () => {
+    const scale = new EnergyScale([track('a', 0.1), track('b', 0.2), track('c', 0.2), track('d', 0.4), track('e', null)]);
+
+    expect(scale.relative(track('x', 0.1))).toBe(0);
+    expect(scale.relative(track('x', 0.2))).toBe(0.5);
+    expect(scale.relative(track('x', 0.4))).toBe(1);
+    expect(scale.relative(track('x', null))).toBeNull();
+  });
+});
+
+// A steady 0.1 RMS with a 20 s surge to 0.4 starting at `peakAt`
+function peakingTrack(id: string, peakAt: number, energyLevel = 0.15): TrackFeatures {
+  const values = Array.from({ length: 240 }, (_, second) => (second >= peakAt && second < peakAt + 20 ? 0.4 : 0.1));
+  return { ...track(id, energyLevel), energyCurve: { interval: 1, values } };
+}
+
+describe('energyFocus', () => {
+  it('is the middle of the loudest 8 s of the energy curve', () => {
+    expect(energyFocus(peakingTrack('a', 150), 204)).toBe(154);
+  });
+
+  it('is the end of the played part when the set leaves before the peak', () => {
+    expect(energyFocus(peakingTrack('a', 150), 120)).toBe(120);
+  });
+
+  it('is halfway through the play without a measured curve', () => {
+    expect(energyFocus(track('a', 0.15), 204)).toBe(102);
+    expect(energyFocus({ ...peakingTrack('a', 150), featureStatus: { energyCurve: { status: 'failed' } } }, 204)).toBe(102);
+  });
+});
+
+describe('SetSequencer with an energy arc', () => {
+  const pool = [0.3, 0.7, 0.1, 0.6, 0.5, 0.2].map((energy, i) => track(`t${i}`, energy));
+
+  it('climbs for a rising arc', () => {
+    const set = sequenced(new SetSequencer(flatComparator).sequence(track('seed', 0.05), pool, {
+      length: 7,
+      energyArc: [{ position: 0, energy: 0 }, { position: 1, energy: 1 }],
+    }));
+
+    expect(set.tracks.map(features => features.energyLevel)).toEqual([0.05, 0.1, 0.2, 0.3, 0.5, 0.6, 0.7]);
+    expect(set.energy!.meanDeviation).toBeLessThan(0.1);
+  });
+
+  it('comes down for a falling arc', () => {
+    const set = sequenced(new SetSequencer(flatComparator).sequence(track('seed', 0.8), pool, {
+      length: 7,
+      energyArc: [{ position: 0, energy: 1 }, { position: 1, energy: 0 }],
+    }));
+
+    expect(set.tracks.map(features => features.energyLevel)).toEqual([0.8, 0.7, 0.6, 0.5, 0.3, 0.2, 0.1]);
+  });
+
+  it('places each track by the play time before it, so a long track takes more of the arc', () => {
+    // Quiet for the first half of the set's play time, then loud
+    const arc: EnergyArcPoint[] = [{ position: 0, energy: 0 }, { position: 0.5, energy: 0 }, { position: 0.6, energy: 1 }, { position: 1, energy: 1 }];
+    const candidates = [track('quiet-1', 0.12, 200), track('quiet-2', 0.15, 200), ...[0.8, 0.85, 0.9, 0.95].map((energy, i) => track(`loud-${i}`, energy, 200))];
+
+    // A 1000 s seed plays for 850 s, well past half of the 1360 s set
+    const set = sequenced(new SetSequencer(flatComparator).sequence(track('seed', 0.1, 1000), candidates, {
+      length: 4,
+      energyArc: arc,
+      duration: 850 + 3 * 170,
+    }));
+
+    expect(set.tracks.slice(1).every(features => features.energyLevel! >= 0.8)).toBe(true);
+    // Halfway through each track's 850 s or 170 s of play
+    expect(set.energy!.slots.map(slot => slot.position)).toEqual([425, 935, 1105, 1275].map(time => time / 1360));
+  });
+
+  it('judges tracks with an energy curve where they peak', () => {
+    const set = sequenced(new SetSequencer(flatComparator).sequence(peakingTrack('seed', 20), [peakingTrack('a', 180)], {
+      length: 2,
+      energyArc: presetEnergyArc('build', 0),
+      duration: 400,
+    }));
+
+    // Each plays 204 s; the second comes in after the seed's
+    expect(set.energy!.slots.map(slot => slot.position)).toEqual([24 / 400, (204 + 184) / 400]);
+  });
+
+  it('picks the track whose peak lands where the arc is high', () => {
+    // Quiet until just past halfway, then loud
+    const arc: EnergyArcPoint[] = [{ position: 0, energy: 0 }, { position: 0.55, energy: 0 }, { position: 0.6, energy: 1 }, { position: 1, energy: 1 }];
+    const set = sequenced(new SetSequencer(flatComparator).sequence(
+      track('seed', 0.05),
+      [peakingTrack('early', 10, 0.3), peakingTrack('late', 190, 0.3)],
+      { length: 2, energyArc: arc, duration: 408 }
+    ));
+
+    expect(set.tracks.map(features => features.trackId)).toEqual(['seed', 'late']);
+  });
+
+  it('shares the arc out evenly when no track length is known', () => {
+    const set = sequenced(new SetSequencer(flatComparator).sequence(track('seed', 0.1, null), [track('a', 0.2, null), track('b', 0.3, null)], {
+      length: 3,
+      energyArc: presetEnergyArc('build', 0),
+    }));
+
+    expect(set.energy!.slots.map(slot => slot.position)).toEqual([1 / 6, 3 / 6, 5 / 6]);
+  });
+});
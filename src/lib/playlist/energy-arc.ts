@@ -0,0 +1,140 @@
+import { TrackFeatures } from '@/types';
+import { energyPeak } from '@/lib/audio/energy-curve';
+
+// Target energy curves for a set. Targets are relative to the library, 0 the
+// calmest track and 1 the most intense, because measured energy is raw RMS
+// whose range depends on how the music was mastered.
+
+export const ENERGY_ARC_PRESETS = ['warm-up', 'peak-time', 'sunrise', 'build', 'maintain', 'vary'] as const;
+export type EnergyArcPreset = typeof ENERGY_ARC_PRESETS[number];
+
+export interface EnergyArcPoint {
+  position: number; // How far through the set's play time, 0 (start) to 1 (end)
+  energy: number; // Relative to the library, 0-1
+}
+
+export interface EnergyArcRejection {
+  error: string;
+  details: string;
+}
+
+// Tracks without a measured energy count as this far off the arc, so a
+// known fit beats an unknown one
+const UNKNOWN_ENERGY_DEVIATION = 0.25;
+// Seconds of energy curve averaged when finding where a track peaks
+const PEAK_WINDOW = 8;
+
+const PRESET_POINTS: Record<Exclude<EnergyArcPreset, 'maintain'>, Array<[number, number]>> = {
+  'warm-up': [[0, 0.15], [0.6, 0.4], [1, 0.6]],
+  'peak-time': [[0, 0.6], [0.3, 0.8], [0.8, 0.95], [1, 0.85]],
+  'sunrise': [[0, 0.65], [0.5, 0.45], [1, 0.2]],
+  'build': [[0, 0.2], [1, 0.9]],
+  'vary': [[0, 0.4], [0.25, 0.75], [0.5, 0.45], [0.75, 0.85], [1, 0.5]],
+};
+
+// A preset's points; 'maintain' holds the seed track's level. 'build',
+// 'maintain' and 'vary' double as UserPreferences.energyProgression values.
+export function presetEnergyArc(preset: EnergyArcPreset, seedEnergy: number): EnergyArcPoint[] {
+  if (preset === 'maintain') return [{ position: 0, energy: seedEnergy }, { position: 1, energy: seedEnergy }];
+  return PRESET_POINTS[preset].map(([position, energy]) => ({ position, energy }));
+}
+
+// A preset name or a list of {position, energy} points, as sent by clients
+export function parseEnergyArc(value: unknown): EnergyArcPreset | EnergyArcPoint[] | EnergyArcRejection {
+  const invalid = (details: string): EnergyArcRejection => ({ error: 'Invalid energy arc', details });
+
+  if (typeof value === 'string') {
+    return (ENERGY_ARC_PRESETS as readonly string[]).includes(value)
+      ? value as EnergyArcPreset
+      : invalid(`Unknown preset '${value}'. Presets are ${ENERGY_ARC_PRESETS.join(', ')}`);
+  }
+
+  if (!Array.isArray(value) || value.length === 0) {
+    return invalid('energyArc must be a preset name or a non-empty list of { position, energy } points');
+  }
+  const points: EnergyArcPoint[] = [];
+  for (const point of value) {
+    const { position, energy } = (point ?? {}) as Record<string, unknown>;
+    if (typeof position !== 'number' || position < 0 || position > 1 || typeof energy !== 'number' || energy < 0 || energy > 1) {
+      return invalid('Every point needs a position and an energy between 0 and 1');
+    }
+    points.push({ position, energy });
+  }
+  return points.sort((a, b) => a.position - b.position);
+}
+
+// Linear between points, flat before the first and after the last
+export function energyTargetAt(arc: EnergyArcPoint[], position: number): number {
+  if (position <= arc[0].position) return arc[0].energy;
+  for (let i = 1; i < arc.length; i++) {
+    if (position <= arc[i].position) {
+      const from = arc[i - 1];
+      const to = arc[i];
+      const span = to.position - from.position;
+      return span > 0 ? from.energy + (to.energy - from.energy) * (position - from.position) / span : to.energy;
+    }
+  }
+  return arc[arc.length - 1].energy;
+}
+
+// Seconds into a track where it is judged against the arc: the middle of its
+// loudest stretch when it has an energy curve, otherwise halfway through the
+// `playTime` a set plays of it. A peak the set doesn't reach counts at the end.
+export function energyFocus(track: TrackFeatures, playTime: number): number {
+  const status = track.featureStatus?.energyCurve?.status;
+  const peak = track.energyCurve && (!status || status === 'measured') ? energyPeak(track.energyCurve, PEAK_WINDOW) : null;
+  return peak ? Math.min(peak.time + PEAK_WINDOW / 2, playTime) : playTime / 2;
+}
+
+// Places each track's measured energy within the range of a pool of tracks,
+// by rank, so 0.5 is the median track whatever the absolute levels
+export class EnergyScale {
+  private readonly sorted: number[];
+
+  constructor(tracks: TrackFeatures[]) {
+    this.sorted = tracks
+      .map(measuredEnergy)
+      .filter((energy): energy is number => energy !== null)
+      .sort((a, b) => a - b);
+  }
+
+  // Null when the track's energy wasn't measured
+  relative(track: TrackFeatures): number | null {
+    const energy = measuredEnergy(track);
+    if (energy === null || this.sorted.length === 0) return null;
+    if (this.sorted.length === 1) return 0.5;
+
+    // Mean rank among equal values, so ties land in the middle of their run
+    const below = this.countBelow(energy, false);
+    const upTo = this.countBelow(energy, true);
+    const rank = upTo > below ? (below + upTo - 1) / 2 : below - 0.5;
+    return Math.max(0, Math.min(1, rank / (this.sorted.length - 1)));
+  }
+
+  // How far the track is from the target, and the penalty used when searching
+  deviation(track: TrackFeatures, target: number): { relative: number | null; deviation: number | null; penalty: number } {
+    const relative = this.relative(track);
+    if (relative === null) return { relative, deviation: null, penalty: UNKNOWN_ENERGY_DEVIATION };
+    const deviation = Math.abs(relative - target);
+    return { relative, deviation, penalty: deviation };
+  }
+
+  // Values below `energy`, or at or below it with `inclusive`
+  private countBelow(energy: number, inclusive: boolean): number {
+    let low = 0;
+    let high = this.sorted.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.sorted[middle] < energy || (inclusive && this.sorted[middle] === energy)) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+}
+
+// Defaulted or failed energy is a placeholder, not a measurement
+function measuredEnergy(track: TrackFeatures): number | null {
+  const status = track.featureStatus?.energy?.status;
+  if (status && status !== 'measured') return null;
+  return track.energyLevel ?? null;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from '@jest/globals';
+import { CompatibilityScore, TrackFeatures } from '@/types';
+import { TrackComparator } from '@/lib/audio/comparison';
+import { formatKey, KeyMode, KeyRelationship, parseKey, relateKeys } from '@/lib/audio/harmonic-keys';
+import { HarmonicMove, HarmonicPath, parseHarmonicRules } from './harmonic-path';
+import { SequencedSet, SequenceFailure, SetSequencer } from './set-sequencer';
+
+const ALL_KEYS = (['major', 'minor'] as KeyMode[]).flatMap(mode =>
+  Array.from({ length: 12 }, (_, tonic) => formatKey({ tonic, mode }))
+);
+
+// What each move allows, spelled out independently of the module
+const ALLOWED: Record<HarmonicMove, KeyRelationship[]> = {
+  same: ['same'],
+  adjacent: ['fifth-up', 'fifth-down'],
+  relative: ['relative'],
+  diagonal: ['diagonal'],
+  'energy-boost': ['energy-boost-1', 'energy-boost-2'],
+};
+
+function track(id: string, musicalKey: string): TrackFeatures {
+  return { id: `features-${id}`, trackId: id, tempo: 128, musicalKey, energyLevel: 0.2, duration: 240, createdAt: new Date(0) };
+}
+
+function relationship(from: TrackFeatures, to: TrackFeatures): KeyRelationship {
+  return relateKeys(parseKey(from.musicalKey!)!, parseKey(to.musicalKey!)!).relationship;
+}
+
+// Scores every transition the rules should forbid highest, so only the
+// rules keep them out of the set
+const clashLovingComparator = {
+  calculateCompatibility: (from: TrackFeatures, to: TrackFeatures): CompatibilityScore => {
+    const overall = ['same', 'fifth-up', 'fifth-down', 'relative'].includes(relationship(from, to)) ? 0.1 : 1;
+    return { overall, tempo: overall, key: overall, energy: overall, spectral: overall, rhythm: overall };
+  },
+} as unknown as TrackComparator;
+
+// Two tracks in every key
+const library = ALL_KEYS.flatMap(key => [track(`${key}-1`, key), track(`${key}-2`, key)]);
+
+function sequenced(set: SequencedSet | SequenceFailure): SequencedSet {
+  if ('error' in set) throw new Error(`${set.error}: ${set.details}`);
+  return set;
+}
+
+describe('HarmonicPath', () => {
+  it('allows only the relationships its moves stand for', () => {
+    const path = new HarmonicPath({ moves: ['adjacent', 'relative'] }, ALL_KEYS, 4);
+
+    expect(path.nextKeys('Am').sort()).toEqual(['C', 'Dm', 'Em']);
+    expect(path.allows('Am', 'Am')).toBe(false);
+  });
+
+  it('knows from which keys the end key is exactly n transitions away', () => {
+    const path = new HarmonicPath({ moves: ['adjacent'], endKey: 'C' }, ALL_KEYS.filter(key => !key.endsWith('m')), 3);
+
+    expect(path.canFinish('C', 0)).toBe(true);
+    expect(path.canFinish('G', 1)).toBe(true);
+    expect(path.canFinish('D', 1)).toBe(false);
+    expect(path.canFinish('D', 2)).toBe(true);
+    expect(path.canFinish('F#', 3)).toBe(false); // Six steps round the wheel
+  });
+});
+
+describe('SetSequencer with harmonic rules', () => {
+  const cases: Array<[string, HarmonicMove[]]> = [
+    ['Am', ['same', 'adjacent']],
+    ['C', ['adjacent', 'relative']],
+    ['F#m', ['adjacent', 'diagonal']],
+    ['D#', ['energy-boost', 'relative']],
+  ];
+
+  it.each(cases)('never makes a disallowed move from %s with %j', (seedKey, moves) => {
+    const seed = library.find(features => features.musicalKey === seedKey)!;
+    const set = sequenced(new SetSequencer(clashLovingComparator).sequence(seed, library, { length: 10, harmonic: { moves } }));
+
+    expect(set.tracks).toHaveLength(10);
+    const allowed = moves.flatMap(move => ALLOWED[move]);
+    set.tracks.slice(1).forEach((features, index) => {
+      expect(allowed).toContain(relationship(set.tracks[index], features));
+    });
+  });
+
+  it('makes the clashing moves the comparator prefers when there are no rules', () => {
+    const set = sequenced(new SetSequencer(clashLovingComparator).sequence(library[0], library, { length: 10 }));
+
+    expect(set.tracks.slice(1).some((features, index) => relationship(set.tracks[index], features) === 'clash')).toBe(true);
+  });
+
+  it('ends in the end key', () => {
+    const seed = library.find(features => features.musicalKey === 'Am')!;
+    const set = sequenced(new SetSequencer(clashLovingComparator).sequence(seed, library, {
+      length: 6,
+      harmonic: { moves: ['same', 'adjacent'], endKey: 'Dm' },
+    }));
+
+    expect(set.tracks[set.tracks.length - 1].musicalKey).toBe('Dm');
+  });
+
+  it('says up front when no path reaches the end key in time', () => {
+    const seed = library.find(features => features.musicalKey === 'C')!;
+    const failure = new SetSequencer(clashLovingComparator).sequence(seed, library, {
+      length: 3,
+      harmonic: { moves: ['adjacent'], endKey: 'F#' },
+    });
+
+    expect(failure).toMatchObject({ error: 'Harmonic rules cannot be met', slot: 0 });
+  });
+
+  it('names the transition that runs out of tracks', () => {
+    const pool = [track('g', 'G'), track('d', 'D'), track('f-sharp', 'F#')];
+    const failure = new SetSequencer(clashLovingComparator).sequence(track('c', 'C'), pool, {
+      length: 4,
+      harmonic: { moves: ['adjacent'] },
+    });
+
+    // C > G > D, and nothing left is a fifth from D
+    expect(failure).toMatchObject({ slot: 3, fromTrackId: 'd' });
+  });
+});
+
+describe('parseHarmonicRules', () => {
+  it('normalizes keys and drops repeated moves', () => {
+    expect(parseHarmonicRules({ moves: ['adjacent', 'adjacent'], startKey: '8A', endKey: 'Db minor' })).toEqual({
+      moves: ['adjacent'],
+      startKey: 'Am',
+      endKey: 'C#m',
+    });
+  });
+
+  it('rejects unknown moves and keys', () => {
+    expect(parseHarmonicRules({ moves: ['tritone'] })).toMatchObject({ error: 'Invalid harmonic rules' });
+    expect(parseHarmonicRules({ moves: ['same'], endKey: 'H' })).toMatchObject({ error: 'Invalid harmonic rules' });
+    expect(parseHarmonicRules({ moves: [] })).toMatchObject({ error: 'Invalid harmonic rules' });
+  });
+});
@@ -0,0 +1,133 @@
+import { UserPreferences } from '@/types';
+import { formatKey, KeyMode, KeyRelationship, normalizeKey, parseKey, relateKeys, toCamelot } from '@/lib/audio/harmonic-keys';
+
+// Rules for walking the Camelot wheel through a set: which key moves a
+// transition may make, and optionally the key the set has to start and end in.
+
+export const HARMONIC_MOVES = ['same', 'adjacent', 'relative', 'diagonal', 'energy-boost'] as const;
+export type HarmonicMove = typeof HARMONIC_MOVES[number];
+
+const MOVE_RELATIONSHIPS: Record<HarmonicMove, KeyRelationship[]> = {
+  same: ['same'],
+  adjacent: ['fifth-up', 'fifth-down'], // One step around the wheel, e.g. 8A -> 9A
+  relative: ['relative'], // Across the wheel, e.g. 8A -> 8B
+  diagonal: ['diagonal'],
+  'energy-boost': ['energy-boost-1', 'energy-boost-2'],
+};
+
+export interface HarmonicRules {
+  moves: HarmonicMove[];
+  startKey?: string; // Standard notation
+  endKey?: string;
+}
+
+export interface HarmonicRulesRejection {
+  error: string;
+  details: string;
+}
+
+// The moves UserPreferences.keyRelationshipPreference stands for; 'any' sets no rules
+export function movesForPreference(preference: UserPreferences['keyRelationshipPreference']): HarmonicMove[] | null {
+  switch (preference) {
+    case 'harmonic': return ['same', 'adjacent', 'relative'];
+    case 'chromatic': return [...HARMONIC_MOVES];
+    case 'any': return null;
+  }
+}
+
+// { moves, startKey?, endKey? } as sent by clients; keys in any notation
+export function parseHarmonicRules(value: unknown): HarmonicRules | HarmonicRulesRejection {
+  const invalid = (details: string): HarmonicRulesRejection => ({ error: 'Invalid harmonic rules', details });
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return invalid('harmonicRules must be an object with moves and optional startKey and endKey');
+  }
+  const { moves, startKey, endKey } = value as Record<string, unknown>;
+
+  if (!Array.isArray(moves) || moves.length === 0) {
+    return invalid(`moves must list at least one of ${HARMONIC_MOVES.join(', ')}`);
+  }
+  for (const move of moves) {
+    if (!(HARMONIC_MOVES as readonly unknown[]).includes(move)) {
+      return invalid(`Unknown move '${move}'. Moves are ${HARMONIC_MOVES.join(', ')}`);
+    }
+  }
+
+  const rules: HarmonicRules = { moves: [...new Set(moves as HarmonicMove[])] };
+  for (const [field, notation] of [['startKey', startKey], ['endKey', endKey]] as const) {
+    if (notation === undefined || notation === null) continue;
+    const key = typeof notation === 'string' ? normalizeKey(notation) : null;
+    if (!key) return invalid(`Unrecognized ${field} '${notation}'`);
+    rules[field] = key;
+  }
+  return rules;
+}
+
+// Key in standard notation with its Camelot code, e.g. 'Am (8A)'
+export function describeKey(key: string): string {
+  const parsed = parseKey(key);
+  return parsed ? `${key} (${toCamelot(parsed)})` : key;
+}
+
+// The key graph for one set: which keys may follow which, and from which
+// keys the end key can still be reached in a given number of transitions
+export class HarmonicPath {
+  readonly rules: HarmonicRules;
+  private readonly allowed: Set<string>;
+  private readonly relationships: Set<KeyRelationship>;
+  private readonly verdicts = new Map<string, boolean>();
+  // reachable[n]: keys from which exactly n more transitions can land on the end key
+  private readonly reachable: Array<Set<string>> = [];
+
+  // `keys` are the keys tracks in the pool are in; a path can only pass
+  // through keys some track is in
+  constructor(rules: HarmonicRules, keys: string[], maxTransitions: number) {
+    this.rules = rules;
+    this.relationships = new Set(rules.moves.flatMap(move => MOVE_RELATIONSHIPS[move]));
+    this.allowed = new Set(keys);
+
+    if (rules.endKey) {
+      this.reachable.push(new Set([rules.endKey]));
+      for (let step = 1; step <= maxTransitions; step++) {
+        const next = this.reachable[step - 1];
+        this.reachable.push(new Set([...this.allowed].filter(key => this.nextKeys(key).some(to => next.has(to)))));
+      }
+    }
+  }
+
+  allows(from: string, to: string): boolean {
+    const pair = `${from}>${to}`;
+    let verdict = this.verdicts.get(pair);
+    if (verdict === undefined) {
+      const a = parseKey(from);
+      const b = parseKey(to);
+      verdict = !!a && !!b && this.relationships.has(relateKeys(a, b).relationship);
+      this.verdicts.set(pair, verdict);
+    }
+    return verdict;
+  }
+
+  // Keys in the pool a transition from `from` may move to
+  nextKeys(from: string): string[] {
+    return [...this.allowed].filter(to => this.allows(from, to));
+  }
+
+  // Whether a track in `key` with `transitionsLeft` to go can still finish in the end key
+  canFinish(key: string, transitionsLeft: number): boolean {
+    if (!this.rules.endKey) return true;
+    return this.reachable[transitionsLeft]?.has(key) ?? false;
+  }
+
+  // Every key, in or out of the pool, a transition from `from` may move to
+  reachableFrom(from: string): string[] {
+    return allKeys().filter(to => this.allows(from, to));
+  }
+}
+
+function allKeys(): string[] {
+  const keys: string[] = [];
+  for (const mode of ['major', 'minor'] as KeyMode[]) {
+    for (let tonic = 0; tonic < 12; tonic++) keys.push(formatKey({ tonic, mode }));
+  }
+  return keys;
+}
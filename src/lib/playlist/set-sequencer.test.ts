@@ -0,0 +1,98 @@
+import { describe, expect, it } from '@jest/globals';
+import { CompatibilityScore, TrackFeatures } from '@/types';
+import { TrackComparator } from '@/lib/audio/comparison';
+import { SequencedSet, SetSequencer } from './set-sequencer';
+
+function track(id: string): TrackFeatures {
+  return { id: `features-${id}`, trackId: id, tempo: 128, musicalKey: 'Am', energyLevel: 0.2, duration: 240, createdAt: new Date(0) };
+}
+
+// Scores transitions from a fixed table of "from>to" pairs, 0 for any pair
+// not listed, so the best order is known in advance
+function tableComparator(table: Record<string, number>): TrackComparator {
+  return {
+    calculateCompatibility: (from: TrackFeatures, to: TrackFeatures): CompatibilityScore => {
+      const overall = table[`${from.trackId}>${to.trackId}`] ?? 0;
+      return { overall, tempo: overall, key: overall, energy: overall, spectral: overall, rhythm: overall };
+    },
+  } as unknown as TrackComparator;
+}
+
+function ids(set: SequencedSet | { error: string }): string[] {
+  if ('error' in set) throw new Error(set.error);
+  return set.tracks.map(features => features.trackId);
+}
+
+// Every order of `length` tracks starting with the seed, with its total score
+function bestByBruteForce(seed: string, others: string[], length: number, table: Record<string, number>): number {
+  let best = -Infinity;
+  const walk = (path: string[], total: number) => {
+    if (path.length === length) {
+      best = Math.max(best, total);
+      return;
+    }
+    for (const next of others) {
+      if (path.includes(next)) continue;
+      walk([...path, next], total + (table[`${path[path.length - 1]}>${next}`] ?? 0));
+    }
+  };
+  walk([seed], 0);
+  return best;
+}
+
+describe('SetSequencer', () => {
+  // The seed's best single transition (into a) leads nowhere; going through
+  // b, c and d instead scores far higher over the whole set
+  const TRAP: Record<string, number> = {
+    'seed>a': 0.95, 'seed>b': 0.8, 'seed>c': 0.3, 'seed>d': 0.3,
+    'b>c': 0.9, 'c>d': 0.9, 'd>a': 0.4, 'b>a': 0.2, 'c>a': 0.2,
+  };
+  const pool = ['a', 'b', 'c', 'd'].map(track);
+
+  it('finds the order with the best total compatibility, not the greediest first step', () => {
+    const set = new SetSequencer(tableComparator(TRAP)).sequence(track('seed'), pool, { length: 5 });
+
+    expect(ids(set)).toEqual(['seed', 'b', 'c', 'd', 'a']);
+    expect((set as SequencedSet).totalScore).toBeCloseTo(bestByBruteForce('seed', ['a', 'b', 'c', 'd'], 5, TRAP), 9);
+    expect((set as SequencedSet).transitions.map(transition => transition.score.overall)).toEqual([0.8, 0.9, 0.9, 0.4]);
+  });
+
+  it('falls into the trap with a beam of one, which is why the beam is wider', () => {
+    const set = new SetSequencer(tableComparator(TRAP)).sequence(track('seed'), pool, { length: 5, beamWidth: 1 });
+
+    expect(ids(set)[1]).toBe('a');
+    expect((set as SequencedSet).totalScore).toBeLessThan(bestByBruteForce('seed', ['a', 'b', 'c', 'd'], 5, TRAP));
+  });
+
+  it('matches a brute-force search on a pseudo-random table', () => {
+    const names = ['t1', 't2', 't3', 't4', 't5', 't6', 't7'];
+    const table: Record<string, number> = {};
+    let state = 7;
+    for (const from of ['seed', ...names]) {
+      for (const to of names) {
+        state = (state * 48271) % 2147483647;
+        table[`${from}>${to}`] = Math.round((state / 2147483647) * 100) / 100;
+      }
+    }
+
+    const set = new SetSequencer(tableComparator(table)).sequence(track('seed'), names.map(track), { length: 6 });
+
+    expect((set as SequencedSet).totalScore).toBeCloseTo(bestByBruteForce('seed', names, 6, table), 9);
+  });
+
+  it('ends on the end track and scores the transition into it', () => {
+    const set = new SetSequencer(tableComparator({ ...TRAP, 'd>end': 0.9 })).sequence(
+      track('seed'), pool, { length: 4, endTrack: track('end') }
+    );
+
+    // seed > b > c is the best start, but only d mixes into the end track
+    expect(ids(set)).toEqual(['seed', 'c', 'd', 'end']);
+    expect((set as SequencedSet).totalScore).toBeCloseTo(2.1, 9);
+  });
+
+  it('shortens the set to the tracks there are', () => {
+    const set = new SetSequencer(tableComparator(TRAP)).sequence(track('seed'), [track('a'), track('seed')], { length: 10 });
+
+    expect(ids(set)).toEqual(['seed', 'a']);
+  });
+});
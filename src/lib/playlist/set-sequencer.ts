@@ -0,0 +1,292 @@
+import { CompatibilityScore, TrackFeatures } from '@/types';
+import { effectiveKey, TrackComparator } from '@/lib/audio/comparison';
+import { normalizeKey } from '@/lib/audio/harmonic-keys';
+import { EnergyArcPoint, energyFocus, EnergyScale, energyTargetAt } from './energy-arc';
+import { describeKey, HarmonicPath, HarmonicRules } from './harmonic-path';
+
+// Orders tracks into a set so that every adjacent pair mixes well, not just
+// each track with the seed. A beam search grows the set one slot at a time,
+// keeping the best few partial sets by the sum of their transition scores,
+// less how far each track strays from a target energy arc when there is one.
+// The arc runs over the set's mixed play time, so a long track takes up more
+// of it than a short one, and each track meets it where the track peaks.
+// Harmonic rules are hard constraints: transitions that break them are never
+// tried, and a set that can't be completed says which transition failed.
+
+// Partial sets kept after each slot; wider finds better sets, slower
+const DEFAULT_BEAM_WIDTH = 24;
+// Transition score given up per unit of energy deviation in a slot
+const DEFAULT_ENERGY_WEIGHT = 1;
+// Share of a track's length a set usually plays, for placing tracks in the
+// set before their cue points are chosen
+const TYPICAL_PLAYED_SHARE = 0.85;
+
+export interface SequenceOptions {
+  length: number; // Tracks in the set, seed (and end track) included
+  endTrack?: TrackFeatures; // Fixed last track
+  beamWidth?: number;
+  energyArc?: EnergyArcPoint[]; // Target energy over the set's play time
+  duration?: number; // Seconds of play time the arc spans; estimated from the tracks when not given
+  energyWeight?: number;
+  harmonic?: HarmonicRules; // Allowed key moves and key journey
+}
+
+export interface SetTransition {
+  fromTrackId: string;
+  toTrackId: string;
+  score: CompatibilityScore;
+}
+
+export interface EnergySlot {
+  trackId: string;
+  position: number; // How far through the set's play time the track was judged, 0-1
+  target: number; // Relative to the pool, 0-1
+  actual: number | null; // Null when the track's energy wasn't measured
+  deviation: number | null;
+}
+
+export interface SequencedSet {
+  tracks: TrackFeatures[]; // Seed first
+  transitions: SetTransition[]; // One per adjacent pair
+  totalScore: number; // Sum of the transitions' overall scores
+  averageScore: number;
+  energy?: {
+    slots: EnergySlot[]; // One per track
+    meanDeviation: number | null; // Over the slots with a measured energy
+  };
+}
+
+// Returned instead of a set when the harmonic rules can't be met
+export interface SequenceFailure {
+  error: string;
+  details: string;
+  slot: number; // Position in the set that couldn't be filled, 0 for the seed
+  fromTrackId?: string; // The track the failed transition would have left
+}
+
+interface Beam {
+  path: number[]; // Indices into the pool
+  total: number; // Transition scores
+  objective: number; // What the search ranks by: the total less energy penalties
+  elapsed: number; // Estimated set time where the next track comes in
+}
+
+export class SetSequencer {
+  private readonly comparator: TrackComparator;
+
+  constructor(comparator = new TrackComparator()) {
+    this.comparator = comparator;
+  }
+
+  // The set may come out shorter than asked when there are too few candidates
+  sequence(seed: TrackFeatures, candidates: TrackFeatures[], options: SequenceOptions): SequencedSet | SequenceFailure {
+    const endTrack = options.endTrack;
+    const pool = [seed, ...candidates.filter(track => track.trackId !== seed.trackId && track.trackId !== endTrack?.trackId)];
+    if (endTrack) pool.push(endTrack);
+    const endIndex = endTrack ? pool.length - 1 : -1;
+
+    const beamWidth = Math.max(1, options.beamWidth ?? DEFAULT_BEAM_WIDTH);
+    const length = Math.max(1, Math.min(options.length, pool.length));
+    // Slots between the seed and the end track (or the end of the set)
+    const openSlots = length - 1 - (endTrack && length > 1 ? 1 : 0);
+
+    // Each pair is scored once, however many beams try it
+    const scores = new Map<number, CompatibilityScore>();
+    const score = (from: number, to: number) => {
+      const key = from * pool.length + to;
+      let cached = scores.get(key);
+      if (!cached) {
+        cached = this.comparator.calculateCompatibility(pool[from], pool[to]);
+        scores.set(key, cached);
+      }
+      return cached;
+    };
+
+    // Energy is judged against the whole pool, so targets mean the same
+    // whichever tracks end up in the set
+    const arc = options.energyArc && options.energyArc.length > 0 ? options.energyArc : null;
+    const energyScale = arc ? new EnergyScale(pool) : null;
+    const energyWeight = options.energyWeight ?? DEFAULT_ENERGY_WEIGHT;
+    // A track is judged at its peak, at the share of the set's play time that
+    // has passed by then
+    const playTimes = this.playTimes(pool);
+    const focus = pool.map((track, index) => energyFocus(track, playTimes[index]));
+    const setDuration = options.duration ?? length * playTimes.reduce((sum, time) => sum + time, 0) / pool.length;
+    const positionAt = (elapsed: number, index: number) =>
+      Math.min(1, setDuration > 0 ? (elapsed + focus[index]) / setDuration : 0);
+    const penalty = (elapsed: number, index: number) =>
+      energyScale ? energyWeight * energyScale.deviation(pool[index], energyTargetAt(arc!, positionAt(elapsed, index))).penalty : 0;
+
+    const keys = pool.map(track => normalizeKey(effectiveKey(track)));
+    const harmonic = options.harmonic ? this.harmonicPath(options.harmonic, keys, endTrack ? endIndex : -1, length) : null;
+    if (harmonic && 'error' in harmonic) return harmonic;
+    // Whether `next` may take `slot` after `last` without breaking the rules
+    const fits = (last: number, next: number, slot: number) => !harmonic || (
+      keys[next] !== null &&
+      harmonic.allows(keys[last]!, keys[next]!) &&
+      harmonic.canFinish(keys[next]!, length - 1 - slot)
+    );
+
+    let beams: Beam[] = [{ path: [0], total: 0, objective: -penalty(0, 0), elapsed: playTimes[0] }];
+    for (let slot = 1; slot <= openSlots; slot++) {
+      const extended: Beam[] = [];
+      for (const beam of beams) {
+        const last = beam.path[beam.path.length - 1];
+        for (let next = 1; next < pool.length; next++) {
+          if (next === endIndex || beam.path.includes(next) || !fits(last, next, slot)) continue;
+          const transition = score(last, next).overall;
+          extended.push({
+            path: [...beam.path, next],
+            total: beam.total + transition,
+            objective: beam.objective + transition - penalty(beam.elapsed, next),
+            elapsed: beam.elapsed + playTimes[next]
+          });
+        }
+      }
+      if (extended.length === 0) {
+        // Without rules the pool can't run dry, since length is capped at its size
+        return this.explainDeadEnd(beams[0], slot, pool, keys, harmonic!, length);
+      }
+      beams = this.prune(extended, beamWidth);
+    }
+
+    // The end track is scored into every finished beam before picking one, so
+    // a set that ends up far from it loses to one that approaches it
+    if (endTrack && length > 1) {
+      beams = beams.map(beam => {
+        const transition = score(beam.path[beam.path.length - 1], endIndex).overall;
+        return {
+          path: [...beam.path, endIndex],
+          total: beam.total + transition,
+          objective: beam.objective + transition - penalty(beam.elapsed, endIndex),
+          elapsed: beam.elapsed + playTimes[endIndex]
+        };
+      });
+    }
+
+    const best = beams.reduce((winner, beam) => (beam.objective > winner.objective ? beam : winner));
+    const transitions = best.path.slice(1).map((to, index) => {
+      const from = best.path[index];
+      return { fromTrackId: pool[from].trackId, toTrackId: pool[to].trackId, score: score(from, to) };
+    });
+
+    return {
+      tracks: best.path.map(index => pool[index]),
+      transitions,
+      totalScore: best.total,
+      averageScore: transitions.length > 0 ? best.total / transitions.length : 0,
+      energy: energyScale ? this.energyReport(best.path, pool, playTimes, energyScale, arc!, positionAt) : undefined
+    };
+  }
+
+  // The key graph for the set, or why the rules can't work from the start
+  private harmonicPath(rules: HarmonicRules, keys: Array<string | null>, endIndex: number, length: number): HarmonicPath | SequenceFailure {
+    const failure = (details: string): SequenceFailure => ({ error: 'Harmonic rules cannot be met', details, slot: 0 });
+    const seedKey = keys[0];
+    if (!seedKey) return failure('The seed track has no detected or manual key');
+    if (rules.startKey && rules.startKey !== seedKey) {
+      return failure(`The seed track is in ${describeKey(seedKey)}, but the set has to start in ${describeKey(rules.startKey)}`);
+    }
+
+    // A fixed end track decides the end key
+    let endKey = rules.endKey;
+    if (endIndex >= 0) {
+      const endTrackKey = keys[endIndex];
+      if (!endTrackKey) return { ...failure('The end track has no detected or manual key'), slot: length - 1 };
+      if (endKey && endKey !== endTrackKey) {
+        return { ...failure(`The end track is in ${describeKey(endTrackKey)}, but the set has to end in ${describeKey(endKey)}`), slot: length - 1 };
+      }
+      endKey = endTrackKey;
+    }
+
+    const poolKeys = [...new Set(keys.filter((key): key is string => key !== null))];
+    const path = new HarmonicPath({ ...rules, endKey }, poolKeys, length - 1);
+    if (endKey && !path.canFinish(seedKey, length - 1)) {
+      return failure(
+        `No path from ${describeKey(seedKey)} to ${describeKey(endKey)} takes exactly ${length - 1} transitions ` +
+        `using ${rules.moves.join(', ')} moves and the keys in the library`
+      );
+    }
+    return path;
+  }
+
+  // Which transition of the best partial set couldn't be made, and why
+  private explainDeadEnd(beam: Beam, slot: number, pool: TrackFeatures[], keys: Array<string | null>, harmonic: HarmonicPath, length: number): SequenceFailure {
+    const last = beam.path[beam.path.length - 1];
+    const lastKey = keys[last]!;
+    const nextKeys = harmonic.reachableFrom(lastKey);
+    const available = pool
+      .map((_, index) => index)
+      .filter(index => index !== 0 && !beam.path.includes(index) && keys[index] !== null && nextKeys.includes(keys[index]!));
+
+    const transitionsLeft = length - 1 - slot;
+    const details = available.length === 0
+      ? `No unused track is in a key that can follow ${describeKey(lastKey)}; ` +
+        `${harmonic.rules.moves.join(', ')} moves allow ${nextKeys.map(describeKey).join(', ')}`
+      : `Tracks in ${[...new Set(available.map(index => keys[index]!))].map(describeKey).join(', ')} can follow ${describeKey(lastKey)}, ` +
+        `but none of them can reach ${describeKey(harmonic.rules.endKey!)} in the ${transitionsLeft} transitions left`;
+
+    return {
+      error: `Transition ${slot} to ${slot + 1} can't follow the harmonic rules`,
+      details,
+      slot,
+      fromTrackId: pool[last].trackId
+    };
+  }
+
+  // Best beams first, dropping those that reach the same tracks in a
+  // different order with the same last track: their futures are identical,
+  // so only the higher-scoring one is worth keeping
+  private prune(beams: Beam[], width: number): Beam[] {
+    beams.sort((a, b) => b.objective - a.objective);
+    const kept: Beam[] = [];
+    const seen = new Set<string>();
+    for (const beam of beams) {
+      const last = beam.path[beam.path.length - 1];
+      const key = `${[...beam.path].sort((a, b) => a - b).join(',')}>${last}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      kept.push(beam);
+      if (kept.length === width) break;
+    }
+    return kept;
+  }
+
+  // Estimated play time of every track in the pool; tracks without a known
+  // length count as the typical one, or all alike when no length is known
+  private playTimes(pool: TrackFeatures[]): number[] {
+    const known = pool.filter(track => track.duration).map(estimatePlayTime);
+    const typical = known.length > 0 ? known.reduce((sum, time) => sum + time, 0) / known.length : 1;
+    return pool.map(track => (track.duration ? estimatePlayTime(track) : typical));
+  }
+
+  private energyReport(
+    path: number[],
+    pool: TrackFeatures[],
+    playTimes: number[],
+    scale: EnergyScale,
+    arc: EnergyArcPoint[],
+    positionAt: (elapsed: number, index: number) => number
+  ): SequencedSet['energy'] {
+    let elapsed = 0;
+    const slots = path.map(index => {
+      const position = positionAt(elapsed, index);
+      const target = energyTargetAt(arc, position);
+      const { relative, deviation } = scale.deviation(pool[index], target);
+      elapsed += playTimes[index];
+      return { trackId: pool[index].trackId, position, target, actual: relative, deviation };
+    });
+    const measured = slots.filter(slot => slot.deviation !== null);
+    return {
+      slots,
+      meanDeviation: measured.length > 0
+        ? measured.reduce((sum, slot) => sum + slot.deviation!, 0) / measured.length
+        : null
+    };
+  }
+}
+
+// Rough play time of a track before its neighbours are known
+export function estimatePlayTime(track: TrackFeatures): number {
+  return (track.duration ?? 0) * TYPICAL_PLAYED_SHARE;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { TrackFeatures } from '@/types';
+import { SequenceFailure, SequencedSet } from './set-sequencer';
+import { sequenceForDuration, SetTiming, SetTimer } from './set-timing';
+
+// 128 BPM track of the given length with beats and a flat energy curve
+// throughout, so the optimizer has cue points to offer anywhere in it
+function track(id: string, duration: number, energyLevel = 0.2): TrackFeatures {
+  const beatPositions = Array.from({ length: Math.floor(duration * 128 / 60) }, (_, i) => i * 60 / 128);
+  return {
+    id: `features-${id}`,
+    trackId: id,
+    tempo: 128,
+    musicalKey: 'Am',
+    energyLevel,
+    beatPositions,
+    energyCurve: { interval: 1, values: new Array(Math.ceil(duration)).fill(energyLevel) },
+    duration,
+    createdAt: new Date(0),
+  };
+}
+
+// 30 tracks from 3 to 7 minutes
+const library = Array.from({ length: 30 }, (_, i) => track(`t${i}`, 180 + ((i * 37) % 241), 0.15 + (i % 5) * 0.02));
+
+function planned(result: { set: SequencedSet; timing: SetTiming } | SequenceFailure): { set: SequencedSet; timing: SetTiming } {
+  if ('error' in result) throw new Error(`${result.error}: ${result.details}`);
+  return result;
+}
+
+describe('SetTimer', () => {
+  it('adds up play time from the cue points, counting overlaps once', () => {
+    const tracks = [track('a', 300), track('b', 240), track('c', 360)];
+
+    const timing = new SetTimer().time(tracks);
+
+    timing.tracks.slice(1).forEach((timed, index) => {
+      const previous = timing.tracks[index];
+      expect(timed.startsAt).toBeCloseTo(previous.startsAt + previous.playTime, 9);
+      expect(timed.cueIn).toBe(timing.transitions[index].cueIn);
+      expect(previous.cueOut).toBe(timing.transitions[index].cueOut);
+      // Mixing out is only considered once most of the track has played
+      expect(previous.cueOut).toBeGreaterThanOrEqual(0.6 * tracks[index].duration!);
+    });
+    const last = timing.tracks[timing.tracks.length - 1];
+    expect(last.cueOut).toBe(360);
+    expect(timing.totalDuration).toBeCloseTo(last.startsAt + last.playTime, 9);
+    expect(timing.totalDuration).toBeLessThan(300 + 240 + 360);
+  });
+});
+
+describe('sequenceForDuration', () => {
+  it.each([
+    [1800, 30],
+    [3600, 60],
+    [5400, 60],
+  ])('lands a %i s set within %i s', (seconds, tolerance) => {
+    const { set, timing } = planned(sequenceForDuration(library[0], library.slice(1), {}, { seconds, tolerance }));
+
+    expect(timing.withinTarget).toBe(true);
+    expect(Math.abs(timing.totalDuration - seconds)).toBeLessThanOrEqual(tolerance);
+    expect(timing.tracks.map(timed => timed.trackId)).toEqual(set.tracks.map(features => features.trackId));
+    expect(set.tracks[0].trackId).toBe('t0');
+  });
+
+  it('keeps the fixed end track last', () => {
+    const { set, timing } = planned(sequenceForDuration(library[0], library.slice(1, -1), { endTrack: library[29] }, { seconds: 2400, tolerance: 60 }));
+
+    expect(set.tracks[set.tracks.length - 1].trackId).toBe('t29');
+    expect(timing.withinTarget).toBe(true);
+  });
+
+  it('returns the closest set when the library is too short for the target', () => {
+    const pool = library.slice(0, 5);
+    const { set, timing } = planned(sequenceForDuration(pool[0], pool.slice(1), {}, { seconds: 36000, tolerance: 60 }));
+
+    expect(set.tracks).toHaveLength(5);
+    expect(timing.withinTarget).toBe(false);
+    expect(timing.target).toEqual({ seconds: 36000, tolerance: 60 });
+  });
+});
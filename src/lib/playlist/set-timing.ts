@@ -0,0 +1,203 @@
+import { TrackFeatures, TransitionPoint } from '@/types';
+import { TransitionOptimizer } from '@/lib/audio/transition-optimizer';
+import { estimatePlayTime, SequenceFailure, SequenceOptions, SequencedSet, SetSequencer } from './set-sequencer';
+
+// How long a set plays as it would be mixed: each track runs from its cue-in
+// to the cue-out where the next track comes in, and the last one to its end.
+// Overlaps are heard once, so they count once.
+
+// Mixing out of a track is only considered after this share of it has played
+const MIN_PLAYED_SHARE = 0.6;
+// Cue-ins later than this share of the incoming track skip too much of it
+const MAX_CUE_IN_SHARE = 0.4;
+// Track counts tried before settling for the closest set
+const MAX_LENGTH_ATTEMPTS = 5;
+
+export interface DurationTarget {
+  seconds: number;
+  tolerance: number; // Seconds either side of the target that still count as a hit
+}
+
+export interface TimedTransition {
+  fromTrackId: string;
+  toTrackId: string;
+  cueOut: number; // Outgoing track time where the incoming track starts
+  cueIn: number; // Incoming track time it starts from
+  overlap: number; // Seconds both tracks play
+  type: TransitionPoint['type'];
+  score: number; // The optimizer's score for the cue point; 0 for the fallback
+}
+
+export interface TimedTrack {
+  trackId: string;
+  startsAt: number; // Set time the track comes in
+  cueIn: number;
+  cueOut: number; // Where the next track comes in, or the track's end
+  playTime: number;
+}
+
+export interface SetTiming {
+  tracks: TimedTrack[];
+  transitions: TimedTransition[];
+  totalDuration: number;
+  overlapDuration: number;
+  target?: DurationTarget;
+  withinTarget?: boolean;
+}
+
+export class SetTimer {
+  private readonly optimizer: TransitionOptimizer;
+
+  constructor(optimizer = new TransitionOptimizer()) {
+    this.optimizer = optimizer;
+  }
+
+  // Times the set with the best cue points of every transition; with a
+  // target, swaps in other cue points until the set lands within tolerance
+  // or no swap brings it closer
+  time(tracks: TrackFeatures[], target?: DurationTarget): SetTiming {
+    const options = tracks.slice(1).map((to, index) => this.cueOptions(tracks[index], to));
+    const choices = options.map(() => 0);
+    const last = tracks[tracks.length - 1];
+
+    // Total = last track's length + every transition's (cueOut - cueIn)
+    const lengthOf = (chosen: number[]) => chosen.reduce(
+      (sum, choice, index) => sum + options[index][choice].cueOut - options[index][choice].cueIn,
+      trackLength(last)
+    );
+
+    if (target) {
+      let total = lengthOf(choices);
+      while (Math.abs(total - target.seconds) > target.tolerance) {
+        let bestSwap: { transition: number; choice: number; total: number; score: number } | null = null;
+        for (let transition = 0; transition < options.length; transition++) {
+          const current = options[transition][choices[transition]];
+          options[transition].forEach((candidate, choice) => {
+            if (choice === choices[transition]) return;
+            const swapped = total - (current.cueOut - current.cueIn) + (candidate.cueOut - candidate.cueIn);
+            const error = Math.abs(swapped - target.seconds);
+            const bestError = Math.abs((bestSwap?.total ?? total) - target.seconds);
+            // Closer wins; between equally close swaps, the better cue point
+            if (error < bestError || (bestSwap && error === bestError && candidate.score > bestSwap.score)) {
+              bestSwap = { transition, choice, total: swapped, score: candidate.score };
+            }
+          });
+        }
+        if (!bestSwap) break;
+        const { transition, choice, total: swapped } = bestSwap;
+        choices[transition] = choice;
+        total = swapped;
+      }
+    }
+
+    const transitions = choices.map((choice, index) => options[index][choice]);
+    const timed: TimedTrack[] = [];
+    let startsAt = 0;
+    tracks.forEach((track, index) => {
+      const cueIn = index > 0 ? transitions[index - 1].cueIn : 0;
+      const cueOut = index < transitions.length ? transitions[index].cueOut : trackLength(track);
+      timed.push({ trackId: track.trackId, startsAt, cueIn, cueOut, playTime: cueOut - cueIn });
+      startsAt += cueOut - cueIn;
+    });
+
+    const totalDuration = lengthOf(choices);
+    return {
+      tracks: timed,
+      transitions,
+      totalDuration,
+      overlapDuration: transitions.reduce((sum, transition) => sum + transition.overlap, 0),
+      target,
+      withinTarget: target ? Math.abs(totalDuration - target.seconds) <= target.tolerance : undefined
+    };
+  }
+
+  // Cue points for one transition, best first: the optimizer's points late
+  // enough in the outgoing track, then a plain mix over its last bars into
+  // the top of the incoming track
+  private cueOptions(from: TrackFeatures, to: TrackFeatures): TimedTransition[] {
+    const fromLength = trackLength(from);
+    const toLength = trackLength(to);
+    const analysis = this.optimizer.analyzeTransition(from, to, { mixOutAfter: fromLength * MIN_PLAYED_SHARE });
+
+    const options: TimedTransition[] = analysis.optimalPoints
+      .filter(point => point.fromTrackTime + point.length <= fromLength && point.toTrackTime <= toLength * MAX_CUE_IN_SHARE)
+      .map(point => ({
+        fromTrackId: from.trackId,
+        toTrackId: to.trackId,
+        cueOut: point.fromTrackTime,
+        cueIn: point.toTrackTime,
+        overlap: point.length,
+        type: point.type,
+        score: point.score
+      }));
+
+    const overlap = Math.min(analysis.recommendedLength, fromLength);
+    options.push({
+      fromTrackId: from.trackId,
+      toTrackId: to.trackId,
+      cueOut: Math.max(0, fromLength - overlap),
+      cueIn: 0,
+      overlap,
+      type: analysis.transitionType,
+      score: 0
+    });
+    return options;
+  }
+}
+
+// Orders a set whose mixed play time lands on a target. Track counts are
+// tried from an estimate, each set timed with its real cue points and the
+// count corrected by the shortfall, keeping the closest set found.
+export function sequenceForDuration(
+  seed: TrackFeatures,
+  candidates: TrackFeatures[],
+  options: Omit<SequenceOptions, 'length'>,
+  target: DurationTarget,
+  sequencer = new SetSequencer(),
+  timer = new SetTimer()
+): { set: SequencedSet; timing: SetTiming } | SequenceFailure {
+  const pool = [seed, ...candidates, ...(options.endTrack ? [options.endTrack] : [])];
+  // First guess at how many tracks fill the target
+  const typical = pool.reduce((sum, track) => sum + estimatePlayTime(track), 0) / pool.length;
+  const maxLength = pool.length;
+
+  let length = Math.max(2, Math.min(maxLength, Math.round(target.seconds / Math.max(typical, 1))));
+  let best: { set: SequencedSet; timing: SetTiming } | null = null;
+  let failure: SequenceFailure | null = null;
+  const tried = new Set<number>();
+
+  for (let attempt = 0; attempt < MAX_LENGTH_ATTEMPTS && !tried.has(length); attempt++) {
+    tried.add(length);
+    // The arc spans the target, which the chosen set lands close to
+    const set = sequencer.sequence(seed, candidates, { ...options, length, duration: target.seconds });
+
+    let step: number;
+    if ('error' in set) {
+      // Harmonic rules can rule out one count and allow the next
+      failure ??= set;
+      step = 1;
+    } else {
+      const timing = timer.time(set.tracks, target);
+      const error = Math.abs(timing.totalDuration - target.seconds);
+      if (!best || error < Math.abs(best.timing.totalDuration - target.seconds)) {
+        best = { set, timing };
+      }
+      if (timing.withinTarget) break;
+
+      const shortfall = target.seconds - timing.totalDuration;
+      const perTrack = timing.totalDuration / set.tracks.length;
+      step = Math.round(shortfall / Math.max(perTrack, 1)) || Math.sign(shortfall);
+    }
+
+    length = Math.max(2, Math.min(maxLength, length + step));
+    // Stepping back to a count already tried would loop; try its neighbour instead
+    if (tried.has(length)) length = Math.max(2, Math.min(maxLength, length + Math.sign(step)));
+  }
+
+  return best ?? failure!;
+}
+
+// Tracks without a known length count as empty
+function trackLength(track: TrackFeatures): number {
+  return track.duration ?? 0;
+}
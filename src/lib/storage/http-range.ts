@@ -0,0 +1,36 @@
+import { ObjectRange } from './storage-backend';
+
+export type RangeParseResult =
+  | { type: 'none' }
+  | { type: 'range'; range: ObjectRange }
+  | { type: 'unsatisfiable' };
+
+// Parse a single-range HTTP Range header (RFC 9110 §14.2). Multi-range
+// requests are served as the full object, which clients must accept.
+export function parseRangeHeader(header: string | null, size: number): RangeParseResult {
+  if (!header) return { type: 'none' };
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return { type: 'none' };
+
+  const [, startText, endText] = match;
+  if (startText === '' && endText === '') return { type: 'none' };
+
+  let start: number;
+  let end: number;
+
+  if (startText === '') {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(endText, 10);
+    if (suffixLength === 0) return { type: 'unsatisfiable' };
+    start = Math.max(0, size - suffixLength);
+    end = size - 1;
+  } else {
+    start = parseInt(startText, 10);
+    end = endText === '' ? size - 1 : Math.min(parseInt(endText, 10), size - 1);
+  }
+
+  if (start >= size || start > end) return { type: 'unsatisfiable' };
+
+  return { type: 'range', range: { start, end } };
+}
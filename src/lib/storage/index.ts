@@ -0,0 +1,64 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { LocalStorageBackend } from './local-storage';
+import { StorageBackend } from './storage-backend';
+
+export * from './storage-backend';
+
+const globalForStorage = globalThis as unknown as {
+  storage: StorageBackend | undefined;
+};
+
+function createStorageBackend(): StorageBackend {
+  const driver = process.env.STORAGE_DRIVER ?? 'local';
+  const bucket = process.env.STORAGE_BUCKET ?? 'dj-assistant';
+
+  switch (driver) {
+    case 'local':
+      return new LocalStorageBackend(
+        process.env.STORAGE_LOCAL_ROOT ?? path.join(process.cwd(), 'storage'),
+        bucket
+      );
+    default:
+      throw new Error(`Unsupported storage driver: ${driver}`);
+  }
+}
+
+export function getStorage(): StorageBackend {
+  if (!globalForStorage.storage) {
+    globalForStorage.storage = createStorageBackend();
+  }
+  return globalForStorage.storage;
+}
+
+// Build a collision-free object key for an uploaded audio file, keeping the
+// original extension so the stored object stays recognizable
+export function createAudioObjectKey(filename: string): string {
+  const extension = path.extname(filename).toLowerCase().replace(/[^.a-z0-9]/g, '');
+  return `audio/${randomUUID()}${extension}`;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+};
+
+// Object key for cover art extracted from a track's tags
+export function createCoverArtObjectKey(mimeType: string): string {
+  return `covers/${randomUUID()}${IMAGE_EXTENSIONS[mimeType] ?? ''}`;
+}
+
+// Object key for a track's waveform peaks; each analysis writes a new one
+export function createWaveformObjectKey(): string {
+  return `waveforms/${randomUUID()}.json`;
+}
+
+// Buffer a whole object in memory, for consumers (decoders, tag readers)
+// that need random access to the bytes
+export async function readObjectBuffer(key: string): Promise<Buffer | null> {
+  const object = await getStorage().getObject(key);
+  if (!object) return null;
+  return Buffer.from(await new Response(object.body).arrayBuffer());
+}
@@ -0,0 +1,101 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rename, stat, unlink } from 'fs/promises';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import {
+  GetObjectResult,
+  ObjectMetadata,
+  ObjectRange,
+  PutObjectResult,
+  StorageBackend,
+  StorageBody,
+} from './storage-backend';
+
+// Filesystem backend laid out like a MinIO data directory: <root>/<bucket>/<key>
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'local';
+  private readonly bucketPath: string;
+
+  constructor(root: string, bucket: string) {
+    this.bucketPath = path.resolve(root, bucket);
+  }
+
+  async putObject(key: string, body: StorageBody): Promise<PutObjectResult> {
+    const objectPath = this.resolveKey(key);
+    await mkdir(path.dirname(objectPath), { recursive: true });
+
+    // Write to a temp file first so readers never observe a partial object
+    const tempPath = `${objectPath}.${randomUUID()}.part`;
+    const hash = createHash('sha256');
+    let size = 0;
+
+    const hasher = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        size += chunk.length;
+        callback(null, chunk);
+      }
+    });
+
+    const source = body instanceof Uint8Array
+      ? Readable.from([Buffer.from(body.buffer, body.byteOffset, body.byteLength)])
+      : Readable.fromWeb(body as unknown as NodeReadableStream<Uint8Array>);
+
+    try {
+      await pipeline(source, hasher, createWriteStream(tempPath));
+      await rename(tempPath, objectPath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => undefined);
+      throw new Error(`Failed to write object ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return { key, size, sha256: hash.digest('hex') };
+  }
+
+  async getObject(key: string, range?: ObjectRange): Promise<GetObjectResult | null> {
+    const metadata = await this.headObject(key);
+    if (!metadata) return null;
+
+    const start = range?.start ?? 0;
+    const end = range?.end ?? metadata.size - 1;
+    const stream = createReadStream(this.resolveKey(key), { start, end });
+
+    return {
+      ...metadata,
+      body: Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>,
+      range,
+      contentLength: Math.max(0, end - start + 1),
+    };
+  }
+
+  async headObject(key: string): Promise<ObjectMetadata | null> {
+    try {
+      const stats = await stat(this.resolveKey(key));
+      if (!stats.isFile()) return null;
+      return { key, size: stats.size, lastModified: stats.mtime };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    try {
+      await unlink(this.resolveKey(key));
+    } catch (error) {
+      // S3 semantics: deleting a missing object is not an error
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  private resolveKey(key: string): string {
+    const resolved = path.resolve(this.bucketPath, key);
+    if (!resolved.startsWith(this.bucketPath + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+}
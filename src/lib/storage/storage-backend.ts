@@ -0,0 +1,41 @@
+// Object storage abstraction for uploaded audio and derived artifacts.
+// The method names and semantics mirror the S3 object API (bucket + key,
+// ranged reads, HEAD) so that an S3/MinIO client can be dropped in behind
+// the same interface as the local filesystem backend.
+
+export type StorageBody = ReadableStream<Uint8Array> | Uint8Array;
+
+export interface PutObjectOptions {
+  contentType?: string;
+}
+
+export interface PutObjectResult {
+  key: string;
+  size: number;
+  sha256: string; // Hex digest of the stored bytes
+}
+
+export interface ObjectRange {
+  start: number; // Inclusive byte offset
+  end: number; // Inclusive byte offset
+}
+
+export interface ObjectMetadata {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface GetObjectResult extends ObjectMetadata {
+  body: ReadableStream<Uint8Array>;
+  range?: ObjectRange;
+  contentLength: number;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  putObject(key: string, body: StorageBody, options?: PutObjectOptions): Promise<PutObjectResult>;
+  getObject(key: string, range?: ObjectRange): Promise<GetObjectResult | null>;
+  headObject(key: string): Promise<ObjectMetadata | null>;
+  deleteObject(key: string): Promise<void>;
+}
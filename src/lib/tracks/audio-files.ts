@@ -0,0 +1,55 @@
+// Upload rules shared by the uploader UI and the upload routes, so a file is
+// judged the same way on both sides
+
+export const MAX_UPLOAD_BYTES = 500 * 1024 * 1024; // Room for hour-long mixes
+
+// A batch upload carries one maximum-size file or a few smaller ones
+export const MAX_BATCH_FILES = 10;
+export const MAX_BATCH_BYTES = MAX_UPLOAD_BYTES;
+
+const ALLOWED_AUDIO_TYPES = ['audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/m4a', 'audio/x-wav'];
+const AUDIO_EXTENSIONS = /\.(mp3|wav|m4a)$/i;
+
+export interface UploadRejection {
+  error: string;
+  details: string;
+}
+
+interface FileInfo {
+  name: string;
+  type: string;
+  size: number;
+}
+
+export function isAudioFile(file: Pick<FileInfo, 'name' | 'type'>): boolean {
+  return ALLOWED_AUDIO_TYPES.includes(file.type) || AUDIO_EXTENSIONS.test(file.name);
+}
+
+export function validateAudioFile(file: FileInfo): UploadRejection | null {
+  return validateAudioType(file) ?? validateAudioSize(file.size);
+}
+
+export function validateAudioType(file: Pick<FileInfo, 'name' | 'type'>): UploadRejection | null {
+  if (!isAudioFile(file)) {
+    return { error: 'Invalid file type', details: 'Please upload MP3, WAV, or M4A files only' };
+  }
+  return null;
+}
+
+// Infinity stands for a streamed upload cut off at MAX_UPLOAD_BYTES
+export function validateAudioSize(size: number): UploadRejection | null {
+  if (size > MAX_UPLOAD_BYTES) {
+    return {
+      error: 'File too large',
+      details: Number.isFinite(size)
+        ? `File size must be under 500MB. Your file is ${(size / 1024 / 1024).toFixed(1)}MB`
+        : 'File size must be under 500MB'
+    };
+  }
+
+  if (size === 0) {
+    return { error: 'Empty file', details: 'The uploaded file appears to be empty' };
+  }
+
+  return null;
+}
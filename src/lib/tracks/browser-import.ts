@@ -0,0 +1,188 @@
+import { AudioAnalysisResult, DuplicateMatch, Track } from '@/types';
+import { AnalysisStage } from '@/lib/audio/analyzer';
+import { BrowserAnalyzer } from '@/lib/audio/browser-analyzer';
+import { isAudioFile } from './audio-files';
+import { AnalyzeContext, ImportedTrack, UploadOutcome } from './import-queue';
+
+// Browser side of importing tracks: the fetch calls behind ImportQueue's
+// handlers and collecting audio files from a drop, folders included.
+
+const STATUS_POLL_INTERVAL_MS = 2000;
+const MAX_STATUS_POLLS = 150; // Give up watching after ~5 minutes
+// decodeAudioData holds the whole recording in memory as PCM, so long mixes
+// are left to the server, which decodes and analyzes them as a stream
+const BROWSER_ANALYSIS_MAX_BYTES = 40 * 1024 * 1024;
+
+const STAGE_MESSAGES: Record<AnalysisStage, string> = {
+  extracting: 'Extracting audio features...',
+  tempo: 'Estimating tempo...',
+  key: 'Detecting key...',
+  beats: 'Tracking beats...',
+  structure: 'Finding song structure...',
+};
+
+export async function uploadBatch(files: File[]): Promise<UploadOutcome[]> {
+  const formData = new FormData();
+  for (const file of files) formData.append('audio', file);
+
+  const response = await fetch('/api/tracks/upload/batch', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.details || errorData.error || `Upload failed: ${response.status} ${response.statusText}`);
+  }
+
+  const { results } = await response.json();
+  return (results as Array<{ trackId?: string; duplicates?: DuplicateMatch[]; error?: string; details?: string }>).map(result =>
+    result.trackId
+      ? { trackId: result.trackId, duplicates: result.duplicates }
+      : { error: result.details ? `${result.error}: ${result.details}` : result.error ?? 'Upload failed' }
+  );
+}
+
+// Analyze, then look for duplicates now that the track has a fingerprint.
+// Share one analyzer across an import, since each holds an AudioContext.
+export async function analyzeImportedTrack(
+  trackId: string,
+  file: File,
+  context: AnalyzeContext,
+  analyzer: BrowserAnalyzer
+): Promise<ImportedTrack> {
+  const track = await analyzeTrack(trackId, file, context, analyzer);
+
+  // Duplicate flags are advisory; a failed lookup keeps the upload's flags
+  const response = await fetch(`/api/tracks/duplicates?trackId=${encodeURIComponent(trackId)}`, { signal: context.signal })
+    .catch(() => null);
+  if (!response?.ok) return { track };
+  const { matches } = await response.json();
+  return { track, duplicates: matches };
+}
+
+// Analyze in the browser where the file is small enough, otherwise (or when
+// decoding fails) follow the server-side job
+async function analyzeTrack(
+  trackId: string,
+  file: File,
+  { signal, onProgress }: AnalyzeContext,
+  analyzer: BrowserAnalyzer
+): Promise<Track> {
+  let analysisResult: AudioAnalysisResult | undefined;
+  if (file.size <= BROWSER_ANALYSIS_MAX_BYTES) {
+    onProgress(0, 'Decoding audio...');
+    try {
+      analysisResult = await analyzer.analyzeFile(file, {
+        signal,
+        onProgress: (stage, progress) => onProgress(progress * 0.9, STAGE_MESSAGES[stage]),
+      });
+    } catch (analysisError) {
+      if (signal.aborted) throw analysisError;
+      console.warn(`Browser analysis of ${file.name} failed, falling back to server analysis:`, analysisError);
+    }
+  }
+
+  if (!analysisResult) {
+    return waitForServerAnalysis(trackId, signal, onProgress);
+  }
+
+  onProgress(0.95, 'Saving analysis results...');
+  const response = await fetch(`/api/tracks/${trackId}/analyze`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ analysisResult }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to save analysis results');
+  }
+
+  return (await response.json()).track;
+}
+
+async function waitForServerAnalysis(
+  trackId: string,
+  signal: AbortSignal,
+  onProgress: AnalyzeContext['onProgress']
+): Promise<Track> {
+  onProgress(0, 'Analyzing on the server...');
+  const queueResponse = await fetch(`/api/tracks/${trackId}/analyze`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ background: true }),
+    signal,
+  });
+
+  if (!queueResponse.ok) {
+    const errorData = await queueResponse.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to queue server analysis');
+  }
+
+  for (let poll = 0; poll < MAX_STATUS_POLLS; poll++) {
+    await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+    // Stops watching only; the job itself carries on in the background
+    signal.throwIfAborted();
+
+    const statusResponse = await fetch(`/api/tracks/${trackId}/analysis-status`, { signal });
+    if (!statusResponse.ok) continue;
+
+    const status = await statusResponse.json();
+    if (status.status === 'succeeded') {
+      return status.track;
+    }
+    if (status.status === 'failed') {
+      throw new Error(status.error || 'Server analysis failed');
+    }
+    if (status.workerRunning === false) {
+      throw new Error('No analysis worker is running, so the server cannot analyze this track. Start one with `npm run worker`, then re-analyze the track.');
+    }
+
+    const stageLabel = status.status === 'queued' ? 'Waiting for analysis worker...' : `Server analysis: ${status.stage ?? 'running'}...`;
+    onProgress(status.progress ?? 0, stageLabel);
+  }
+
+  throw new Error('Server analysis is taking longer than expected. The track will finish analyzing in the background.');
+}
+
+// Audio files in a drop, walking into dropped folders. Other files (cover
+// art, playlists) are left out.
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  // Browsers without the entries API only expose the top-level files
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).filter(isAudioFile);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    files.push(...await readEntry(entry));
+  }
+  return files.filter(isAudioFile);
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    // readEntries hands back at most ~100 entries per call
+    for (;;) {
+      const children = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (children.length === 0) break;
+      for (const child of children) files.push(...await readEntry(child));
+    }
+    return files;
+  }
+
+  return [];
+}
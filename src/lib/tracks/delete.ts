@@ -0,0 +1,82 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/database/connection';
+import { getStorage } from '@/lib/storage';
+
+export interface TrackDeletion {
+  deletedPlaylists: number; // Seeded by the track, or left empty without it
+  updatedPlaylists: number; // Still around, with the track taken out
+  deletedActions: number;
+}
+
+// Remove a track with everything that depends on it: features and analysis
+// jobs cascade, playlists it seeded go, other playlists lose it from their
+// track lists and the cue points of their transitions to and from it, and its
+// audio, cover art and waveform leave storage.
+// Returns null when the track doesn't exist.
+export async function deleteTrack(trackId: string): Promise<TrackDeletion | null> {
+  const result = await prisma.$transaction(async tx => {
+    const track = await tx.track.findUnique({
+      where: { id: trackId },
+      select: { filePath: true, coverArtPath: true, features: { select: { waveformPath: true } } }
+    });
+    if (!track) return null;
+
+    const seeded = await tx.playlist.deleteMany({ where: { seedTrackId: trackId } });
+
+    // Playlist track lists are JSON, so rewrite the ones that mention the track
+    let updatedPlaylists = 0;
+    const emptied: string[] = [];
+    const playlists = await tx.playlist.findMany({ select: { id: true, trackOrder: true, transitionInstructions: true } });
+    for (const playlist of playlists) {
+      if (!Array.isArray(playlist.trackOrder)) continue;
+      const items = playlist.trackOrder as Array<Record<string, unknown>>;
+      const remaining = items.filter(item => item?.trackId !== trackId);
+      if (remaining.length === items.length) continue;
+      if (remaining.length === 0) {
+        emptied.push(playlist.id);
+        continue;
+      }
+      const data: Prisma.PlaylistUpdateInput = {
+        trackOrder: remaining.map((item, index) => ({ ...item, position: index })) as Prisma.InputJsonValue
+      };
+      // Cue points into and out of the track go; its neighbours now meet
+      // without planned ones
+      if (Array.isArray(playlist.transitionInstructions)) {
+        const transitions = playlist.transitionInstructions as Array<Record<string, unknown>>;
+        data.transitionInstructions = transitions.filter(
+          transition => transition?.fromTrackId !== trackId && transition?.toTrackId !== trackId
+        ) as Prisma.InputJsonValue;
+      }
+      await tx.playlist.update({ where: { id: playlist.id }, data });
+      updatedPlaylists++;
+    }
+    if (emptied.length > 0) {
+      await tx.playlist.deleteMany({ where: { id: { in: emptied } } });
+    }
+
+    const actions = await tx.userAction.deleteMany({
+      where: { OR: [{ trackId }, { targetTrackId: trackId }] }
+    });
+
+    await tx.track.delete({ where: { id: trackId } });
+
+    return {
+      deletion: {
+        deletedPlaylists: seeded.count + emptied.length,
+        updatedPlaylists,
+        deletedActions: actions.count,
+      },
+      removed: [track.filePath, track.coverArtPath, track.features?.waveformPath]
+        .filter((key): key is string => !!key)
+    };
+  });
+  if (!result) return null;
+
+  // Files go only once the records are gone; a failure here just leaves an orphan
+  const storage = getStorage();
+  await Promise.all(result.removed.map(key => storage.deleteObject(key).catch(error => {
+    console.warn(`Failed to delete ${key} after deleting track ${trackId}:`, error);
+  })));
+
+  return result.deletion;
+}
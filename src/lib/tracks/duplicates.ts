@@ -0,0 +1,208 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/database/connection';
+import { decodeFingerprint, FingerprintIndex } from '@/lib/audio/fingerprint';
+import { getStorage } from '@/lib/storage';
+import { DuplicateGroup, DuplicateMatch } from '@/types';
+
+// Duplicate detection across the library: byte-identical uploads share a
+// content hash, while re-encodes and edits of the same recording are found by
+// matching acoustic fingerprints.
+
+const trackSummary = {
+  id: true,
+  title: true,
+  artist: true,
+  filename: true,
+  contentHash: true,
+  createdAt: true,
+  features: { select: { fingerprint: true } },
+} satisfies Prisma.TrackSelect;
+
+type TrackSummary = Prisma.TrackGetPayload<{ select: typeof trackSummary }>;
+
+// Metadata a merged track can contribute when the kept one lacks it
+const MERGEABLE_FIELDS = ['artist', 'album', 'genre', 'year', 'label', 'taggedBpm', 'taggedKey', 'coverArtPath'] as const;
+
+// Tracks already in the library that duplicate `trackId`, exact ones first
+export async function findDuplicatesOf(trackId: string): Promise<DuplicateMatch[]> {
+  const track = await prisma.track.findUnique({ where: { id: trackId }, select: trackSummary });
+  if (!track) return [];
+
+  const exact = track.contentHash
+    ? await prisma.track.findMany({
+        where: { contentHash: track.contentHash, id: { not: trackId } },
+        select: trackSummary,
+        orderBy: { createdAt: 'asc' }
+      })
+    : [];
+  const matches: DuplicateMatch[] = exact.map(other => toMatch(other, 'exact', 1, 0));
+
+  const fingerprint = track.features?.fingerprint;
+  if (fingerprint) {
+    const exactIds = new Set(exact.map(other => other.id));
+    const candidates = await prisma.track.findMany({
+      where: { id: { not: trackId }, features: { fingerprint: { not: null } } },
+      select: trackSummary
+    });
+
+    const index = new FingerprintIndex<TrackSummary>();
+    for (const candidate of candidates) {
+      if (!exactIds.has(candidate.id)) index.add(candidate, decodeFingerprint(candidate.features!.fingerprint!));
+    }
+    for (const { id: other, match } of index.search(decodeFingerprint(fingerprint))) {
+      matches.push(toMatch(other, 'near', match.similarity, match.offset));
+    }
+  }
+
+  return matches;
+}
+
+// Every set of tracks that duplicate each other. A track is only ever in one
+// group; near-duplicate groups are closed transitively.
+export async function findDuplicateGroups(): Promise<DuplicateGroup[]> {
+  const tracks = await prisma.track.findMany({ select: trackSummary, orderBy: { createdAt: 'asc' } });
+  const groups: DuplicateGroup[] = [];
+
+  // Byte-identical files first; each group then stands in as one recording
+  const byHash = new Map<string, TrackSummary[]>();
+  for (const track of tracks) {
+    if (!track.contentHash) continue;
+    byHash.set(track.contentHash, [...(byHash.get(track.contentHash) ?? []), track]);
+  }
+  const representative = new Map<string, string>();
+  for (const members of byHash.values()) {
+    if (members.length < 2) continue;
+    groups.push({
+      kind: 'exact',
+      trackIds: members.map(member => member.id),
+      matches: members.slice(1).map(member => ({ trackId: members[0].id, otherTrackId: member.id, similarity: 1, offset: 0 })),
+    });
+    for (const member of members.slice(1)) representative.set(member.id, members[0].id);
+  }
+
+  const fingerprinted = tracks.filter(track => track.features?.fingerprint && !representative.has(track.id));
+  const codes = new Map(fingerprinted.map(track => [track.id, decodeFingerprint(track.features!.fingerprint!)]));
+  const index = new FingerprintIndex<string>();
+  for (const [id, fingerprint] of codes) index.add(id, fingerprint);
+
+  // Union-find over the matching pairs
+  const parent = new Map<string, string>();
+  const root = (id: string): string => {
+    const next = parent.get(id) ?? id;
+    if (next === id) return id;
+    const top = root(next);
+    parent.set(id, top);
+    return top;
+  };
+
+  const pairs: DuplicateGroup['matches'] = [];
+  for (const [id, fingerprint] of codes) {
+    for (const { id: otherId, match } of index.search(fingerprint)) {
+      if (otherId <= id) continue; // Each pair once, and never a track with itself
+      pairs.push({ trackId: id, otherTrackId: otherId, ...match });
+      parent.set(root(otherId), root(id));
+    }
+  }
+
+  const order = new Map(tracks.map((track, position) => [track.id, position]));
+  const nearGroups = new Map<string, DuplicateGroup>();
+  for (const pair of pairs) {
+    const key = root(pair.trackId);
+    const group = nearGroups.get(key) ?? { kind: 'near' as const, trackIds: [], matches: [] };
+    group.matches.push(pair);
+    for (const id of [pair.trackId, pair.otherTrackId]) {
+      if (!group.trackIds.includes(id)) group.trackIds.push(id);
+    }
+    nearGroups.set(key, group);
+  }
+  for (const group of nearGroups.values()) {
+    group.trackIds.sort((a, b) => order.get(a)! - order.get(b)!);
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+// Fold duplicates into the track that is kept: playlists and listening
+// history move over, missing metadata and analysis are taken from the
+// duplicates, and their records and stored files are removed
+export async function mergeTracks(keepTrackId: string, mergeTrackIds: string[]) {
+  const mergeIds = [...new Set(mergeTrackIds)].filter(id => id !== keepTrackId);
+
+  const removed = await prisma.$transaction(async tx => {
+    const keep = await tx.track.findUnique({ where: { id: keepTrackId }, include: { features: true } });
+    const duplicates = await tx.track.findMany({
+      where: { id: { in: mergeIds } },
+      include: { features: true },
+      orderBy: { createdAt: 'asc' }
+    });
+    if (!keep || duplicates.length !== mergeIds.length) {
+      throw new Error('Some of the tracks to merge no longer exist');
+    }
+
+    const fill: Prisma.TrackUpdateInput = {};
+    for (const field of MERGEABLE_FIELDS) {
+      if (keep[field] !== null) continue;
+      const donor = duplicates.find(duplicate => duplicate[field] !== null);
+      if (donor) Object.assign(fill, { [field]: donor[field] });
+    }
+    if (Object.keys(fill).length > 0) {
+      await tx.track.update({ where: { id: keepTrackId }, data: fill });
+    }
+
+    // Analysis is the expensive part, so adopt it rather than start over
+    let adoptedFeaturesId: string | undefined;
+    if (!keep.features) {
+      const analyzed = duplicates.find(duplicate => duplicate.features);
+      if (analyzed?.features) {
+        adoptedFeaturesId = analyzed.features.id;
+        await tx.trackFeatures.update({ where: { id: analyzed.features.id }, data: { trackId: keepTrackId } });
+        if (!keep.duration && analyzed.duration) {
+          await tx.track.update({ where: { id: keepTrackId }, data: { duration: analyzed.duration } });
+        }
+      }
+    }
+
+    await tx.playlist.updateMany({ where: { seedTrackId: { in: mergeIds } }, data: { seedTrackId: keepTrackId } });
+    await tx.userAction.updateMany({ where: { trackId: { in: mergeIds } }, data: { trackId: keepTrackId } });
+    await tx.userAction.updateMany({ where: { targetTrackId: { in: mergeIds } }, data: { targetTrackId: keepTrackId } });
+
+    // Playlist track lists are JSON, so rewrite the ones that mention a duplicate
+    const playlists = await tx.playlist.findMany({ select: { id: true, trackOrder: true } });
+    for (const playlist of playlists) {
+      if (!Array.isArray(playlist.trackOrder)) continue;
+      const items = playlist.trackOrder as Array<Record<string, unknown>>;
+      if (!items.some(item => mergeIds.includes(item?.trackId as string))) continue;
+      await tx.playlist.update({
+        where: { id: playlist.id },
+        data: {
+          trackOrder: items.map(item => mergeIds.includes(item?.trackId as string) ? { ...item, trackId: keepTrackId } : item) as Prisma.InputJsonValue
+        }
+      });
+    }
+
+    await tx.track.deleteMany({ where: { id: { in: mergeIds } } });
+
+    // Cover art and waveforms handed to the kept track must stay in storage
+    const keptCover = fill.coverArtPath as string | undefined;
+    return duplicates.flatMap(duplicate => [
+      duplicate.filePath,
+      duplicate.coverArtPath,
+      duplicate.features?.id !== adoptedFeaturesId ? duplicate.features?.waveformPath : null
+    ].filter(
+      (key): key is string => !!key && key !== keptCover && key !== keep.filePath && key !== keep.coverArtPath
+    ));
+  });
+
+  // Files go only once the records are gone; a failure here just leaves an orphan
+  const storage = getStorage();
+  await Promise.all(removed.map(key => storage.deleteObject(key).catch(error => {
+    console.warn(`Failed to delete ${key} after merging tracks:`, error);
+  })));
+
+  return prisma.track.findUnique({ where: { id: keepTrackId }, include: { features: true } });
+}
+
+function toMatch(track: TrackSummary, kind: DuplicateMatch['kind'], similarity: number, offset: number): DuplicateMatch {
+  return { trackId: track.id, title: track.title, artist: track.artist, filename: track.filename, kind, similarity, offset };
+}
@@ -0,0 +1,69 @@
+import { normalizeKey } from '@/lib/audio/harmonic-keys';
+
+// Hand edits to a track, parsed from a PATCH /api/tracks/[id] body. Only the
+// fields present change; null clears one.
+
+const TEXT_FIELDS = ['title', 'artist', 'album', 'genre'] as const;
+const EDITABLE_FIELDS: readonly string[] = [...TEXT_FIELDS, 'bpmOverride', 'keyOverride'];
+
+// Anything faster is a doubled tempo rather than a real BPM
+const MAX_BPM = 300;
+
+export interface TrackEdit {
+  title?: string | null;
+  artist?: string | null;
+  album?: string | null;
+  genre?: string | null;
+  bpmOverride?: number | null;
+  keyOverride?: string | null; // Stored in standard notation
+}
+
+export interface TrackEditRejection {
+  error: string;
+  details: string;
+}
+
+export function parseTrackEdit(body: unknown): TrackEdit | TrackEditRejection {
+  const invalid = (details: string): TrackEditRejection => ({ error: 'Invalid track edit', details });
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return invalid('Body must be a JSON object');
+  }
+  const fields = body as Record<string, unknown>;
+
+  const unknown = Object.keys(fields).filter(field => !EDITABLE_FIELDS.includes(field));
+  if (unknown.length > 0) {
+    return invalid(`Unknown fields: ${unknown.join(', ')}. Editable fields are ${EDITABLE_FIELDS.join(', ')}`);
+  }
+
+  const edit: TrackEdit = {};
+  for (const field of TEXT_FIELDS) {
+    const value = fields[field];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== 'string') return invalid(`${field} must be a string or null`);
+    // Blank text clears the field rather than storing an empty title
+    edit[field] = value?.trim() || null;
+  }
+
+  if (fields.bpmOverride !== undefined) {
+    const bpm = fields.bpmOverride;
+    if (bpm !== null && (typeof bpm !== 'number' || !Number.isFinite(bpm) || bpm <= 0 || bpm > MAX_BPM)) {
+      return invalid(`bpmOverride must be a number between 0 and ${MAX_BPM}, or null`);
+    }
+    edit.bpmOverride = bpm;
+  }
+
+  if (fields.keyOverride !== undefined) {
+    const notation = fields.keyOverride;
+    if (notation !== null && typeof notation !== 'string') return invalid('keyOverride must be a string or null');
+    if (notation === null || notation.trim() === '') {
+      edit.keyOverride = null;
+    } else {
+      const key = normalizeKey(notation);
+      if (!key) return invalid(`Unrecognized key '${notation}'`);
+      edit.keyOverride = key;
+    }
+  }
+
+  return edit;
+}
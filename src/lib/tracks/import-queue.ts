@@ -0,0 +1,272 @@
+import { DuplicateMatch, Track } from '@/types';
+import { MAX_BATCH_BYTES, MAX_BATCH_FILES, validateAudioFile } from './audio-files';
+
+// Client-side queue for importing many tracks at once. Files are uploaded in
+// small batches and analyzed a few at a time; the queue itself knows nothing
+// about fetch or the DOM, the caller supplies both steps as handlers.
+
+export type ImportStatus = 'queued' | 'uploading' | 'uploaded' | 'analyzing' | 'done' | 'failed' | 'cancelled';
+
+export interface ImportItem {
+  id: string;
+  file: File;
+  status: ImportStatus;
+  progress: number; // 0-1 within the current step
+  message?: string;
+  trackId?: string;
+  track?: Track;
+  duplicates?: DuplicateMatch[]; // Library tracks this one appears to duplicate
+  error?: string;
+  retryable: boolean;
+}
+
+// Outcome of one file in a batch upload, in the order the files were sent
+export type UploadOutcome = { trackId: string; duplicates?: DuplicateMatch[] } | { error: string };
+
+export interface ImportedTrack {
+  track: Track;
+  duplicates?: DuplicateMatch[]; // Replaces what the upload reported
+}
+
+export interface AnalyzeContext {
+  signal: AbortSignal;
+  onProgress: (progress: number, message: string) => void;
+}
+
+export interface ImportHandlers {
+  uploadBatch: (files: File[]) => Promise<UploadOutcome[]>;
+  analyze: (trackId: string, file: File, context: AnalyzeContext) => Promise<ImportedTrack>;
+  onImported?: (track: Track) => void;
+  onChange?: (items: ImportItem[]) => void;
+}
+
+export interface ImportQueueOptions {
+  concurrency?: number; // Tracks analyzed at the same time
+  batchFiles?: number; // Most files per upload request
+  batchBytes?: number; // Most bytes per upload request, a single larger file still goes alone
+}
+
+export interface ImportSummary {
+  total: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+  pending: number;
+}
+
+const PENDING_STATUSES: ImportStatus[] = ['queued', 'uploading', 'uploaded', 'analyzing'];
+
+export class ImportQueue {
+  private readonly handlers: ImportHandlers;
+  private readonly options: Required<ImportQueueOptions>;
+  private items: ImportItem[] = [];
+  private readonly controllers = new Map<string, AbortController>();
+  private uploading = false;
+  private itemCount = 0;
+
+  constructor(handlers: ImportHandlers, options: ImportQueueOptions = {}) {
+    this.handlers = handlers;
+    this.options = {
+      concurrency: Math.max(1, options.concurrency ?? 2),
+      // Within what the batch route accepts
+      batchFiles: Math.min(MAX_BATCH_FILES, Math.max(1, options.batchFiles ?? 4)),
+      batchBytes: Math.min(MAX_BATCH_BYTES, options.batchBytes ?? 100 * 1024 * 1024),
+    };
+  }
+
+  get concurrency(): number {
+    return this.options.concurrency;
+  }
+
+  // Files that can't be uploaded at all fail straight away and can't be retried
+  add(files: File[]): void {
+    for (const file of files) {
+      const rejection = validateAudioFile(file);
+      this.items.push({
+        id: `import-${++this.itemCount}`,
+        file,
+        status: rejection ? 'failed' : 'queued',
+        progress: 0,
+        error: rejection ? `${rejection.error}: ${rejection.details}` : undefined,
+        retryable: !rejection,
+      });
+    }
+    this.changed();
+    this.pump();
+  }
+
+  // A file already sent in a batch stays uploaded; its server-side analysis
+  // job takes over once the grace period runs out
+  cancel(id: string): void {
+    const item = this.find(id);
+    if (!item || !PENDING_STATUSES.includes(item.status)) return;
+
+    this.controllers.get(id)?.abort();
+    this.update(item, { status: 'cancelled', message: undefined, retryable: true });
+    this.pump();
+  }
+
+  cancelAll(): void {
+    for (const item of this.items) {
+      if (PENDING_STATUSES.includes(item.status)) this.cancel(item.id);
+    }
+  }
+
+  // Uploaded tracks are only analyzed again, not uploaded a second time
+  retry(id: string): void {
+    const item = this.find(id);
+    if (!item || !item.retryable || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+
+    this.update(item, {
+      status: item.trackId ? 'uploaded' : 'queued',
+      progress: 0,
+      message: undefined,
+      error: undefined,
+    });
+    this.pump();
+  }
+
+  retryFailed(): void {
+    for (const item of this.items) {
+      if (item.status === 'failed') this.retry(item.id);
+    }
+  }
+
+  clearFinished(): void {
+    this.items = this.items.filter(item => PENDING_STATUSES.includes(item.status));
+    this.changed();
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.options.concurrency = Math.max(1, Math.round(concurrency));
+    this.pump();
+  }
+
+  snapshot(): ImportItem[] {
+    return this.items.map(item => ({ ...item }));
+  }
+
+  summary(): ImportSummary {
+    const count = (status: ImportStatus) => this.items.filter(item => item.status === status).length;
+    return {
+      total: this.items.length,
+      done: count('done'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      pending: this.items.filter(item => PENDING_STATUSES.includes(item.status)).length,
+    };
+  }
+
+  // Start whatever work the current slots allow
+  private pump(): void {
+    const { concurrency } = this.options;
+
+    let analyzing = this.items.filter(item => item.status === 'analyzing').length;
+    for (const item of this.items) {
+      if (analyzing >= concurrency) break;
+      if (item.status !== 'uploaded') continue;
+      analyzing++;
+      void this.analyze(item);
+    }
+
+    // Upload only a little ahead of analysis: every uploaded track has a
+    // server-side job waiting out the browser's grace period, so a long
+    // backlog of uploaded files would end up analyzed twice
+    const waiting = this.items.filter(item => item.status === 'uploaded').length;
+    if (this.uploading || waiting >= concurrency) return;
+
+    const batch = this.nextBatch(concurrency * 2 - waiting);
+    if (batch.length > 0) void this.upload(batch);
+  }
+
+  private nextBatch(limit: number): ImportItem[] {
+    const batch: ImportItem[] = [];
+    let bytes = 0;
+    for (const item of this.items) {
+      if (item.status !== 'queued') continue;
+      if (batch.length >= Math.min(limit, this.options.batchFiles)) break;
+      if (batch.length > 0 && bytes + item.file.size > this.options.batchBytes) break;
+      batch.push(item);
+      bytes += item.file.size;
+    }
+    return batch;
+  }
+
+  private async upload(batch: ImportItem[]): Promise<void> {
+    this.uploading = true;
+    for (const item of batch) this.update(item, { status: 'uploading', progress: 0, message: 'Uploading...' });
+
+    try {
+      const outcomes = await this.handlers.uploadBatch(batch.map(item => item.file));
+      batch.forEach((item, index) => {
+        const outcome = outcomes[index] ?? { error: 'No upload result returned' };
+        if ('trackId' in outcome) {
+          // Keep the track id even when cancelled meanwhile, so a retry skips the upload
+          if (item.status === 'cancelled') {
+            item.trackId = outcome.trackId;
+          } else {
+            this.update(item, {
+              status: 'uploaded',
+              trackId: outcome.trackId,
+              duplicates: outcome.duplicates,
+              progress: 0,
+              message: 'Waiting for analysis...'
+            });
+          }
+        } else if (item.status !== 'cancelled') {
+          this.update(item, { status: 'failed', error: outcome.error, message: undefined });
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Upload failed';
+      for (const item of batch) {
+        if (item.status === 'uploading') this.update(item, { status: 'failed', error: message, message: undefined });
+      }
+    } finally {
+      this.uploading = false;
+      this.pump();
+    }
+  }
+
+  private async analyze(item: ImportItem): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    this.update(item, { status: 'analyzing', progress: 0, message: 'Analyzing...' });
+
+    try {
+      const { track, duplicates = item.duplicates } = await this.handlers.analyze(item.trackId!, item.file, {
+        signal: controller.signal,
+        onProgress: (progress, message) => {
+          if (item.status === 'analyzing') this.update(item, { progress, message });
+        },
+      });
+      if (controller.signal.aborted) return;
+
+      this.update(item, { status: 'done', track, duplicates, progress: 1, message: undefined });
+      this.handlers.onImported?.(track);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this.update(item, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Analysis failed',
+        message: undefined,
+      });
+    } finally {
+      this.controllers.delete(item.id);
+      this.pump();
+    }
+  }
+
+  private find(id: string): ImportItem | undefined {
+    return this.items.find(item => item.id === id);
+  }
+
+  private update(item: ImportItem, changes: Partial<ImportItem>): void {
+    Object.assign(item, changes);
+    this.changed();
+  }
+
+  private changed(): void {
+    this.handlers.onChange?.(this.snapshot());
+  }
+}
@@ -0,0 +1,172 @@
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+import type { findTracks as FindTracks, parseTrackQuery as ParseTrackQuery, TrackSortField } from './library-query';
+
+type Value = string | number | Date | null;
+type Row = Record<string, unknown> & { id: string; features: Record<string, Value> | null };
+
+// In-memory stand-in for the tracks table, evaluating the where and orderBy
+// shapes the library query builds the way Postgres would: comparisons with
+// NULL never match, and nulls sort where `nulls` says
+const tracks: Row[] = [];
+
+function compare(a: Value, b: Value): number {
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  return x! < y! ? -1 : x! > y! ? 1 : 0;
+}
+
+function matchesValue(value: Value, condition: unknown): boolean {
+  if (condition === null) return value === null;
+  if (typeof condition !== 'object' || condition instanceof Date) return value !== null && compare(value, condition as Value) === 0;
+  return Object.entries(condition as Record<string, unknown>).every(([operator, operand]) => {
+    if (operand === undefined || operator === 'mode') return true;
+    if (operator === 'equals') return matchesValue(value, operand);
+    if (value === null) return false;
+    switch (operator) {
+      case 'gt': return compare(value, operand as Value) > 0;
+      case 'gte': return compare(value, operand as Value) >= 0;
+      case 'lt': return compare(value, operand as Value) < 0;
+      case 'lte': return compare(value, operand as Value) <= 0;
+      case 'in': return (operand as Value[]).includes(value);
+      case 'contains': return String(value).toLowerCase().includes(String(operand).toLowerCase());
+      default: throw new Error(`Unsupported filter ${operator}`);
+    }
+  });
+}
+
+function matches(row: Record<string, unknown>, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') return (condition as Record<string, unknown>[]).every(part => matches(row, part));
+    if (key === 'OR') return (condition as Record<string, unknown>[]).some(part => matches(row, part));
+    if (key === 'features') {
+      const { is, isNot } = condition as { is?: Record<string, unknown> | null; isNot?: null };
+      const features = row.features as Record<string, unknown> | null;
+      if (isNot === null) return features !== null;
+      return is === null ? features === null : features !== null && matches(features, is!);
+    }
+    return matchesValue(row[key] as Value, condition);
+  });
+}
+
+type Order = Record<string, unknown>;
+
+function orderValue(row: Row, order: Order): { value: Value; sort: string; nulls: 'first' | 'last' } {
+  const [key, spec] = Object.entries(order)[0];
+  if (key === 'features') return { ...orderValue({ ...(row.features ?? {}), id: row.id, features: null }, spec as Order) };
+  const { sort, nulls } = typeof spec === 'string' ? { sort: spec, nulls: undefined } : spec as { sort: string; nulls?: 'first' | 'last' };
+  return { value: (row[key] ?? null) as Value, sort, nulls: nulls ?? (sort === 'asc' ? 'last' : 'first') };
+}
+
+jest.mock('@/lib/database/connection', () => ({
+  prisma: {
+    track: {
+      findMany: async ({ where, orderBy, take }: { where: Record<string, unknown>; orderBy: Order[]; take: number }) =>
+        tracks.filter(row => matches(row, where)).sort((a, b) => {
+          for (const order of orderBy) {
+            const x = orderValue(a, order);
+            const y = orderValue(b, order);
+            if (x.value === null || y.value === null) {
+              if (x.value === y.value) continue;
+              return (x.value === null) === (x.nulls === 'last') ? 1 : -1;
+            }
+            const difference = compare(x.value, y.value) * (x.sort === 'asc' ? 1 : -1);
+            if (difference !== 0) return difference;
+          }
+          return 0;
+        }).slice(0, take),
+      count: async ({ where }: { where: Record<string, unknown> }) => tracks.filter(row => matches(row, where)).length,
+    },
+  },
+}));
+
+// 30 tracks where every sortable column has NULLs and repeated values, and
+// some tracks have no features row at all
+function seedLibrary(): void {
+  tracks.length = 0;
+  for (let i = 0; i < 30; i++) {
+    const analyzed = i % 5 !== 0;
+    tracks.push({
+      id: `track-${String(i).padStart(2, '0')}`,
+      createdAt: new Date(Date.UTC(2026, 0, 1 + (i % 7))),
+      title: i % 4 === 0 ? null : `Title ${i % 6}`,
+      artist: i % 3 === 0 ? null : `Artist ${i % 4}`,
+      duration: i % 6 === 0 ? null : 180 + (i % 5) * 30,
+      effectiveBpm: i % 3 === 1 ? null : 120 + (i % 4),
+      features: analyzed ? { energyLevel: i % 4 === 1 ? null : (i % 3) / 2 } : null,
+    });
+  }
+}
+
+const SORT_VALUE: Record<TrackSortField, (row: Row) => Value> = {
+  createdAt: row => row.createdAt as Date,
+  title: row => row.title as Value,
+  artist: row => row.artist as Value,
+  duration: row => row.duration as Value,
+  bpm: row => row.effectiveBpm as Value,
+  energy: row => row.features?.energyLevel ?? null,
+};
+
+// The full ordering the pages should add up to: by value with nulls last, then id
+function expectedOrder(sort: TrackSortField, order: 'asc' | 'desc'): string[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...tracks].sort((a, b) => {
+    const x = SORT_VALUE[sort](a);
+    const y = SORT_VALUE[sort](b);
+    if (x === null || y === null) {
+      if (x !== y) return x === null ? 1 : -1;
+    } else if (compare(x, y) !== 0) {
+      return compare(x, y) * direction;
+    }
+    return a.id.localeCompare(b.id) * direction;
+  }).map(row => row.id);
+}
+
+describe('track library pagination', () => {
+  let findTracks: typeof FindTracks;
+  let parseTrackQuery: typeof ParseTrackQuery;
+
+  // Imported once the database mock is registered
+  beforeAll(async () => {
+    ({ findTracks, parseTrackQuery } = await import('./library-query'));
+    seedLibrary();
+  });
+
+  async function pageThrough(params: Record<string, string>): Promise<string[]> {
+    const ids: string[] = [];
+    let cursor: string | null = null;
+    for (let page = 0; page < 50; page++) {
+      const query = parseTrackQuery(new URLSearchParams({ ...params, limit: '4', ...(cursor ? { cursor } : {}) }));
+      if ('error' in query) throw new Error(query.details);
+      const result = await findTracks(query);
+      ids.push(...result.tracks.map(track => track.id));
+      cursor = result.nextCursor;
+      if (!cursor) return ids;
+    }
+    throw new Error('Pagination did not finish');
+  }
+
+  it.each(['createdAt', 'title', 'artist', 'duration', 'bpm', 'energy'].flatMap(sort =>
+    ['asc', 'desc'].map(order => [sort, order] as [TrackSortField, 'asc' | 'desc'])
+  ))('visits every track once sorted by %s %s, NULLs included', async (sort, order) => {
+    expect(await pageThrough({ sort, order })).toEqual(expectedOrder(sort, order));
+  });
+
+  it('pages through a filtered library', async () => {
+    const ids = await pageThrough({ sort: 'bpm', bpmMin: '121', bpmMax: '122' });
+
+    expect(ids).toEqual(expectedOrder('bpm', 'asc').filter(id => {
+      const bpm = tracks.find(row => row.id === id)!.effectiveBpm as number | null;
+      return bpm !== null && bpm >= 121 && bpm <= 122;
+    }));
+  });
+
+  it('rejects a malformed cursor or one from another sort', async () => {
+    expect(parseTrackQuery(new URLSearchParams({ cursor: 'not-a-cursor' }))).toMatchObject({ details: 'cursor is malformed' });
+
+    const first = parseTrackQuery(new URLSearchParams({ sort: 'energy', limit: '2' }));
+    if ('error' in first) throw new Error(first.details);
+    const { nextCursor } = await findTracks(first);
+
+    expect(parseTrackQuery(new URLSearchParams({ sort: 'bpm', cursor: nextCursor! }))).toMatchObject({ error: 'Invalid query' });
+  });
+});
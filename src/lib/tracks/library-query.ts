@@ -0,0 +1,327 @@
+import { Prisma, Track } from '@prisma/client';
+import { prisma } from '@/lib/database/connection';
+import { ANALYZER_VERSION } from '@/lib/audio/analyzer';
+import { compatibleKeys, normalizeKey } from '@/lib/audio/harmonic-keys';
+
+// Search, filters, sorting and cursor pagination for the track library,
+// parsed from GET /api/tracks query parameters.
+
+export const TRACK_SORT_FIELDS = ['createdAt', 'title', 'artist', 'bpm', 'energy', 'duration'] as const;
+export type TrackSortField = typeof TRACK_SORT_FIELDS[number];
+
+// 'summary' leaves out the bulky per-frame JSON, enough for lists
+export type TrackView = 'full' | 'summary';
+
+type SortValue = string | number | Date | null;
+
+// Keyset position: the sort value and id of the last track on the previous
+// page. Clients get it as an opaque string and send it back unchanged.
+export interface TrackCursor {
+  sort: TrackSortField;
+  value: SortValue;
+  id: string;
+}
+
+export interface TrackQuery {
+  search?: string; // Words matched against title, artist and filename
+  bpmMin?: number;
+  bpmMax?: number;
+  keys?: string[]; // Standard notation, matched against the manual or detected key
+  energyMin?: number;
+  energyMax?: number;
+  genres?: string[];
+  analyzed?: boolean;
+  sort: TrackSortField;
+  order: Prisma.SortOrder;
+  limit: number;
+  cursor?: TrackCursor;
+  view: TrackView;
+}
+
+export interface TrackQueryRejection {
+  error: string;
+  details: string;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Everything on the features row except per-frame arrays, the fingerprint
+// and other JSON only analysis consumers need
+const SUMMARY_FEATURE_FIELDS = {
+  id: true,
+  trackId: true,
+  tempo: true,
+  tempoConfidence: true,
+  musicalKey: true,
+  camelotKey: true,
+  keyConfidence: true,
+  alternateKey: true,
+  keyChanges: true,
+  energyLevel: true,
+  loudness: true,
+  truePeak: true,
+  danceability: true,
+  valence: true,
+  structureSegments: true,
+  waveformPath: true,
+  analyzerVersion: true,
+  featureStatus: true,
+  degraded: true,
+  createdAt: true,
+} satisfies Prisma.TrackFeaturesSelect;
+
+export function parseTrackQuery(params: URLSearchParams): TrackQuery | TrackQueryRejection {
+  const invalid = (details: string): TrackQueryRejection => ({ error: 'Invalid query', details });
+
+  const numbers: Record<string, number | undefined> = {};
+  for (const name of ['bpmMin', 'bpmMax', 'energyMin', 'energyMax', 'limit']) {
+    const text = params.get(name);
+    if (text === null || text === '') continue;
+    const value = Number(text);
+    if (!Number.isFinite(value) || value < 0) return invalid(`${name} must be a non-negative number`);
+    numbers[name] = value;
+  }
+  if ((numbers.bpmMin ?? 0) > (numbers.bpmMax ?? Infinity)) return invalid('bpmMin is above bpmMax');
+  if ((numbers.energyMin ?? 0) > (numbers.energyMax ?? Infinity)) return invalid('energyMin is above energyMax');
+  if (numbers.limit !== undefined && (!Number.isInteger(numbers.limit) || numbers.limit < 1)) {
+    return invalid('limit must be a positive integer');
+  }
+
+  // ?key= lists keys in any notation; ?compatibleWith= adds every key that
+  // mixes well from the given one
+  let keys: string[] | undefined;
+  const keyList = list(params.get('key'));
+  const compatibleWith = params.get('compatibleWith');
+  if (keyList || compatibleWith) {
+    keys = [];
+    for (const notation of keyList ?? []) {
+      const key = normalizeKey(notation);
+      if (!key) return invalid(`Unrecognized key '${notation}'`);
+      keys.push(key);
+    }
+    if (compatibleWith) {
+      const compatible = compatibleKeys(compatibleWith);
+      if (compatible.length === 0) return invalid(`Unrecognized key '${compatibleWith}'`);
+      keys.push(...compatible);
+    }
+    keys = [...new Set(keys)];
+  }
+
+  const analyzedText = params.get('analyzed');
+  if (analyzedText !== null && analyzedText !== 'true' && analyzedText !== 'false') {
+    return invalid('analyzed must be true or false');
+  }
+
+  const sort = (params.get('sort') ?? 'createdAt') as TrackSortField;
+  if (!TRACK_SORT_FIELDS.includes(sort)) return invalid(`sort must be one of ${TRACK_SORT_FIELDS.join(', ')}`);
+  const order = params.get('order') ?? (sort === 'createdAt' ? 'desc' : 'asc');
+  if (order !== 'asc' && order !== 'desc') return invalid('order must be asc or desc');
+
+  const view = params.get('view') ?? 'full';
+  if (view !== 'full' && view !== 'summary') return invalid('view must be full or summary');
+
+  const cursorText = params.get('cursor');
+  const cursor = cursorText ? decodeCursor(cursorText) : undefined;
+  if (cursor === null) return invalid('cursor is malformed');
+  if (cursor && cursor.sort !== sort) return invalid('cursor belongs to a different sort; start again from the first page');
+
+  return {
+    search: params.get('q')?.trim() || undefined,
+    bpmMin: numbers.bpmMin,
+    bpmMax: numbers.bpmMax,
+    keys,
+    energyMin: numbers.energyMin,
+    energyMax: numbers.energyMax,
+    genres: list(params.get('genre')),
+    analyzed: analyzedText === null ? undefined : analyzedText === 'true',
+    sort,
+    order,
+    limit: Math.min(MAX_LIMIT, numbers.limit ?? DEFAULT_LIMIT),
+    cursor,
+    view,
+  };
+}
+
+// One page of tracks, with the cursor for the next page (null on the last)
+// and the number of tracks matching the filters across all pages
+export async function findTracks(query: TrackQuery) {
+  const where = trackWhere(query);
+  const after = query.cursor ? afterCursor(query.cursor, query.order) : null;
+
+  const [tracks, total] = await Promise.all([
+    prisma.track.findMany({
+      where: after ? { AND: [where, after] } : where,
+      include: { features: query.view === 'summary' ? { select: SUMMARY_FEATURE_FIELDS } : true },
+      // Ties are broken by id so the cursor always points at one position
+      orderBy: [sortOrder(query.sort, query.order), { id: query.order }],
+      take: query.limit + 1,
+    }),
+    prisma.track.count({ where }),
+  ]);
+
+  const page = tracks.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return {
+    tracks: page.map(withLibraryFields),
+    nextCursor: tracks.length > query.limit
+      ? encodeCursor({ sort: query.sort, value: sortValue(last, query.sort), id: last.id })
+      : null,
+    total,
+  };
+}
+
+// Fields clients derive from a track row: where its cover art is served, and
+// whether an older analyzer produced its features so they can offer re-analysis
+export function withLibraryFields<T extends { id: string; coverArtPath: string | null; features: { analyzerVersion: string | null } | null }>(track: T) {
+  return {
+    ...track,
+    coverArtUrl: track.coverArtPath ? `/api/tracks/${track.id}/cover` : null,
+    analysisOutdated: track.features ? track.features.analyzerVersion !== ANALYZER_VERSION : false
+  };
+}
+
+function trackWhere(query: TrackQuery): Prisma.TrackWhereInput {
+  const conditions: Prisma.TrackWhereInput[] = [];
+
+  // Every word has to appear somewhere, so 'daft punk one' finds 'One More Time' by Daft Punk
+  for (const word of query.search?.split(/\s+/) ?? []) {
+    conditions.push({
+      OR: [
+        { title: { contains: word, mode: 'insensitive' } },
+        { artist: { contains: word, mode: 'insensitive' } },
+        { filename: { contains: word, mode: 'insensitive' } },
+      ]
+    });
+  }
+
+  if (query.genres) {
+    conditions.push({ OR: query.genres.map(genre => ({ genre: { equals: genre, mode: 'insensitive' as const } })) });
+  }
+
+  // A manual BPM or key replaces the analyzed one for filtering too
+  if (query.bpmMin !== undefined || query.bpmMax !== undefined) {
+    conditions.push({ effectiveBpm: { gte: query.bpmMin, lte: query.bpmMax } });
+  }
+  if (query.keys) {
+    conditions.push({
+      OR: [
+        { keyOverride: { in: query.keys } },
+        { keyOverride: null, features: { is: { musicalKey: { in: query.keys } } } },
+      ]
+    });
+  }
+  if (query.energyMin !== undefined || query.energyMax !== undefined) {
+    conditions.push({ features: { is: { energyLevel: { gte: query.energyMin, lte: query.energyMax } } } });
+  }
+
+  if (query.analyzed !== undefined) {
+    conditions.push({ features: query.analyzed ? { isNot: null } : { is: null } });
+  }
+
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+// Missing values (untitled, unanalyzed) sort last in either direction
+function sortOrder(sort: TrackSortField, order: Prisma.SortOrder): Prisma.TrackOrderByWithRelationInput {
+  const nullsLast = { sort: order, nulls: 'last' as const };
+  switch (sort) {
+    case 'createdAt': return { createdAt: order };
+    case 'title': return { title: nullsLast };
+    case 'artist': return { artist: nullsLast };
+    case 'duration': return { duration: nullsLast };
+    case 'bpm': return { effectiveBpm: nullsLast };
+    case 'energy': return { features: { energyLevel: nullsLast } };
+  }
+}
+
+// Tracks that come after the cursor in (sort value, id) order. Missing values
+// sort last in both directions, so past a non-null value come the larger (or
+// smaller) values, the equal ones with a later id, then every null; past a
+// null only the nulls with a later id are left.
+function afterCursor(cursor: TrackCursor, order: Prisma.SortOrder): Prisma.TrackWhereInput {
+  const beyond = order === 'asc' ? 'gt' : 'lt';
+  const laterId: Prisma.TrackWhereInput = { id: { [beyond]: cursor.id } };
+
+  if (cursor.value === null) {
+    return { AND: [sortColumn(cursor.sort, null), laterId] };
+  }
+  return {
+    OR: [
+      sortColumn(cursor.sort, { [beyond]: cursor.value }),
+      { AND: [sortColumn(cursor.sort, { equals: cursor.value }), laterId] },
+      // createdAt is never null
+      ...(cursor.sort === 'createdAt' ? [] : [sortColumn(cursor.sort, null)]),
+    ]
+  };
+}
+
+// A condition on the sort column; null matches tracks without a value, which
+// for energy includes tracks with no features row at all
+function sortColumn(
+  sort: TrackSortField,
+  condition: { gt?: SortValue; lt?: SortValue; equals?: SortValue } | null
+): Prisma.TrackWhereInput {
+  switch (sort) {
+    case 'createdAt': return { createdAt: condition as Prisma.DateTimeFilter };
+    case 'title': return { title: condition as Prisma.StringNullableFilter | null };
+    case 'artist': return { artist: condition as Prisma.StringNullableFilter | null };
+    case 'duration': return { duration: condition as Prisma.FloatNullableFilter | null };
+    case 'bpm': return { effectiveBpm: condition as Prisma.FloatNullableFilter | null };
+    case 'energy':
+      return condition === null
+        ? { OR: [{ features: { is: null } }, { features: { is: { energyLevel: null } } }] }
+        : { features: { is: { energyLevel: condition as Prisma.FloatNullableFilter } } };
+  }
+}
+
+function sortValue(
+  track: Pick<Track, 'createdAt' | 'title' | 'artist' | 'duration' | 'effectiveBpm'> & { features: { energyLevel: number | null } | null },
+  sort: TrackSortField
+): SortValue {
+  switch (sort) {
+    case 'createdAt': return track.createdAt;
+    case 'title': return track.title;
+    case 'artist': return track.artist;
+    case 'duration': return track.duration;
+    case 'bpm': return track.effectiveBpm;
+    case 'energy': return track.features?.energyLevel ?? null;
+  }
+}
+
+function encodeCursor(cursor: TrackCursor): string {
+  const value = cursor.value instanceof Date ? cursor.value.toISOString() : cursor.value;
+  return Buffer.from(JSON.stringify([cursor.sort, value, cursor.id])).toString('base64url');
+}
+
+// Null for anything encodeCursor could not have produced
+function decodeCursor(text: string): TrackCursor | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(text, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+
+  const [sort, value, id] = parsed as [unknown, unknown, unknown];
+  if (!TRACK_SORT_FIELDS.includes(sort as TrackSortField) || typeof id !== 'string') return null;
+
+  switch (sort as TrackSortField) {
+    case 'createdAt': {
+      const date = typeof value === 'string' ? new Date(value) : null;
+      return date && !Number.isNaN(date.getTime()) ? { sort: 'createdAt', value: date, id } : null;
+    }
+    case 'title':
+    case 'artist':
+      return value === null || typeof value === 'string' ? { sort: sort as TrackSortField, value, id } : null;
+    default:
+      return value === null || typeof value === 'number' ? { sort: sort as TrackSortField, value, id } : null;
+  }
+}
+
+// Comma-separated values, or undefined when the parameter is absent or empty
+function list(text: string | null): string[] | undefined {
+  const values = text?.split(',').map(value => value.trim()).filter(Boolean);
+  return values && values.length > 0 ? values : undefined;
+}
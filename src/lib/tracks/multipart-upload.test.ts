@@ -0,0 +1,102 @@
+import { describe, expect, it } from '@jest/globals';
+import { forEachUploadedFile, MultipartError, MultipartLimits, UploadPart } from './multipart-upload';
+
+const LIMITS: MultipartLimits = { field: 'audio', maxFiles: 5, maxFileBytes: 64 * 1024, maxTotalBytes: 1024 * 1024 };
+
+function bytes(length: number, fill: number): Uint8Array {
+  return new Uint8Array(length).fill(fill);
+}
+
+function uploadRequest(files: Array<{ name: string; data: Uint8Array; type?: string; field?: string }>, headers: Record<string, string> = {}): Request {
+  const form = new FormData();
+  for (const file of files) {
+    form.append(file.field ?? 'audio', new Blob([file.data], { type: file.type ?? 'audio/wav' }), file.name);
+  }
+  const request = new Request('http://localhost/api/tracks/upload', { method: 'POST', body: form });
+  for (const [name, value] of Object.entries(headers)) request.headers.set(name, value);
+  return request;
+}
+
+async function readAll(part: UploadPart): Promise<{ filename: string; contentType: string | null; size: number; truncated: boolean }> {
+  const data = new Uint8Array(await new Response(part.body).arrayBuffer());
+  return { filename: part.filename, contentType: part.contentType, size: data.length, truncated: part.truncated() };
+}
+
+describe('forEachUploadedFile', () => {
+  it('hands every file to the handler in the order it was sent', async () => {
+    const request = uploadRequest([
+      { name: 'one.wav', data: bytes(1000, 1) },
+      { name: 'two.mp3', data: bytes(20000, 2), type: 'audio/mpeg' },
+      { name: 'notes.txt', data: bytes(10, 3), field: 'comment' },
+    ]);
+
+    const { results, skippedFiles } = await forEachUploadedFile(request, LIMITS, readAll);
+
+    expect(results).toEqual([
+      { filename: 'one.wav', contentType: 'audio/wav', size: 1000, truncated: false },
+      { filename: 'two.mp3', contentType: 'audio/mpeg', size: 20000, truncated: false },
+    ]);
+    expect(skippedFiles).toBe(false);
+  });
+
+  it('cuts a file off at maxFileBytes and carries on with the next one', async () => {
+    const request = uploadRequest([
+      { name: 'huge.wav', data: bytes(200 * 1024, 1) },
+      { name: 'small.wav', data: bytes(500, 2) },
+    ]);
+
+    const { results } = await forEachUploadedFile(request, LIMITS, readAll);
+
+    expect(results).toEqual([
+      { filename: 'huge.wav', contentType: 'audio/wav', size: 64 * 1024, truncated: true },
+      { filename: 'small.wav', contentType: 'audio/wav', size: 500, truncated: false },
+    ]);
+  });
+
+  it('skips the parts of a file the handler does not read', async () => {
+    const request = uploadRequest([
+      { name: 'rejected.wav', data: bytes(50000, 1) },
+      { name: 'kept.wav', data: bytes(500, 2) },
+    ]);
+
+    const { results } = await forEachUploadedFile(request, LIMITS, async part =>
+      part.filename === 'rejected.wav' ? 'skipped' : (await readAll(part)).size
+    );
+
+    expect(results).toEqual(['skipped', 500]);
+  });
+
+  it('ignores files past maxFiles and says so', async () => {
+    const request = uploadRequest([1, 2, 3].map(n => ({ name: `${n}.wav`, data: bytes(100, n) })));
+
+    const { results, skippedFiles } = await forEachUploadedFile(request, { ...LIMITS, maxFiles: 2 }, readAll);
+
+    expect(results.map(result => result.filename)).toEqual(['1.wav', '2.wav']);
+    expect(skippedFiles).toBe(true);
+  });
+
+  it('refuses a request whose Content-Length is over the total before reading it', async () => {
+    const request = uploadRequest([{ name: 'one.wav', data: bytes(100, 1) }], { 'content-length': String(2 * 1024 * 1024) });
+    let handled = false;
+
+    const upload = forEachUploadedFile(request, LIMITS, async () => { handled = true; });
+
+    await expect(upload).rejects.toBeInstanceOf(MultipartError);
+    await expect(upload).rejects.toMatchObject({ status: 413 });
+    expect(handled).toBe(false);
+  });
+
+  it('stops reading a body without Content-Length once it passes the total', async () => {
+    const request = uploadRequest([1, 2, 3].map(n => ({ name: `${n}.wav`, data: bytes(60 * 1024, n) })));
+
+    const upload = forEachUploadedFile(request, { ...LIMITS, maxTotalBytes: 100 * 1024 }, part => readAll(part).catch(() => null));
+
+    await expect(upload).rejects.toMatchObject({ status: 413 });
+  });
+
+  it('rejects a body that is not multipart/form-data', async () => {
+    const request = new Request('http://localhost/api/tracks/upload', { method: 'POST', body: 'hello' });
+
+    await expect(forEachUploadedFile(request, LIMITS, readAll)).rejects.toMatchObject({ status: 400 });
+  });
+});
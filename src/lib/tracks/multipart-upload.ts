@@ -0,0 +1,149 @@
+import busboy from 'busboy';
+import { pipeline, Readable, Transform } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+
+// Streaming multipart/form-data parsing for the upload routes. Each file part
+// is handed over as a stream while the request body is still arriving, so an
+// upload costs a few buffered chunks of memory however large its files are.
+
+// Room for the boundaries and part headers around a file's bytes
+export const MULTIPART_OVERHEAD_BYTES = 1024 * 1024;
+
+export interface UploadPart {
+  filename: string;
+  contentType: string | null;
+  body: ReadableStream<Uint8Array>;
+  // Whether the part ran past maxFileBytes; its body stops at the limit
+  truncated(): boolean;
+}
+
+export interface MultipartLimits {
+  field: string; // Form field carrying the files; other fields are skipped
+  maxFiles: number;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+}
+
+export interface MultipartResult<T> {
+  results: T[]; // One per accepted file, in the order they were sent
+  skippedFiles: boolean; // More than maxFiles were sent
+}
+
+export class MultipartError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'MultipartError';
+  }
+}
+
+// Hands each file part to `handle` in turn. A part is only read as fast as the
+// handler consumes it; whatever the handler leaves unread is discarded.
+export async function forEachUploadedFile<T>(
+  request: Request,
+  limits: MultipartLimits,
+  handle: (part: UploadPart) => Promise<T>
+): Promise<MultipartResult<T>> {
+  const contentType = request.headers.get('content-type');
+  if (!contentType?.toLowerCase().startsWith('multipart/form-data') || !request.body) {
+    throw new MultipartError('Expected a multipart/form-data body', 400);
+  }
+  // Refuse an oversized request before reading any of it
+  const declaredLength = Number(request.headers.get('content-length'));
+  if (declaredLength > limits.maxTotalBytes) {
+    throw new MultipartError(`Request is larger than ${formatMegabytes(limits.maxTotalBytes)}`, 413);
+  }
+
+  let parser: busboy.Busboy;
+  try {
+    parser = busboy({
+      headers: { 'content-type': contentType },
+      limits: { files: limits.maxFiles, fileSize: limits.maxFileBytes },
+    });
+  } catch {
+    throw new MultipartError('Malformed multipart/form-data body', 400);
+  }
+
+  return new Promise((resolve, reject) => {
+    const handled: Promise<T>[] = [];
+    let skippedFiles = false;
+
+    parser.on('file', (field, stream, info) => {
+      if (field !== limits.field) {
+        stream.resume();
+        return;
+      }
+      let truncated = false;
+      stream.on('limit', () => { truncated = true; });
+
+      const body = partBody(stream);
+      const result = handle({
+        filename: info.filename,
+        contentType: info.mimeType || null,
+        body,
+        truncated: () => truncated,
+      });
+      handled.push(result);
+      // Skip what the handler did not read, or parsing would stall here
+      result.finally(() => body.cancel()).catch(() => undefined);
+    });
+    parser.on('filesLimit', () => { skippedFiles = true; });
+    parser.on('close', () => {
+      Promise.all(handled).then(results => resolve({ results, skippedFiles }), reject);
+    });
+
+    // Bodies sent without a Content-Length are held to the same total
+    let received = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (received > limits.maxTotalBytes) {
+          callback(new MultipartError(`Request is larger than ${formatMegabytes(limits.maxTotalBytes)}`, 413));
+          return;
+        }
+        callback(null, chunk);
+      }
+    });
+
+    pipeline(Readable.fromWeb(request.body as unknown as NodeReadableStream<Uint8Array>), counter, parser, error => {
+      if (error) {
+        reject(error instanceof MultipartError ? error : new MultipartError('Malformed or interrupted multipart/form-data body', 400));
+      }
+    });
+  });
+}
+
+// A web stream over one file part. Cancelling it skips the rest of the part
+// instead of destroying it: busboy only moves on to the next part once the
+// current one has been read to the end.
+function partBody(stream: Readable): ReadableStream<Uint8Array> {
+  let open = true;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      stream.pause();
+      stream.on('data', (chunk: Buffer) => {
+        if (!open) return;
+        controller.enqueue(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+        if ((controller.desiredSize ?? 0) <= 0) stream.pause();
+      });
+      stream.on('end', () => {
+        if (open) controller.close();
+        open = false;
+      });
+      stream.on('error', error => {
+        if (open) controller.error(error);
+        open = false;
+      });
+    },
+    pull() {
+      stream.resume();
+    },
+    cancel() {
+      open = false;
+      stream.resume();
+    },
+  }, { highWaterMark: 4 });
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)}MB`;
+}
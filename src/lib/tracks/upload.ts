@@ -0,0 +1,114 @@
+import { Track as PrismaTrack } from '@prisma/client';
+import { prisma } from '@/lib/database/connection';
+import { AnalysisQueue } from '@/lib/jobs/analysis-queue';
+import { createAudioObjectKey, createCoverArtObjectKey, getStorage } from '@/lib/storage';
+import { normalizeKey } from '@/lib/audio/harmonic-keys';
+import { AudioTags, ByteSource, readTags } from '@/lib/audio/tag-reader';
+import { AnalysisJob, DuplicateMatch } from '@/types';
+import { UploadRejection, validateAudioSize, validateAudioType } from './audio-files';
+import { findDuplicatesOf } from './duplicates';
+import { UploadPart } from './multipart-upload';
+
+const CLIENT_ANALYSIS_GRACE_MS = (Number(process.env.ANALYSIS_CLIENT_GRACE_SECONDS) || 120) * 1000;
+const MAX_COVER_ART_BYTES = 10 * 1024 * 1024;
+
+export interface StoredUpload {
+  track: PrismaTrack;
+  analysisJob: AnalysisJob;
+  duplicates: DuplicateMatch[]; // Only byte-identical files until the track is analyzed
+}
+
+// Stream one uploaded audio file into storage and create its track. The size
+// is only known once the bytes are stored, so a file that turns out empty or
+// too large is removed again and rejected.
+export async function storeUploadedTrack(file: UploadPart): Promise<StoredUpload | UploadRejection> {
+  const typeRejection = validateAudioType({ name: file.filename, type: file.contentType ?? '' });
+  if (typeRejection) return typeRejection;
+
+  const storage = getStorage();
+  const stored = await storage.putObject(createAudioObjectKey(file.filename), file.body, {
+    contentType: file.contentType || undefined
+  });
+
+  const sizeRejection = validateAudioSize(file.truncated() ? Infinity : stored.size);
+  if (sizeRejection) {
+    await storage.deleteObject(stored.key).catch(() => undefined);
+    return sizeRejection;
+  }
+
+  // Unreadable tags never block an upload; the filename stands in for the title
+  let tags: AudioTags = {};
+  try {
+    tags = await readTags(storedObjectSource(stored.key, stored.size));
+  } catch (error) {
+    console.warn(`Could not read tags from ${file.filename}:`, error);
+  }
+
+  let coverArtPath: string | null = null;
+  if (tags.coverArt && tags.coverArt.data.length <= MAX_COVER_ART_BYTES) {
+    const cover = await storage.putObject(createCoverArtObjectKey(tags.coverArt.mimeType), tags.coverArt.data, {
+      contentType: tags.coverArt.mimeType
+    }).catch(() => null);
+    coverArtPath = cover?.key ?? null;
+  }
+
+  // Create a track record in the database
+  let track;
+  try {
+    track = await prisma.track.create({
+      data: {
+        filename: file.filename,
+        title: tags.title ?? file.filename.replace(/\.[^/.]+$/, ''), // Remove extension for title
+        artist: tags.artist ?? null,
+        album: tags.album ?? null,
+        genre: tags.genre ?? null,
+        year: tags.year ?? null,
+        label: tags.label ?? null,
+        taggedBpm: tags.bpm ?? null,
+        taggedKey: tags.key ? normalizeKey(tags.key) ?? tags.key : null,
+        coverArtPath,
+        filePath: stored.key,
+        fileSize: stored.size,
+        contentType: file.contentType || null,
+        contentHash: stored.sha256,
+        duration: 0, // Will be updated after analysis
+      }
+    });
+  } catch (error) {
+    // Don't leave orphaned audio behind if the record can't be created
+    await storage.deleteObject(stored.key).catch(() => undefined);
+    if (coverArtPath) await storage.deleteObject(coverArtPath).catch(() => undefined);
+    throw error;
+  }
+
+  // Queue server-side analysis as a safety net: it is held back long enough
+  // for the uploading browser to post its own result, and only runs if it doesn't
+  const analysisJob = await new AnalysisQueue().enqueue(track.id, { delayMs: CLIENT_ANALYSIS_GRACE_MS });
+
+  // Flag, don't refuse: the user decides whether to merge
+  const duplicates = await findDuplicatesOf(track.id);
+
+  return { track, analysisJob, duplicates };
+}
+
+// Ranged reads from a stored object, so tags are read without loading the file
+function storedObjectSource(key: string, size: number): ByteSource {
+  return {
+    size,
+    read: async (offset, length) => {
+      const end = Math.min(size, offset + length) - 1;
+      if (offset > end) return new Uint8Array(0);
+      const object = await getStorage().getObject(key, { start: offset, end });
+      if (!object) throw new Error(`Stored object ${key} is missing`);
+      return new Uint8Array(await new Response(object.body).arrayBuffer());
+    },
+  };
+}
+
+// Client-facing description and HTTP status for a failed upload
+export function describeUploadError(error: unknown): UploadRejection & { status: number } {
+  const details = error instanceof Error && error.message.startsWith('Failed to write object')
+    ? 'The audio file could not be stored'
+    : 'An unexpected error occurred during upload';
+  return { error: 'Upload failed', details, status: 500 };
+}
@@ -3,8 +3,21 @@ export interface Track {
   filename: string;
   title?: string;
   artist?: string;
+  album?: string | null;
+  genre?: string | null;
+  year?: number | null;
+  label?: string | null;
+  taggedBpm?: number | null; // From the file's tags, not analysis
+  taggedKey?: string | null;
+  bpmOverride?: number | null; // Set by hand, survives re-analysis
+  keyOverride?: string | null;
+  coverArtPath?: string | null;
+  coverArtUrl?: string | null;
   duration?: number;
   filePath: string;
+  fileSize?: number | null;
+  contentType?: string | null;
+  contentHash?: string | null;
   createdAt: Date;
   updatedAt: Date;
   features?: TrackFeatures;
@@ -14,32 +27,140 @@ export interface TrackFeatures {
   id: string;
   trackId: string;
   tempo?: number | null;
+  tempoConfidence?: number | null;
+  tempoCurve?: TempoCurvePoint[] | null;
   musicalKey?: string | null;
+  bpmOverride?: number | null; // The track's manual overrides, carried along for comparisons
+  keyOverride?: string | null;
+  duration?: number | null; // The track's length in seconds, carried along for set timing
+  camelotKey?: string | null;
+  keyConfidence?: number | null;
+  alternateKey?: string | null;
+  keyChanges?: KeyChange[] | null;
   energyLevel?: number | null;
-  loudness?: number | null;
+  loudness?: number | null; // Integrated loudness, LUFS
+  truePeak?: number | null; // dBTP
   danceability?: number | null;
   valence?: number | null;
   spectralCentroid?: number | null;
   spectralRolloff?: number | null;
   zeroCrossingRate?: number | null;
   mfcc?: number[] | null;
+  mfccVariance?: number[] | null;
   chroma?: number[] | null;
   beatPositions?: number[] | null;
+  beatGrid?: BeatGrid | null;
+  energyCurve?: EnergyCurve | null;
   structureSegments?: StructureSegment[] | null;
+  fingerprint?: string | null;
+  waveformPath?: string | null; // Storage key of the WaveformData object
+  analyzerVersion?: string | null;
+  featureStatus?: FeatureStatusMap | null;
+  analysisParams?: AnalysisParams | null;
+  degraded?: boolean; // Some feature was defaulted or failed
   createdAt: Date;
 }
 
+// Whether a stored feature was actually measured or is a placeholder value
+export interface FeatureStatus {
+  status: 'measured' | 'defaulted' | 'failed';
+  reason?: string;
+}
+
+export type AnalysisFeature =
+  | 'tempo'
+  | 'tempoCurve'
+  | 'key'
+  | 'keyChanges'
+  | 'energy'
+  | 'loudness'
+  | 'danceability'
+  | 'valence'
+  | 'timbre'
+  | 'beats'
+  | 'energyCurve'
+  | 'structure'
+  | 'fingerprint'
+  | 'waveform';
+
+export type FeatureStatusMap = Partial<Record<AnalysisFeature, FeatureStatus>>;
+
+// Inputs that determine the analysis output, recorded for reproducibility
+export interface AnalysisParams {
+  mode: 'full' | 'simplified';
+  sampleRate: number;
+  channels: number;
+  tempoRange: { min: number; max: number; preferred?: number };
+  spectral: { frameSize: number; hopSize: number; window: string };
+  onset: { frameSize: number; hopSize: number };
+  energyCurveInterval: number;
+  keyChangeWindow?: { windowSeconds: number; hopSeconds: number };
+  fingerprintSeconds?: number;
+  waveformInterval?: number; // Seconds per bucket at the finest waveform zoom
+}
+
+// Local tempo estimate for a window centred on `time` (seconds)
+export interface TempoCurvePoint {
+  time: number;
+  bpm: number;
+  confidence: number;
+}
+
+// Start of a region in one key; the first entry is at time 0
+export interface KeyChange {
+  time: number; // Seconds
+  key: string;
+  camelotKey: string;
+  confidence: number; // 0-1
+}
+
+// RMS energy sampled every `interval` seconds, on the same scale as energyLevel
+export interface EnergyCurve {
+  interval: number;
+  values: number[];
+}
+
+// Waveform peaks at one zoom level, zoom 0 being the whole-track overview.
+// Bucket data is base64 so tens of thousands of buckets stay compact.
+export interface WaveformLevel {
+  zoom: number;
+  bucketDuration: number; // Seconds
+  start: number; // Seconds at the first bucket, non-zero for a slice
+  length: number; // Buckets
+  peaks: string; // Min and max per bucket as signed bytes, -127..127 for -1..1
+  bands: string; // Low, mid and high RMS per bucket as bytes, relative to the level's loudest
+}
+
+export interface WaveformData {
+  duration: number;
+  levels: WaveformLevel[]; // Detail zooms too large for long recordings are left out
+}
+
+// Tracked beats with bar structure; arrays are parallel, one entry per beat
+export interface BeatGrid {
+  beats: number[]; // Seconds
+  confidence: number[]; // 0-1 per beat
+  bars: number[]; // Bar number per beat, 0 for a pickup before the first downbeat
+  beatInBar: number[]; // 1-based position within the bar
+  downbeats: number[]; // Seconds
+  firstDownbeat: number; // Seconds
+  firstDownbeatIndex: number;
+  beatsPerBar: number;
+}
+
 export interface StructureSegment {
   start: number;
   end: number;
-  type: 'intro' | 'verse' | 'chorus' | 'bridge' | 'outro';
+  type: 'intro' | 'buildup' | 'drop' | 'breakdown' | 'verse' | 'chorus' | 'bridge' | 'outro';
   confidence: number;
+  energy?: number; // RMS relative to the track's loudest section, 0-1
 }
 
 export interface CompatibilityScore {
   overall: number;
   tempo: number;
   key: number;
+  keyRelationship?: string; // e.g. 'relative minor', 'energy boost (+2 semitones)'
   energy: number;
   spectral: number;
   rhythm: number;
@@ -68,17 +189,105 @@ export interface UserPreferences {
   preferredTransitionTypes: string[];
 }
 
+// Decoded audio independent of the Web Audio API, so analysis can run in Node
+export interface PcmAudio {
+  sampleRate: number;
+  duration: number;
+  channels: Float32Array[];
+}
+
+// Decoded audio delivered in consecutive chunks, for recordings too long to
+// hold in memory at once. Every chunk has one equal-length array per channel.
+export interface PcmStream {
+  sampleRate: number;
+  channelCount: number;
+  duration: number | null; // Expected length in seconds, when the container declares it
+  chunks: AsyncIterable<Float32Array[]>;
+}
+
 export interface AudioAnalysisResult {
+  analyzerVersion: string;
+  featureStatus: FeatureStatusMap;
+  analysisParams: AnalysisParams;
+  duration: number;
   tempo: number;
-  key: string;
+  tempoConfidence: number; // 0-1
+  tempoCurve: TempoCurvePoint[];
+  key: string; // Standard notation with sharps, e.g. 'C#m'
+  camelotKey: string; // e.g. '12A'
+  keyConfidence: number; // 0-1
+  alternateKey: string | null; // Runner-up key, often the relative major/minor
+  keyChanges: KeyChange[];
   energy: number;
-  spectral: number[];
+  loudness: number | null; // Integrated loudness (EBU R128), LUFS; null for silence
+  truePeak: number | null; // dBTP
+  danceability: number; // 0-1
+  valence: number; // 0-1
+  mfcc: number[]; // Per-coefficient mean over all frames
+  mfccVariance: number[];
+  spectralCentroid: number; // Hz
+  spectralRolloff: number; // Hz
+  zeroCrossingRate: number;
+  chroma: number[];
   beats: number[];
+  beatGrid: BeatGrid | null;
+  energyCurve: EnergyCurve;
   structure: StructureSegment[];
+  fingerprint: string | null; // Encoded acoustic fingerprint of the opening minutes
+  waveform?: WaveformData | null; // Drawing peaks, stored apart from the features; older clients leave it out
+}
+
+// A track that looks like the same recording as another one: 'exact' when
+// the files are byte-identical, 'near' when only the audio fingerprints match
+// (a different encode, trim or edit)
+export interface DuplicateMatch {
+  trackId: string;
+  title?: string | null;
+  artist?: string | null;
+  filename: string;
+  kind: 'exact' | 'near';
+  similarity: number; // 1 for exact duplicates
+  offset: number; // Seconds the match starts later in its file
+}
+
+export interface DuplicateGroup {
+  kind: 'exact' | 'near';
+  trackIds: string[]; // Oldest upload first
+  matches: Array<{ trackId: string; otherTrackId: string; similarity: number; offset: number }>;
 }
 
 export interface PlaylistGenerationRequest {
   seedTrackId: string;
+  endTrackId?: string;
   preferences?: Partial<UserPreferences>;
   playlistLength?: number;
-} 
\ No newline at end of file
+  // A preset (warm-up, peak-time, sunrise, build, maintain, vary) or points
+  // of relative energy over the set; overrides preferences.energyProgression
+  energyArc?: string | Array<{ position: number; energy: number }>;
+  // Camelot moves every transition may make (same, adjacent, relative,
+  // diagonal, energy-boost) and the keys to start and end in; overrides
+  // preferences.keyRelationshipPreference
+  harmonicRules?: { moves: string[]; startKey?: string; endKey?: string };
+  // Mixed play time to fill, in seconds; replaces playlistLength
+  targetDuration?: number;
+  durationTolerance?: number; // Seconds either side of targetDuration
+} 
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  trackId: string;
+  status: AnalysisJobStatus;
+  stage?: string | null;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  error?: string | null;
+  analyzerVersion?: string | null;
+  runAfter: Date;
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}